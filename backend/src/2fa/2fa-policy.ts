@@ -0,0 +1,83 @@
+import { TwoFAPolicy } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type PolicyCompany = {
+  twoFAPolicy: TwoFAPolicy;
+  twoFAGraceDays: number;
+  twoFAPolicySetAt: Date | null;
+};
+
+type PolicyUser = {
+  role: string;
+  isTwoFAEnabled: boolean;
+  isServiceAccount?: boolean;
+  twoFAEnrollmentRequired?: boolean;
+  createdAt: Date;
+};
+
+export type TwoFAComplianceStatus = 'compliant' | 'grace' | 'overdue';
+
+export interface TwoFACompliance {
+  required: boolean;
+  status: TwoFAComplianceStatus;
+  enrollBy: Date | null;
+}
+
+export function isTwoFARequired(
+  company: PolicyCompany | null,
+  user: PolicyUser,
+): boolean {
+  // Service accounts authenticate with client secrets, not TOTP
+  if (user.isServiceAccount) {
+    return false;
+  }
+
+  // Set by an approved 2FA recovery, regardless of company policy
+  if (user.twoFAEnrollmentRequired) {
+    return true;
+  }
+
+  if (!company) {
+    return false;
+  }
+
+  switch (company.twoFAPolicy) {
+    case 'REQUIRED_FOR_ALL':
+      return true;
+    case 'REQUIRED_FOR_BOSS':
+      return user.role === 'BOSS';
+    default:
+      return false;
+  }
+}
+
+// Users who joined after the policy was set get their own grace period
+export function getTwoFACompliance(
+  company: PolicyCompany | null,
+  user: PolicyUser,
+  now = new Date(),
+): TwoFACompliance {
+  const required = isTwoFARequired(company, user);
+
+  if (!required || user.isTwoFAEnabled) {
+    return { required, status: 'compliant', enrollBy: null };
+  }
+
+  // No grace period after a recovery reset
+  if (user.twoFAEnrollmentRequired) {
+    return { required, status: 'overdue', enrollBy: null };
+  }
+
+  const start = Math.max(
+    company.twoFAPolicySetAt?.getTime() || 0,
+    user.createdAt.getTime(),
+  );
+  const enrollBy = new Date(start + company.twoFAGraceDays * DAY_MS);
+
+  return {
+    required: true,
+    status: now < enrollBy ? 'grace' : 'overdue',
+    enrollBy,
+  };
+}
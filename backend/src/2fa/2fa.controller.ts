@@ -2,6 +2,8 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
+  Param,
   UseGuards,
   Request,
   Body,
@@ -15,26 +17,31 @@ import {
   Verify2FaDto,
   Disable2FaDto,
   Verify2FaLoginDto,
+  Send2FaEmailCodeDto,
 } from './dto/2fa.dto';
-import { JwtAuthGuard } from '../auth/guards/auth.guard';
-import { Roles, RolesGuard } from '../auth/guards/roles.guard';
-import { Throttle } from '@nestjs/throttler';
+import { JwtAuthGuard, Scopes } from '../auth/guards/auth.guard';
+import { TWO_FA_ENROLLMENT_SCOPE } from '../auth/scopes';
+import { TrustedDevicesService } from '../auth/trusted-devices.service';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
 
 @Controller('2fa')
 export class TwoFAController {
-  constructor(private twoFAService: TwoFAService) {}
+  constructor(
+    private twoFAService: TwoFAService,
+    private trustedDevicesService: TrustedDevicesService,
+  ) {}
 
   @Get('generate')
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles('BOSS')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(TWO_FA_ENROLLMENT_SCOPE)
   @Throttle({ default: { limit: 5, ttl: 60 } })
   async generateSecret(@Request() req) {
     return this.twoFAService.generateSecret(req.user.email);
   }
 
   @Post('enable')
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles('BOSS')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(TWO_FA_ENROLLMENT_SCOPE)
   @HttpCode(HttpStatus.OK)
   async enableTwoFA(@Request() req, @Body() dto: Enable2FaDto) {
     const client = this.extractClient(req);
@@ -55,12 +62,20 @@ export class TwoFAController {
       dto.token,
       dto.code,
       this.extractClient(req),
+      dto.rememberDevice,
     );
   }
 
+  @Post('email-code')
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 3, ttl: 60 } })
+  async sendEmailCode(@Body() dto: Send2FaEmailCodeDto, @Request() req) {
+    return this.twoFAService.sendEmailCode(dto.token, this.extractClient(req));
+  }
+
   @Post('disable')
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles('BOSS')
+  @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.OK)
   async disableTwoFA(@Request() req, @Body() dto: Disable2FaDto) {
     const client = this.extractClient(req);
@@ -73,8 +88,7 @@ export class TwoFAController {
   }
 
   @Post('regenerate-backup-codes')
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles('BOSS')
+  @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.OK)
   async regenerateBackupCodes(@Request() req, @Body('code') code: string) {
     return this.twoFAService.regenerateBackupCodes(
@@ -85,13 +99,36 @@ export class TwoFAController {
   }
 
   @Get('status')
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles('BOSS')
+  @UseGuards(JwtAuthGuard)
+  @Scopes(TWO_FA_ENROLLMENT_SCOPE)
   async getTwoFAStatus(@Request() req) {
-    // Only BOSS can check their 2FA status (enforced by @Roles guard)
-    return {
-      isTwoFAEnabled: req.user.isTwoFAEnabled || false,
-    };
+    return this.twoFAService.getStatus(req.user.userId);
+  }
+
+  @Get('trusted-devices')
+  @UseGuards(JwtAuthGuard)
+  async listTrustedDevices(@Request() req) {
+    return this.trustedDevicesService.listDevices(req.user.userId);
+  }
+
+  @Delete('trusted-devices/:id')
+  @UseGuards(JwtAuthGuard)
+  async revokeTrustedDevice(@Request() req, @Param('id') id: string) {
+    return this.trustedDevicesService.revokeDevice(
+      req.user.userId,
+      id,
+      this.extractClient(req),
+    );
+  }
+
+  @Delete('trusted-devices')
+  @UseGuards(JwtAuthGuard)
+  async revokeAllTrustedDevices(@Request() req) {
+    return this.trustedDevicesService.revokeAllDevices(
+      req.user.userId,
+      'user_request',
+      this.extractClient(req),
+    );
   }
 
   private extractClient(req: any) {
@@ -1,16 +1,40 @@
 import { Module } from '@nestjs/common';
-import { JwtModule } from '@nestjs/jwt';
+import { BullModule } from '@nestjs/bull';
 import { TwoFAService } from './2fa.service';
 import { TwoFAController } from './2fa.controller';
+import { SecretEncryptionService } from './secret-encryption.service';
+import { TwoFAKeysService } from './keys/2fa-keys.service';
+import { TwoFAKeysController } from './keys/2fa-keys.controller';
+import { SecretReencryptionProcessor } from './processors/secret-reencryption.processor';
+import { RecoveryCompletionProcessor } from './processors/recovery-completion.processor';
+import { TwoFARecoveryService } from './recovery/2fa-recovery.service';
+import { TwoFARecoveryController } from './recovery/2fa-recovery.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
+import { MetricsModule } from '../common/monitoring/metrics.module';
+import { QueueModule } from '../queue/queue.module';
+import { CompaniesModule } from '../companies/companies.module';
+import { ApprovalsModule } from '../approvals/approvals.module';
 
 @Module({
-  imports: [PrismaModule, AuthModule, JwtModule.register({
-    secret: process.env.JWT_SECRET,
-  })],
-  controllers: [TwoFAController],
-  providers: [TwoFAService],
+  imports: [
+    PrismaModule,
+    AuthModule,
+    MetricsModule,
+    QueueModule,
+    CompaniesModule,
+    ApprovalsModule,
+    BullModule.registerQueue({ name: 'twofa' }),
+  ],
+  controllers: [TwoFAController, TwoFAKeysController, TwoFARecoveryController],
+  providers: [
+    TwoFAService,
+    SecretEncryptionService,
+    TwoFAKeysService,
+    SecretReencryptionProcessor,
+    TwoFARecoveryService,
+    RecoveryCompletionProcessor,
+  ],
   exports: [TwoFAService],
 })
 export class TwoFAModule {}
@@ -3,28 +3,38 @@ import {
   BadRequestException,
   UnauthorizedException,
   ForbiddenException,
+  NotFoundException,
 } from '@nestjs/common';
 import * as speakeasy from 'speakeasy';
 import * as QRCode from 'qrcode';
 import * as bcrypt from 'bcrypt';
 import * as crypto from 'crypto';
-import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuthService } from '../auth/auth.service';
+import { LoginChallenge } from '../auth/interfaces/auth.interface';
+import { MetricsService } from '../common/monitoring/metrics.service';
+import { SecretEncryptionService } from './secret-encryption.service';
+import { TrustedDevicesService } from '../auth/trusted-devices.service';
+import { QueueService } from '../queue/queue.service';
+import { getTwoFACompliance, isTwoFARequired } from './2fa-policy';
 
 type ClientContext = { ip?: string; userAgent?: string };
 
+type TotpResult = 'valid' | 'invalid' | 'replay';
+
+const TOTP_STEP_SECONDS = 30;
+const EMAIL_CODE_TTL_MS = 5 * 60 * 1000; // Same lifetime as the 2FA token
+
 @Injectable()
 export class TwoFAService {
-  private encryptionKey: Buffer;
-
   constructor(
     private prisma: PrismaService,
-    private jwtService: JwtService,
     private authService: AuthService,
-  ) {
-    this.encryptionKey = this.getEncryptionKey();
-  }
+    private metricsService: MetricsService,
+    private secretEncryption: SecretEncryptionService,
+    private trustedDevicesService: TrustedDevicesService,
+    private queueService: QueueService,
+  ) {}
 
   async generateSecret(email: string) {
     const secret = speakeasy.generateSecret({
@@ -40,13 +50,97 @@ export class TwoFAService {
     };
   }
 
-  private async verifyToken(secret: string, token: string): Promise<boolean> {
-    return speakeasy.totp.verify({
+  async getStatus(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const company = await this.getCompanyPolicy(user.companyId);
+    const compliance = getTwoFACompliance(company, user);
+
+    return {
+      isTwoFAEnabled: user.isTwoFAEnabled,
+      isRequired: compliance.required,
+      status: compliance.status,
+      enrollBy: compliance.enrollBy,
+    };
+  }
+
+  private async getCompanyPolicy(companyId: string | null) {
+    if (!companyId) {
+      return null;
+    }
+
+    return this.prisma.company.findUnique({
+      where: { id: companyId },
+      select: {
+        twoFAPolicy: true,
+        twoFAGraceDays: true,
+        twoFAPolicySetAt: true,
+      },
+    });
+  }
+
+  // A code is accepted at most once: its time step must be later than the
+  // last step accepted for the user
+  private async verifyToken(
+    userId: string,
+    secret: string,
+    token: string,
+  ): Promise<TotpResult> {
+    const counter = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+    const match = speakeasy.totp.verifyDelta({
       secret,
       encoding: 'base32',
       token,
+      counter,
       window: parseInt(process.env.TOTP_WINDOW || '2'),
     });
+
+    if (!match) {
+      return 'invalid';
+    }
+
+    const step = counter + match.delta;
+
+    // Conditional update so concurrent requests cannot both claim the step
+    const claimed = await this.prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFALastUsedStep: null }, { twoFALastUsedStep: { lt: step } }],
+      },
+      data: { twoFALastUsedStep: step },
+    });
+
+    return claimed.count > 0 ? 'valid' : 'replay';
+  }
+
+  // For the authenticated 2FA management endpoints
+  private async assertValidToken(
+    userId: string,
+    secret: string,
+    token: string,
+    client?: ClientContext,
+  ) {
+    const result = await this.verifyToken(userId, secret, token);
+
+    if (result === 'valid') {
+      this.metricsService.record2FAAttempt(true, 'totp');
+      return;
+    }
+
+    if (result === 'replay') {
+      this.metricsService.record2FAAttempt(false, 'totp', 'replay');
+      await this.logAudit(userId, '2FA_REPLAY_BLOCKED', 'user', null, client);
+      throw new BadRequestException('TOTP code has already been used');
+    }
+
+    this.metricsService.record2FAAttempt(false, 'totp', 'invalid_code');
+    throw new BadRequestException('Invalid TOTP code');
   }
 
   async enableTwoFA(
@@ -71,11 +165,7 @@ export class TwoFAService {
     }
 
     // Verify the token
-    const isValid = await this.verifyToken(secret, token);
-
-    if (!isValid) {
-      throw new BadRequestException('Invalid TOTP code');
-    }
+    await this.assertValidToken(userId, secret, token, client);
 
     // Generate backup codes
     const backupCodes = this.generateBackupCodes(10);
@@ -88,8 +178,9 @@ export class TwoFAService {
       where: { id: userId },
       data: {
         isTwoFAEnabled: true,
-        twoFASecret: this.encryptSecret(secret),
+        twoFASecret: this.secretEncryption.encrypt(secret),
         twoFABackupCodes: hashedBackupCodes,
+        twoFAEnrollmentRequired: false,
       },
     });
 
@@ -117,18 +208,19 @@ export class TwoFAService {
       throw new BadRequestException('2FA is not enabled for this user');
     }
 
+    const company = await this.getCompanyPolicy(user.companyId);
+    if (isTwoFARequired(company, user)) {
+      throw new ForbiddenException('2FA is required by your company policy');
+    }
+
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) {
       throw new UnauthorizedException('Invalid password');
     }
 
     // Verify the token
-    const secret = this.decryptSecret(user.twoFASecret as string);
-    const isValid = await this.verifyToken(secret, token);
-
-    if (!isValid) {
-      throw new BadRequestException('Invalid TOTP code');
-    }
+    const secret = this.secretEncryption.decrypt(user.twoFASecret as string);
+    await this.assertValidToken(userId, secret, token, client);
 
     // Disable 2FA
     await this.prisma.user.update({
@@ -137,9 +229,16 @@ export class TwoFAService {
         isTwoFAEnabled: false,
         twoFASecret: null,
         twoFABackupCodes: [],
+        twoFALastUsedStep: null,
       },
     });
 
+    await this.trustedDevicesService.revokeAllDevices(
+      userId,
+      '2fa_disabled',
+      client,
+    );
+
     // Log the 2FA disablement
     await this.logAudit(userId, '2FA_DISABLED', 'user', null, client);
 
@@ -150,43 +249,58 @@ export class TwoFAService {
     token: string,
     code: string,
     client?: ClientContext,
+    rememberDevice = false,
   ) {
     try {
-      const decoded = this.jwtService.verify(token, {
-        secret: process.env.JWT_SECRET,
-      }) as { sub: string; temp?: boolean; type?: string; fp?: string };
-
-      if (!decoded?.temp || decoded.type !== '2fa') {
-        throw new UnauthorizedException('Invalid or expired token');
-      }
-
-      if (decoded.fp && decoded.fp !== this.fingerprint(client)) {
-        throw new ForbiddenException('Client fingerprint mismatch');
-      }
+      const { userId, stepUp, riskEventId } =
+        this.authService.verifyLoginChallenge(token, client);
 
       const user = await this.prisma.user.findUnique({
-        where: { id: decoded.sub },
+        where: { id: userId },
       });
 
-      if (!user || !user.isActive || !user.isTwoFAEnabled) {
+      // Risky logins of users without 2FA are verified by emailed code
+      if (!user || !user.isActive || (!user.isTwoFAEnabled && !stepUp)) {
         throw new UnauthorizedException('Invalid request');
       }
 
       if (user.twoFALockUntil && user.twoFALockUntil > new Date()) {
+        this.metricsService.record2FAAttempt(false, 'totp', 'locked');
         throw new UnauthorizedException('2FA temporarily locked. Try again later');
       }
 
-      const secret = this.decryptSecret(user.twoFASecret as string);
-
       // Try to verify with TOTP code
-      let isValid = await this.verifyToken(secret, code);
-
-      // If TOTP fails, try backup codes
-      if (!isValid) {
-        isValid = await this.verifyBackupCode(user, code);
+      const result = user.isTwoFAEnabled
+        ? await this.verifyToken(
+            user.id,
+            this.secretEncryption.decrypt(user.twoFASecret as string),
+            code,
+          )
+        : 'invalid';
+
+      if (result === 'replay') {
+        this.metricsService.record2FAAttempt(false, 'totp', 'replay');
+        await this.logAudit(
+          user.id,
+          '2FA_REPLAY_BLOCKED',
+          'user',
+          null,
+          client,
+        );
+        await this.incrementTwoFAAttempts(user.id, user.twoFAAttempts);
+        throw new BadRequestException('Code already used');
       }
 
-      if (!isValid) {
+      if (result === 'valid') {
+        this.metricsService.record2FAAttempt(true, 'totp');
+      } else if (await this.verifyEmailCode(user.id, code)) {
+        // Fallback code requested through /2fa/email-code
+        this.metricsService.record2FAAttempt(true, 'email');
+      } else if (await this.verifyBackupCode(user, code)) {
+        // If TOTP fails, try backup codes
+        this.metricsService.record2FAAttempt(true, 'backup');
+      } else {
+        this.metricsService.record2FAAttempt(false, 'totp', 'invalid_code');
         await this.incrementTwoFAAttempts(user.id, user.twoFAAttempts);
         throw new BadRequestException('Invalid code');
       }
@@ -194,12 +308,126 @@ export class TwoFAService {
       await this.resetTwoFAAttempts(user.id);
       // Generate full auth tokens
       await this.logAudit(user.id, '2FA_VERIFIED', 'user', null, client);
-      return this.authService.generateAuthResponse(user, client);
+      const response = await this.authService.generateAuthResponse(
+        user,
+        client,
+        riskEventId,
+      );
+
+      if (
+        !rememberDevice ||
+        !user.isTwoFAEnabled ||
+        !this.trustedDevicesService.isEnabled
+      ) {
+        return response;
+      }
+
+      const { deviceToken, expiresAt } =
+        await this.trustedDevicesService.trustDevice(user.id, client);
+
+      return { ...response, deviceToken, deviceTrustedUntil: expiresAt };
     } catch (error) {
       throw new UnauthorizedException('Invalid or expired token');
     }
   }
 
+  // Fallback second factor for users who lost their authenticator
+  async sendEmailCode(token: string, client?: ClientContext) {
+    let challenge: LoginChallenge;
+
+    try {
+      challenge = this.authService.verifyLoginChallenge(token, client);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    const { userId } = challenge;
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (
+      !user ||
+      !user.isActive ||
+      (!user.isTwoFAEnabled && !challenge.stepUp)
+    ) {
+      throw new UnauthorizedException('Invalid request');
+    }
+
+    if (!user.isEmailVerified) {
+      throw new BadRequestException(
+        'Email codes require a verified email address',
+      );
+    }
+
+    if (user.twoFALockUntil && user.twoFALockUntil > new Date()) {
+      throw new UnauthorizedException(
+        '2FA temporarily locked. Try again later',
+      );
+    }
+
+    const cooldownSeconds = parseInt(
+      process.env.TWOFA_EMAIL_CODE_COOLDOWN || '60',
+    );
+
+    const recent = await this.prisma.twoFAEmailCode.findFirst({
+      where: {
+        userId,
+        createdAt: { gt: new Date(Date.now() - cooldownSeconds * 1000) },
+      },
+    });
+
+    if (recent) {
+      throw new BadRequestException(
+        'A code was sent recently. Please wait before requesting another one',
+      );
+    }
+
+    // Only the most recent code stays valid
+    await this.prisma.twoFAEmailCode.deleteMany({
+      where: { userId, usedAt: null },
+    });
+
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+    const expiresAt = new Date(Date.now() + EMAIL_CODE_TTL_MS);
+
+    await this.prisma.twoFAEmailCode.create({
+      data: {
+        userId,
+        codeHash: await bcrypt.hash(code, 10),
+        expiresAt,
+      },
+    });
+
+    await this.queueService.send2FAEmail(user.email, code);
+
+    await this.logAudit(userId, '2FA_EMAIL_CODE_SENT', 'user', null, client);
+
+    return {
+      message: 'A verification code has been sent to your email address',
+      expiresAt,
+    };
+  }
+
+  private async verifyEmailCode(userId: string, code: string) {
+    const emailCode = await this.prisma.twoFAEmailCode.findFirst({
+      where: { userId, usedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!emailCode || !(await bcrypt.compare(code, emailCode.codeHash))) {
+      return false;
+    }
+
+    // Single use, even under concurrent requests
+    const claimed = await this.prisma.twoFAEmailCode.updateMany({
+      where: { id: emailCode.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    return claimed.count > 0;
+  }
+
   private async incrementTwoFAAttempts(userId: string, current: number) {
     const attempts = current + 1;
     const lockThreshold = 5;
@@ -286,12 +514,8 @@ export class TwoFAService {
     }
 
     // Verify the token
-    const secret = this.decryptSecret(user.twoFASecret as string);
-    const isValid = await this.verifyToken(secret, token);
-
-    if (!isValid) {
-      throw new BadRequestException('Invalid TOTP code');
-    }
+    const secret = this.secretEncryption.decrypt(user.twoFASecret as string);
+    await this.assertValidToken(userId, secret, token, client);
 
     // Generate new backup codes
     const backupCodes = this.generateBackupCodes(10);
@@ -312,40 +536,4 @@ export class TwoFAService {
       backupCodes,
     };
   }
-
-  private getEncryptionKey(): Buffer {
-    const key = process.env.TWOFA_ENCRYPTION_KEY;
-    if (!key) {
-      throw new Error('TWOFA_ENCRYPTION_KEY is required for 2FA secret encryption');
-    }
-    const buffer = Buffer.from(key, 'base64');
-    if (buffer.length !== 32) {
-      throw new Error('TWOFA_ENCRYPTION_KEY must be 32 bytes base64-encoded');
-    }
-    return buffer;
-  }
-
-  private encryptSecret(secret: string): string {
-    const iv = crypto.randomBytes(12);
-    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
-    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
-    const tag = cipher.getAuthTag();
-    return `${iv.toString('base64')}:${ciphertext.toString('base64')}:${tag.toString('base64')}`;
-  }
-
-  private decryptSecret(payload: string): string {
-    const [ivB64, dataB64, tagB64] = payload.split(':');
-    const iv = Buffer.from(ivB64, 'base64');
-    const ciphertext = Buffer.from(dataB64, 'base64');
-    const tag = Buffer.from(tagB64, 'base64');
-    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
-    decipher.setAuthTag(tag);
-    const decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
-    return decrypted.toString('utf8');
-  }
-
-  private fingerprint(client?: ClientContext): string {
-    const input = `${client?.ip || ''}|${client?.userAgent || ''}`;
-    return crypto.createHash('sha256').update(input).digest('hex');
-  }
 }
@@ -0,0 +1,13 @@
+import { IsString } from 'class-validator';
+
+export class Request2FaRecoveryDto {
+  // Temporary token from /auth/login, proves the password
+  @IsString()
+  token: string;
+}
+
+export class Recovery2FaTokenDto {
+  // Token from the confirmation or cancellation email
+  @IsString()
+  token: string;
+}
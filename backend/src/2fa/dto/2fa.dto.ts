@@ -1,4 +1,10 @@
-import { IsString, MinLength, MaxLength } from 'class-validator';
+import {
+  IsString,
+  IsBoolean,
+  IsOptional,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
 
 export class Enable2FaDto {
   @IsString()
@@ -30,6 +36,16 @@ export class Verify2FaLoginDto {
   @MinLength(6)
   @MaxLength(10)
   code: string;
+
+  // Skip 2FA on this browser for TRUSTED_DEVICE_DAYS
+  @IsOptional()
+  @IsBoolean()
+  rememberDevice?: boolean;
+}
+
+export class Send2FaEmailCodeDto {
+  @IsString()
+  token: string;
 }
 
 export class Disable2FaDto {
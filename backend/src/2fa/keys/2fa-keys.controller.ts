@@ -0,0 +1,42 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { TwoFAKeysService } from './2fa-keys.service';
+import { JwtAuthGuard } from '../../auth/guards/auth.guard';
+import { Roles, RolesGuard } from '../../auth/guards/roles.guard';
+import {
+  Client,
+  ClientContext,
+} from '../../common/decorators/client.decorator';
+
+@Controller('2fa/keys')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class TwoFAKeysController {
+  constructor(private twoFAKeysService: TwoFAKeysService) {}
+
+  @Get()
+  @Roles('ADMIN')
+  listKeys() {
+    return this.twoFAKeysService.listKeys();
+  }
+
+  @Post('reencrypt')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async startReencryption(@Request() req, @Client() client: ClientContext) {
+    return this.twoFAKeysService.startReencryption(req.user.userId, client);
+  }
+
+  @Get('reencrypt/:jobId')
+  @Roles('ADMIN')
+  async getReencryptionJob(@Param('jobId') jobId: string) {
+    return this.twoFAKeysService.getReencryptionJob(jobId);
+  }
+}
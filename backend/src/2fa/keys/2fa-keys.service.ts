@@ -0,0 +1,84 @@
+import {
+  Injectable,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { SecretEncryptionService } from '../secret-encryption.service';
+import { ClientContext } from '../../common/decorators/client.decorator';
+import { AuditService } from '../../audit/audit.service';
+
+export interface ReencryptSecretsJob {
+  requestedBy: string;
+  keyId: string; // Active key when the job was queued
+}
+
+export interface ReencryptSecretsResult {
+  keyId: string;
+  total: number;
+  reencrypted: number;
+  failed: number;
+  completedAt: Date;
+}
+
+@Injectable()
+export class TwoFAKeysService {
+  constructor(
+    @InjectQueue('twofa') private twofaQueue: Queue<ReencryptSecretsJob>,
+    private secretEncryption: SecretEncryptionService,
+    private auditService: AuditService,
+  ) {}
+
+  listKeys() {
+    return {
+      activeKeyId: this.secretEncryption.activeKeyId,
+      keyIds: this.secretEncryption.keyIds,
+    };
+  }
+
+  async startReencryption(performedBy: string, client?: ClientContext) {
+    const running = await this.twofaQueue.getJobs(['waiting', 'active']);
+
+    if (running.some((job) => job.name === 'reencrypt-secrets')) {
+      throw new ConflictException('A re-encryption job is already running');
+    }
+
+    const job = await this.twofaQueue.add(
+      'reencrypt-secrets',
+      { requestedBy: performedBy, keyId: this.secretEncryption.activeKeyId },
+      { attempts: 3, backoff: { type: 'exponential', delay: 5000 } },
+    );
+
+    await this.auditService.logUserAudit(
+      performedBy,
+      '2FA_REENCRYPTION_STARTED',
+      'auth',
+      {
+        jobId: job.id,
+        keyId: job.data.keyId,
+      },
+      client,
+    );
+
+    return this.getReencryptionJob(String(job.id));
+  }
+
+  async getReencryptionJob(jobId: string) {
+    const job = await this.twofaQueue.getJob(jobId);
+
+    if (!job || job.name !== 'reencrypt-secrets') {
+      throw new NotFoundException('Job not found');
+    }
+
+    return {
+      jobId: String(job.id),
+      keyId: job.data.keyId,
+      state: await job.getState(),
+      progress: job.progress(),
+      result: (job.returnvalue as ReencryptSecretsResult) || null,
+      failedReason: job.failedReason || null,
+      createdAt: new Date(job.timestamp),
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  CompleteRecoveryJob,
+  TwoFARecoveryService,
+} from '../recovery/2fa-recovery.service';
+
+// Applies approved 2FA resets once their waiting period has passed
+@Processor('twofa')
+export class RecoveryCompletionProcessor {
+  private readonly logger = new Logger(RecoveryCompletionProcessor.name);
+
+  constructor(private recoveryService: TwoFARecoveryService) {}
+
+  @Process('complete-recovery')
+  async handleCompleteRecovery(job: Job<CompleteRecoveryJob>) {
+    const completed = await this.recoveryService.completeRecovery(
+      job.data.requestId,
+    );
+
+    // Cancelled or rejected in the meantime
+    if (!completed) {
+      this.logger.log(
+        `2FA recovery ${job.data.requestId} no longer pending, skipped`,
+      );
+    }
+
+    return { completed };
+  }
+}
@@ -0,0 +1,162 @@
+import * as crypto from 'crypto';
+import { Job } from 'bull';
+import { SecretReencryptionProcessor } from './secret-reencryption.processor';
+import { SecretEncryptionService } from '../secret-encryption.service';
+import { ReencryptSecretsJob } from '../keys/2fa-keys.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuditService } from '../../audit/audit.service';
+
+type StoredUser = { id: string; twoFASecret: string | null };
+
+// Just enough of PrismaService for the processor, backed by an array
+const fakePrisma = (users: StoredUser[]) => {
+  const withSecret = () =>
+    users
+      .filter((user) => user.twoFASecret !== null)
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+  return {
+    user: {
+      count: jest.fn(async () => withSecret().length),
+      findMany: jest.fn(async ({ take, cursor }) => {
+        const rows = withSecret();
+        const start = cursor
+          ? rows.findIndex((user) => user.id === cursor.id) + 1
+          : 0;
+        return rows.slice(start, start + take).map((user) => ({ ...user }));
+      }),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const user = users.find(
+          (candidate) =>
+            candidate.id === where.id &&
+            candidate.twoFASecret === where.twoFASecret,
+        );
+        if (user) {
+          user.twoFASecret = data.twoFASecret;
+        }
+        return { count: user ? 1 : 0 };
+      }),
+    },
+  };
+};
+
+describe('SecretReencryptionProcessor', () => {
+  const saved = process.env.TWOFA_ENCRYPTION_KEYS;
+  const oldKey = crypto.randomBytes(32).toString('base64');
+  const newKey = crypto.randomBytes(32).toString('base64');
+
+  let before: SecretEncryptionService;
+  let after: SecretEncryptionService;
+  let auditService: { logUserAudit: jest.Mock };
+
+  const job = {
+    id: 7,
+    data: { requestedBy: 'admin-id', keyId: 'k2' },
+    progress: jest.fn(),
+  } as unknown as Job<ReencryptSecretsJob>;
+
+  const run = (prisma: ReturnType<typeof fakePrisma>) =>
+    new SecretReencryptionProcessor(
+      prisma as unknown as PrismaService,
+      after,
+      auditService as unknown as AuditService,
+    ).handleReencryptSecrets(job);
+
+  beforeAll(() => {
+    process.env.TWOFA_ENCRYPTION_KEYS = `k1:${oldKey}`;
+    before = new SecretEncryptionService();
+    process.env.TWOFA_ENCRYPTION_KEYS = `k2:${newKey},k1:${oldKey}`;
+    after = new SecretEncryptionService();
+  });
+
+  afterAll(() => {
+    if (saved === undefined) {
+      delete process.env.TWOFA_ENCRYPTION_KEYS;
+    } else {
+      process.env.TWOFA_ENCRYPTION_KEYS = saved;
+    }
+  });
+
+  beforeEach(() => {
+    auditService = { logUserAudit: jest.fn() };
+  });
+
+  it('should move every secret to the active key across batches', async () => {
+    const users: StoredUser[] = Array.from({ length: 150 }, (_, index) => ({
+      id: `user-${String(index).padStart(3, '0')}`,
+      twoFASecret: before.encrypt(`SECRET${index}`),
+    }));
+    users.push({ id: 'user-without-2fa', twoFASecret: null });
+    const prisma = fakePrisma(users);
+
+    const result = await run(prisma);
+
+    expect(result).toMatchObject({
+      keyId: 'k2',
+      total: 150,
+      reencrypted: 150,
+      failed: 0,
+    });
+    expect(prisma.user.findMany).toHaveBeenCalledTimes(3);
+
+    users.slice(0, 150).forEach((user, index) => {
+      expect(after.getKeyId(user.twoFASecret)).toBe('k2');
+      expect(after.decrypt(user.twoFASecret)).toBe(`SECRET${index}`);
+    });
+    expect(users[150].twoFASecret).toBeNull();
+
+    expect(job.progress).toHaveBeenLastCalledWith(100);
+    expect(auditService.logUserAudit).toHaveBeenCalledWith(
+      'admin-id',
+      '2FA_REENCRYPTION_COMPLETED',
+      'auth',
+      expect.objectContaining({ jobId: 7, keyId: 'k2', reencrypted: 150 }),
+    );
+  });
+
+  it('should skip secrets already on the active key', async () => {
+    const current = after.encrypt('CURRENT');
+    const users = [
+      { id: 'a', twoFASecret: current },
+      { id: 'b', twoFASecret: before.encrypt('OLD') },
+    ];
+    const prisma = fakePrisma(users);
+
+    const result = await run(prisma);
+
+    expect(result).toMatchObject({ total: 2, reencrypted: 1, failed: 0 });
+    expect(prisma.user.updateMany).toHaveBeenCalledTimes(1);
+    expect(users[0].twoFASecret).toBe(current);
+  });
+
+  it('should leave secrets changed meanwhile alone', async () => {
+    const users = [{ id: 'a', twoFASecret: before.encrypt('OLD') }];
+    const prisma = fakePrisma(users);
+    const reenrolled = after.encrypt('REENROLLED');
+
+    // The user re-enrolls between the read and the write
+    prisma.user.findMany.mockImplementationOnce(async () => {
+      const rows = users.map((user) => ({ ...user }));
+      users[0].twoFASecret = reenrolled;
+      return rows;
+    });
+
+    const result = await run(prisma);
+
+    expect(result).toMatchObject({ total: 1, reencrypted: 0, failed: 0 });
+    expect(users[0].twoFASecret).toBe(reenrolled);
+  });
+
+  it('should count secrets it cannot read as failed and go on', async () => {
+    const users = [
+      { id: 'a', twoFASecret: 'v2:gone:AAAA:AAAA:AAAA:AAAA' },
+      { id: 'b', twoFASecret: before.encrypt('OLD') },
+    ];
+
+    const result = await run(fakePrisma(users));
+
+    expect(result).toMatchObject({ total: 2, reencrypted: 1, failed: 1 });
+    expect(users[0].twoFASecret).toBe('v2:gone:AAAA:AAAA:AAAA:AAAA');
+    expect(after.decrypt(users[1].twoFASecret)).toBe('OLD');
+  });
+});
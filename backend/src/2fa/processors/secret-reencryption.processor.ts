@@ -0,0 +1,109 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SecretEncryptionService } from '../secret-encryption.service';
+import {
+  ReencryptSecretsJob,
+  ReencryptSecretsResult,
+} from '../keys/2fa-keys.service';
+import { AuditService } from '../../audit/audit.service';
+
+const BATCH_SIZE = 100;
+
+// Moves every stored 2FA secret to the active encryption key
+@Processor('twofa')
+export class SecretReencryptionProcessor {
+  private readonly logger = new Logger(SecretReencryptionProcessor.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private secretEncryption: SecretEncryptionService,
+    private auditService: AuditService,
+  ) {}
+
+  @Process('reencrypt-secrets')
+  async handleReencryptSecrets(
+    job: Job<ReencryptSecretsJob>,
+  ): Promise<ReencryptSecretsResult> {
+    const keyId = this.secretEncryption.activeKeyId;
+    const where = { twoFASecret: { not: null } };
+    const total = await this.prisma.user.count({ where });
+
+    this.logger.log(
+      `Re-encrypting ${total} 2FA secrets with key ${keyId} (job ${job.id})`,
+    );
+
+    let processed = 0;
+    let reencrypted = 0;
+    let failed = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const users = await this.prisma.user.findMany({
+        where,
+        select: { id: true, twoFASecret: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      if (!users.length) {
+        break;
+      }
+
+      for (const user of users) {
+        processed++;
+
+        if (!this.secretEncryption.needsReencryption(user.twoFASecret)) {
+          continue;
+        }
+
+        try {
+          // Compare-and-swap: leave it alone if the user re-enrolled or
+          // disabled 2FA since the batch was read
+          const updated = await this.prisma.user.updateMany({
+            where: { id: user.id, twoFASecret: user.twoFASecret },
+            data: {
+              twoFASecret: this.secretEncryption.reencrypt(user.twoFASecret),
+            },
+          });
+          reencrypted += updated.count;
+        } catch (error) {
+          failed++;
+          this.logger.error(
+            `Failed to re-encrypt 2FA secret of user ${user.id}: ${error.message}`,
+          );
+        }
+      }
+
+      cursor = users[users.length - 1].id;
+      await job.progress(
+        Math.min(100, Math.round((processed / Math.max(total, 1)) * 100)),
+      );
+    }
+
+    await job.progress(100);
+
+    const result = {
+      keyId,
+      total: processed,
+      reencrypted,
+      failed,
+      completedAt: new Date(),
+    };
+
+    await this.auditService.logUserAudit(
+      job.data.requestedBy,
+      '2FA_REENCRYPTION_COMPLETED',
+      'auth',
+      { jobId: job.id, ...result },
+    );
+
+    this.logger.log(
+      `2FA re-encryption job ${job.id} done: ${reencrypted} re-encrypted, ${failed} failed`,
+    );
+
+    return result;
+  }
+}
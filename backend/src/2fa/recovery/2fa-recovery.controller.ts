@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { TwoFARecoveryService } from './2fa-recovery.service';
+import {
+  Request2FaRecoveryDto,
+  Recovery2FaTokenDto,
+} from '../dto/2fa-recovery.dto';
+import { JwtAuthGuard } from '../../auth/guards/auth.guard';
+import { Roles, RolesGuard } from '../../auth/guards/roles.guard';
+import {
+  Client,
+  ClientContext,
+} from '../../common/decorators/client.decorator';
+
+@Controller('2fa/recovery')
+export class TwoFARecoveryController {
+  constructor(private recoveryService: TwoFARecoveryService) {}
+
+  @Post('request')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 3, ttl: 60 } })
+  @HttpCode(HttpStatus.OK)
+  async requestRecovery(
+    @Body() dto: Request2FaRecoveryDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.recoveryService.requestRecovery(dto.token, client);
+  }
+
+  @Post('confirm')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60 } })
+  @HttpCode(HttpStatus.OK)
+  async confirmRecovery(
+    @Body() dto: Recovery2FaTokenDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.recoveryService.confirmRecovery(dto.token, client);
+  }
+
+  @Post('cancel')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60 } })
+  @HttpCode(HttpStatus.OK)
+  async cancelRecovery(
+    @Body() dto: Recovery2FaTokenDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.recoveryService.cancel(dto.token, client);
+  }
+
+  @Get('pending')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('BOSS', 'ADMIN')
+  async listPending(@Request() req) {
+    return this.recoveryService.listPending(req.user);
+  }
+
+  @Post(':id/approve')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('BOSS', 'ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async approve(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.recoveryService.approve(id, req.user, client);
+  }
+
+  @Post(':id/reject')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('BOSS', 'ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async reject(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.recoveryService.reject(id, req.user, client);
+  }
+}
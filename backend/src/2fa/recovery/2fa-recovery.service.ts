@@ -0,0 +1,460 @@
+import {
+  Injectable,
+  OnModuleInit,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthService } from '../../auth/auth.service';
+import { TrustedDevicesService } from '../../auth/trusted-devices.service';
+import { CompaniesService } from '../../companies/companies.service';
+import { QueueService } from '../../queue/queue.service';
+import { ApprovalsService } from '../../approvals/approvals.service';
+import { ClientContext } from '../../common/decorators/client.decorator';
+import { AuditService, AuditMetadata } from '../../audit/audit.service';
+
+type Reviewer = { userId: string; role: string };
+
+type RecoveryRequestRef = {
+  id: string;
+  userId: string;
+  companyId: string | null;
+};
+
+export interface CompleteRecoveryJob {
+  requestId: string;
+}
+
+const EMAIL_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+const HOUR_MS = 60 * 60 * 1000;
+
+const OPEN_STATUSES = [
+  'PENDING_EMAIL',
+  'PENDING_APPROVAL',
+  'APPROVED',
+] as const;
+
+const RECOVERY_SELECT = {
+  id: true,
+  status: true,
+  companyId: true,
+  emailConfirmedAt: true,
+  executeAfter: true,
+  createdAt: true,
+  user: {
+    select: { id: true, email: true, username: true, role: true },
+  },
+};
+
+/**
+ * 2FA recovery for users who lost both their authenticator and their backup
+ * codes: the owner confirms by email, another BOSS of the company (or a
+ * platform admin) approves, and the reset runs after a waiting period during
+ * which the owner can still cancel it.
+ */
+@Injectable()
+export class TwoFARecoveryService implements OnModuleInit {
+  private readonly delayHours = parseInt(
+    process.env.TWOFA_RECOVERY_DELAY_HOURS || '24',
+  );
+
+  constructor(
+    @InjectQueue('twofa') private twofaQueue: Queue,
+    private prisma: PrismaService,
+    private authService: AuthService,
+    private trustedDevicesService: TrustedDevicesService,
+    private companiesService: CompaniesService,
+    private queueService: QueueService,
+    private approvalsService: ApprovalsService,
+    private auditService: AuditService,
+  ) {}
+
+  // Run once a second reviewer approves a held recovery approval
+  onModuleInit() {
+    this.approvalsService.registerExecutor(
+      'user:2fa-reset',
+      async ({ requestId }, actor, client) => {
+        const request = await this.getReviewableRequest(requestId, actor);
+        return this.applyApproval(request, actor, client);
+      },
+    );
+  }
+
+  async requestRecovery(twoFAToken: string, client?: ClientContext) {
+    let userId: string;
+
+    try {
+      userId = this.authService.verifyTwoFAToken(twoFAToken, client);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.isActive || !user.isTwoFAEnabled) {
+      throw new BadRequestException('2FA is not enabled for this account');
+    }
+
+    const open = await this.prisma.twoFARecoveryRequest.findFirst({
+      where: { userId, status: { in: [...OPEN_STATUSES] } },
+    });
+
+    if (open && open.status !== 'PENDING_EMAIL') {
+      throw new ConflictException('A recovery request is already in progress');
+    }
+
+    // An unconfirmed request is replaced, which also resends the email
+    if (open) {
+      await this.prisma.twoFARecoveryRequest.update({
+        where: { id: open.id },
+        data: { status: 'CANCELLED' },
+      });
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+
+    const request = await this.prisma.twoFARecoveryRequest.create({
+      data: {
+        userId,
+        companyId: user.companyId,
+        emailTokenHash: this.hashToken(token),
+        emailTokenExpiresAt: new Date(Date.now() + EMAIL_TOKEN_TTL_MS),
+      },
+    });
+
+    await this.queueService.send2FARecoveryEmail(user.email, token);
+
+    await this.logRecoveryAudit(
+      request,
+      '2FA_RECOVERY_REQUESTED',
+      userId,
+      null,
+      client,
+    );
+
+    return {
+      message: 'Check your email to confirm the recovery request',
+    };
+  }
+
+  async confirmRecovery(token: string, client?: ClientContext) {
+    const request = await this.prisma.twoFARecoveryRequest.findUnique({
+      where: { emailTokenHash: this.hashToken(token) },
+    });
+
+    if (
+      !request ||
+      request.status !== 'PENDING_EMAIL' ||
+      request.emailTokenExpiresAt < new Date()
+    ) {
+      throw new BadRequestException('Invalid or expired recovery token');
+    }
+
+    await this.prisma.twoFARecoveryRequest.update({
+      where: { id: request.id },
+      data: { status: 'PENDING_APPROVAL', emailConfirmedAt: new Date() },
+    });
+
+    await this.logRecoveryAudit(
+      request,
+      '2FA_RECOVERY_EMAIL_CONFIRMED',
+      request.userId,
+      null,
+      client,
+    );
+
+    return {
+      message: request.companyId
+        ? 'Recovery request confirmed. Another BOSS of your company must now approve it'
+        : 'Recovery request confirmed. A platform administrator must now approve it',
+    };
+  }
+
+  async listPending(reviewer: Reviewer) {
+    if (reviewer.role === 'ADMIN') {
+      return this.prisma.twoFARecoveryRequest.findMany({
+        where: { status: 'PENDING_APPROVAL' },
+        select: RECOVERY_SELECT,
+        orderBy: { createdAt: 'asc' },
+      });
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: reviewer.userId },
+      select: { companyId: true },
+    });
+
+    if (!user?.companyId) {
+      return [];
+    }
+
+    return this.prisma.twoFARecoveryRequest.findMany({
+      where: {
+        companyId: user.companyId,
+        status: 'PENDING_APPROVAL',
+        userId: { not: reviewer.userId },
+      },
+      select: RECOVERY_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async approve(requestId: string, reviewer: Reviewer, client?: ClientContext) {
+    const request = await this.getReviewableRequest(requestId, reviewer);
+
+    if (this.approvalsService.isRequired('user:2fa-reset')) {
+      return this.approvalsService.submit(
+        'user:2fa-reset',
+        { requestId: request.id },
+        { userId: reviewer.userId, companyId: request.companyId },
+        client,
+      );
+    }
+
+    return this.applyApproval(request, reviewer, client);
+  }
+
+  private async applyApproval(
+    request: RecoveryRequestRef & { user: { email: string } },
+    reviewer: Reviewer,
+    client?: ClientContext,
+  ) {
+    const cancelToken = crypto.randomBytes(32).toString('hex');
+    const executeAfter = new Date(Date.now() + this.delayHours * HOUR_MS);
+
+    const updated = await this.prisma.twoFARecoveryRequest.updateMany({
+      where: { id: request.id, status: 'PENDING_APPROVAL' },
+      data: {
+        status: 'APPROVED',
+        reviewedBy: reviewer.userId,
+        reviewedAt: new Date(),
+        executeAfter,
+        cancelTokenHash: this.hashToken(cancelToken),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new ConflictException('Recovery request was already reviewed');
+    }
+
+    await this.twofaQueue.add(
+      'complete-recovery',
+      { requestId: request.id } as CompleteRecoveryJob,
+      {
+        delay: executeAfter.getTime() - Date.now(),
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 60000 },
+      },
+    );
+
+    await this.queueService.send2FARecoveryApprovedEmail(
+      request.user.email,
+      executeAfter,
+      cancelToken,
+    );
+
+    await this.logRecoveryAudit(
+      request,
+      '2FA_RECOVERY_APPROVED',
+      reviewer.userId,
+      { executeAfter },
+      client,
+    );
+
+    return { id: request.id, status: 'APPROVED', executeAfter };
+  }
+
+  async reject(requestId: string, reviewer: Reviewer, client?: ClientContext) {
+    const request = await this.getReviewableRequest(requestId, reviewer);
+
+    const updated = await this.prisma.twoFARecoveryRequest.updateMany({
+      where: { id: request.id, status: 'PENDING_APPROVAL' },
+      data: {
+        status: 'REJECTED',
+        reviewedBy: reviewer.userId,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new ConflictException('Recovery request was already reviewed');
+    }
+
+    await this.logRecoveryAudit(
+      request,
+      '2FA_RECOVERY_REJECTED',
+      reviewer.userId,
+      null,
+      client,
+    );
+
+    return { id: request.id, status: 'REJECTED' };
+  }
+
+  // Through the link in the approval email, until the waiting period ends
+  async cancel(cancelToken: string, client?: ClientContext) {
+    const request = await this.prisma.twoFARecoveryRequest.findUnique({
+      where: { cancelTokenHash: this.hashToken(cancelToken) },
+    });
+
+    if (!request || request.status !== 'APPROVED') {
+      throw new BadRequestException('Invalid or expired cancellation token');
+    }
+
+    await this.prisma.twoFARecoveryRequest.update({
+      where: { id: request.id },
+      data: { status: 'CANCELLED' },
+    });
+
+    await this.logRecoveryAudit(
+      request,
+      '2FA_RECOVERY_CANCELLED',
+      request.userId,
+      null,
+      client,
+    );
+
+    return { message: '2FA recovery request cancelled' };
+  }
+
+  // Run by the twofa queue once the waiting period is over
+  async completeRecovery(requestId: string): Promise<boolean> {
+    const request = await this.prisma.twoFARecoveryRequest.findUnique({
+      where: { id: requestId },
+      include: { user: { select: { email: true } } },
+    });
+
+    if (
+      !request ||
+      request.status !== 'APPROVED' ||
+      request.executeAfter > new Date()
+    ) {
+      return false;
+    }
+
+    const completed = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.twoFARecoveryRequest.updateMany({
+        where: { id: request.id, status: 'APPROVED' },
+        data: { status: 'COMPLETED', completedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      await tx.user.update({
+        where: { id: request.userId },
+        data: {
+          isTwoFAEnabled: false,
+          twoFASecret: null,
+          twoFABackupCodes: [],
+          twoFALastUsedStep: null,
+          twoFAAttempts: 0,
+          twoFALockUntil: null,
+          // Next login only gets a token that can set 2FA up again
+          twoFAEnrollmentRequired: true,
+        },
+      });
+
+      // Whoever held the old factor may still have sessions
+      await tx.refreshToken.updateMany({
+        where: { userId: request.userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      await tx.session.deleteMany({ where: { userId: request.userId } });
+
+      return true;
+    });
+
+    if (!completed) {
+      return false;
+    }
+
+    await this.trustedDevicesService.revokeAllDevices(
+      request.userId,
+      '2fa_recovery',
+    );
+
+    await this.queueService.send2FARecoveryCompletedEmail(request.user.email);
+
+    await this.logRecoveryAudit(request, '2FA_RECOVERY_COMPLETED', null, {
+      reviewedBy: request.reviewedBy,
+    });
+
+    return true;
+  }
+
+  private async getReviewableRequest(requestId: string, reviewer: Reviewer) {
+    const request = await this.prisma.twoFARecoveryRequest.findUnique({
+      where: { id: requestId },
+      include: { user: { select: { email: true } } },
+    });
+
+    if (!request || request.status !== 'PENDING_APPROVAL') {
+      throw new NotFoundException('Recovery request not found');
+    }
+
+    if (request.userId === reviewer.userId) {
+      throw new ForbiddenException(
+        'You cannot review your own recovery request',
+      );
+    }
+
+    if (reviewer.role !== 'ADMIN') {
+      if (!request.companyId) {
+        throw new ForbiddenException(
+          'Only a platform admin can review this request',
+        );
+      }
+
+      await this.companiesService.assertCompanyBoss(
+        request.companyId,
+        reviewer.userId,
+      );
+    }
+
+    return request;
+  }
+
+  // Company audit log when the user belongs to one, plus the user's own log
+  private async logRecoveryAudit(
+    request: RecoveryRequestRef,
+    action: string,
+    performedBy: string | null,
+    metadata: AuditMetadata,
+    client?: ClientContext,
+  ): Promise<void> {
+    const details = { requestId: request.id, ...metadata };
+
+    if (request.companyId) {
+      await this.auditService.logCompanyAudit(
+        request.companyId,
+        action,
+        `user:${request.userId}`,
+        performedBy,
+        details,
+        client,
+      );
+    }
+
+    await this.auditService.logUserAudit(
+      request.userId,
+      action,
+      'user',
+      { ...details, performedBy },
+      client,
+    );
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,188 @@
+import * as crypto from 'crypto';
+import { SecretEncryptionService } from './secret-encryption.service';
+
+const KEY_ENV = [
+  'TWOFA_ENCRYPTION_KEYS',
+  'TWOFA_ENCRYPTION_KEY',
+  'TWOFA_ENCRYPTION_KEY_ID',
+] as const;
+
+const newKey = () => crypto.randomBytes(32).toString('base64');
+
+describe('SecretEncryptionService', () => {
+  const saved = KEY_ENV.map((name) => process.env[name]);
+  const oldKey = newKey();
+  const newerKey = newKey();
+
+  // The service reads its keys once, when constructed
+  const withKeys = (env: Partial<Record<(typeof KEY_ENV)[number], string>>) => {
+    KEY_ENV.forEach((name) => delete process.env[name]);
+    Object.assign(process.env, env);
+    return new SecretEncryptionService();
+  };
+
+  afterAll(() => {
+    KEY_ENV.forEach((name, index) => {
+      if (saved[index] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = saved[index];
+      }
+    });
+  });
+
+  describe('Versioned ciphertext', () => {
+    it('should label the payload with the format and active key id', () => {
+      const service = withKeys({ TWOFA_ENCRYPTION_KEYS: `k1:${oldKey}` });
+      const payload = service.encrypt('JBSWY3DPEHPK3PXP');
+
+      const parts = payload.split(':');
+      expect(parts).toHaveLength(6);
+      expect(parts.slice(0, 2)).toEqual(['v2', 'k1']);
+      expect(service.getKeyId(payload)).toBe('k1');
+      expect(service.decrypt(payload)).toBe('JBSWY3DPEHPK3PXP');
+    });
+
+    it('should use a fresh data key for every secret', () => {
+      const service = withKeys({ TWOFA_ENCRYPTION_KEYS: `k1:${oldKey}` });
+
+      const [first, second] = [1, 2].map(() =>
+        service.encrypt('JBSWY3DPEHPK3PXP').split(':'),
+      );
+      expect(first[2]).not.toBe(second[2]);
+      expect(first[4]).not.toBe(second[4]);
+    });
+
+    it('should refuse a payload relabelled with another key id', () => {
+      const service = withKeys({
+        TWOFA_ENCRYPTION_KEYS: `k1:${oldKey},k2:${oldKey}`,
+      });
+      const parts = service.encrypt('JBSWY3DPEHPK3PXP').split(':');
+
+      // Same key material, but the id is bound to the wrapped data key
+      parts[1] = 'k2';
+      expect(() => service.decrypt(parts.join(':'))).toThrow();
+    });
+
+    it('should refuse tampered and unknown formats', () => {
+      const service = withKeys({ TWOFA_ENCRYPTION_KEYS: `k1:${oldKey}` });
+      const parts = service.encrypt('JBSWY3DPEHPK3PXP').split(':');
+
+      const ciphertext = Buffer.from(parts[4], 'base64');
+      ciphertext[0] ^= 1;
+      const tampered = [...parts];
+      tampered[4] = ciphertext.toString('base64');
+      expect(() => service.decrypt(tampered.join(':'))).toThrow();
+
+      expect(() =>
+        service.decrypt(['v3', ...parts.slice(1)].join(':')),
+      ).toThrow('Unsupported 2FA secret format');
+    });
+
+    it('should read the unversioned format with any configured key', () => {
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv(
+        'aes-256-gcm',
+        Buffer.from(oldKey, 'base64'),
+        iv,
+      );
+      const ciphertext = Buffer.concat([
+        cipher.update('JBSWY3DPEHPK3PXP', 'utf8'),
+        cipher.final(),
+      ]);
+      const legacy = [iv, ciphertext, cipher.getAuthTag()]
+        .map((part) => part.toString('base64'))
+        .join(':');
+
+      const service = withKeys({
+        TWOFA_ENCRYPTION_KEYS: `k2:${newerKey},k1:${oldKey}`,
+      });
+      expect(service.getKeyId(legacy)).toBeNull();
+      expect(service.decrypt(legacy)).toBe('JBSWY3DPEHPK3PXP');
+
+      const without = withKeys({ TWOFA_ENCRYPTION_KEYS: `k2:${newerKey}` });
+      expect(() => without.decrypt(legacy)).toThrow(
+        'No configured key decrypts this 2FA secret',
+      );
+    });
+  });
+
+  describe('Key rotation', () => {
+    it('should decrypt with a retired key that is still configured', () => {
+      const before = withKeys({ TWOFA_ENCRYPTION_KEYS: `k1:${oldKey}` });
+      const payload = before.encrypt('JBSWY3DPEHPK3PXP');
+
+      const after = withKeys({
+        TWOFA_ENCRYPTION_KEYS: `k1:${oldKey},k2:${newerKey}`,
+        TWOFA_ENCRYPTION_KEY_ID: 'k2',
+      });
+      expect(after.activeKeyId).toBe('k2');
+      expect(after.decrypt(payload)).toBe('JBSWY3DPEHPK3PXP');
+      expect(after.needsReencryption(payload)).toBe(true);
+      expect(after.getKeyId(after.encrypt('JBSWY3DPEHPK3PXP'))).toBe('k2');
+    });
+
+    it('should fail once the retired key is removed', () => {
+      const before = withKeys({ TWOFA_ENCRYPTION_KEYS: `k1:${oldKey}` });
+      const payload = before.encrypt('JBSWY3DPEHPK3PXP');
+
+      const after = withKeys({ TWOFA_ENCRYPTION_KEYS: `k2:${newerKey}` });
+      expect(() => after.decrypt(payload)).toThrow(
+        'Unknown 2FA encryption key id: k1',
+      );
+    });
+
+    it('should re-wrap the data key without touching the ciphertext', () => {
+      const before = withKeys({ TWOFA_ENCRYPTION_KEYS: `k1:${oldKey}` });
+      const payload = before.encrypt('JBSWY3DPEHPK3PXP');
+
+      const after = withKeys({
+        TWOFA_ENCRYPTION_KEYS: `k2:${newerKey},k1:${oldKey}`,
+      });
+      const moved = after.reencrypt(payload);
+
+      expect(after.getKeyId(moved)).toBe('k2');
+      expect(after.needsReencryption(moved)).toBe(false);
+      expect(moved.split(':').slice(3)).toEqual(payload.split(':').slice(3));
+
+      // Readable without the retired key
+      const retired = withKeys({ TWOFA_ENCRYPTION_KEYS: `k2:${newerKey}` });
+      expect(retired.decrypt(moved)).toBe('JBSWY3DPEHPK3PXP');
+    });
+
+    it('should give a lone TWOFA_ENCRYPTION_KEY the default id', () => {
+      const service = withKeys({ TWOFA_ENCRYPTION_KEY: oldKey });
+
+      expect(service.keyIds).toEqual(['default']);
+      expect(service.getKeyId(service.encrypt('JBSWY3DPEHPK3PXP'))).toBe(
+        'default',
+      );
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should require at least one key', () => {
+      expect(() => withKeys({})).toThrow('TWOFA_ENCRYPTION_KEYS');
+    });
+
+    it('should reject malformed entries and short keys', () => {
+      expect(() => withKeys({ TWOFA_ENCRYPTION_KEYS: oldKey })).toThrow(
+        '<id>:<base64 key>',
+      );
+      expect(() =>
+        withKeys({
+          TWOFA_ENCRYPTION_KEYS: `k1:${crypto.randomBytes(16).toString('base64')}`,
+        }),
+      ).toThrow('32 bytes');
+    });
+
+    it('should reject an active key id that is not configured', () => {
+      expect(() =>
+        withKeys({
+          TWOFA_ENCRYPTION_KEYS: `k1:${oldKey}`,
+          TWOFA_ENCRYPTION_KEY_ID: 'k9',
+        }),
+      ).toThrow('TWOFA_ENCRYPTION_KEY_ID "k9" is not configured');
+    });
+  });
+});
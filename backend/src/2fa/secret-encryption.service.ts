@@ -0,0 +1,228 @@
+import { Injectable } from '@nestjs/common';
+import * as crypto from 'crypto';
+
+const FORMAT_VERSION = 'v2';
+const DEFAULT_KEY_ID = 'default'; // Id given to a lone TWOFA_ENCRYPTION_KEY
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Envelope encryption for 2FA secrets.
+ *
+ * Each secret is encrypted with its own random data key, and the data key is
+ * wrapped with a key-encryption key (KEK) from TWOFA_ENCRYPTION_KEYS:
+ *
+ *   v2:<kid>:<wrapped data key>:<iv>:<ciphertext>:<tag>
+ *
+ * Every configured KEK can decrypt; new secrets use TWOFA_ENCRYPTION_KEY_ID
+ * (the first key by default). Rotating only re-wraps the data key. The
+ * unversioned iv:ciphertext:tag format written before key ids existed is
+ * still readable with any configured key.
+ */
+@Injectable()
+export class SecretEncryptionService {
+  private readonly keys = this.loadKeys();
+  readonly activeKeyId = this.getActiveKeyId();
+
+  get keyIds(): string[] {
+    return [...this.keys.keys()];
+  }
+
+  encrypt(plaintext: string): string {
+    const dataKey = crypto.randomBytes(32);
+    const { iv, ciphertext, tag } = this.seal(
+      dataKey,
+      Buffer.from(plaintext, 'utf8'),
+      FORMAT_VERSION,
+    );
+
+    return [
+      FORMAT_VERSION,
+      this.activeKeyId,
+      this.wrapDataKey(dataKey, this.activeKeyId),
+      iv.toString('base64'),
+      ciphertext.toString('base64'),
+      tag.toString('base64'),
+    ].join(':');
+  }
+
+  decrypt(payload: string): string {
+    const parts = payload.split(':');
+
+    if (parts.length === 3) {
+      return this.decryptLegacy(parts);
+    }
+
+    const [version, kid, wrapped, iv, ciphertext, tag] = parts;
+
+    if (version !== FORMAT_VERSION || parts.length !== 6) {
+      throw new Error('Unsupported 2FA secret format');
+    }
+
+    const dataKey = this.unwrapDataKey(wrapped, kid);
+
+    return this.open(
+      dataKey,
+      Buffer.from(iv, 'base64'),
+      Buffer.from(ciphertext, 'base64'),
+      Buffer.from(tag, 'base64'),
+      FORMAT_VERSION,
+    ).toString('utf8');
+  }
+
+  getKeyId(payload: string): string | null {
+    const [version, kid] = payload.split(':');
+    return version === FORMAT_VERSION ? kid : null;
+  }
+
+  needsReencryption(payload: string): boolean {
+    return this.getKeyId(payload) !== this.activeKeyId;
+  }
+
+  // Moves a payload to the active key. Versioned payloads only get their data
+  // key re-wrapped; legacy ones are fully re-encrypted.
+  reencrypt(payload: string): string {
+    const kid = this.getKeyId(payload);
+
+    if (!kid) {
+      return this.encrypt(this.decrypt(payload));
+    }
+
+    const parts = payload.split(':');
+    const dataKey = this.unwrapDataKey(parts[2], kid);
+
+    parts[1] = this.activeKeyId;
+    parts[2] = this.wrapDataKey(dataKey, this.activeKeyId);
+
+    return parts.join(':');
+  }
+
+  private decryptLegacy([iv, ciphertext, tag]: string[]): string {
+    for (const key of this.keys.values()) {
+      try {
+        return this.open(
+          key,
+          Buffer.from(iv, 'base64'),
+          Buffer.from(ciphertext, 'base64'),
+          Buffer.from(tag, 'base64'),
+        ).toString('utf8');
+      } catch {
+        // Wrong key, the GCM tag does not verify; try the next one
+      }
+    }
+
+    throw new Error('No configured key decrypts this 2FA secret');
+  }
+
+  // The key id is bound as AAD so a wrapped key cannot be relabelled
+  private wrapDataKey(dataKey: Buffer, kid: string): string {
+    const { iv, ciphertext, tag } = this.seal(this.getKey(kid), dataKey, kid);
+    return Buffer.concat([iv, ciphertext, tag]).toString('base64');
+  }
+
+  private unwrapDataKey(wrapped: string, kid: string): Buffer {
+    const raw = Buffer.from(wrapped, 'base64');
+
+    return this.open(
+      this.getKey(kid),
+      raw.subarray(0, 12),
+      raw.subarray(12, raw.length - 16),
+      raw.subarray(raw.length - 16),
+      kid,
+    );
+  }
+
+  private seal(key: Buffer, plaintext: Buffer, aad?: string) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+
+    if (aad) {
+      cipher.setAAD(Buffer.from(aad));
+    }
+
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext),
+      cipher.final(),
+    ]);
+    return { iv, ciphertext, tag: cipher.getAuthTag() };
+  }
+
+  private open(
+    key: Buffer,
+    iv: Buffer,
+    ciphertext: Buffer,
+    tag: Buffer,
+    aad?: string,
+  ): Buffer {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+
+    if (aad) {
+      decipher.setAAD(Buffer.from(aad));
+    }
+
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+
+  private getKey(kid: string): Buffer {
+    const key = this.keys.get(kid);
+
+    if (!key) {
+      throw new Error(`Unknown 2FA encryption key id: ${kid}`);
+    }
+
+    return key;
+  }
+
+  // TWOFA_ENCRYPTION_KEYS=kid:base64key,kid2:base64key. A single
+  // TWOFA_ENCRYPTION_KEY is still accepted and gets the id "default".
+  private loadKeys(): Map<string, Buffer> {
+    const keys = new Map<string, Buffer>();
+    const entries = (process.env.TWOFA_ENCRYPTION_KEYS || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+    for (const entry of entries) {
+      const separator = entry.indexOf(':');
+      const kid = entry.slice(0, separator);
+
+      if (separator < 1 || !KEY_ID_PATTERN.test(kid)) {
+        throw new Error(
+          'TWOFA_ENCRYPTION_KEYS entries must look like <id>:<base64 key>',
+        );
+      }
+
+      keys.set(kid, this.parseKey(entry.slice(separator + 1)));
+    }
+
+    if (process.env.TWOFA_ENCRYPTION_KEY && !keys.has(DEFAULT_KEY_ID)) {
+      keys.set(DEFAULT_KEY_ID, this.parseKey(process.env.TWOFA_ENCRYPTION_KEY));
+    }
+
+    if (!keys.size) {
+      throw new Error(
+        'TWOFA_ENCRYPTION_KEYS or TWOFA_ENCRYPTION_KEY is required for 2FA secret encryption',
+      );
+    }
+
+    return keys;
+  }
+
+  private parseKey(value: string): Buffer {
+    const buffer = Buffer.from(value, 'base64');
+    if (buffer.length !== 32) {
+      throw new Error('2FA encryption keys must be 32 bytes base64-encoded');
+    }
+    return buffer;
+  }
+
+  private getActiveKeyId(): string {
+    const kid = process.env.TWOFA_ENCRYPTION_KEY_ID || this.keyIds[0];
+
+    if (!this.keys.has(kid)) {
+      throw new Error(`TWOFA_ENCRYPTION_KEY_ID "${kid}" is not configured`);
+    }
+
+    return kid;
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/api-key.dto';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { Client, ClientContext } from '../common/decorators/client.decorator';
+
+// No @Scopes(): API keys cannot be used to manage API keys
+@Controller('users/me/api-keys')
+@UseGuards(JwtAuthGuard)
+export class ApiKeysController {
+  constructor(private apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createApiKey(
+    @Request() req,
+    @Body() dto: CreateApiKeyDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.apiKeysService.createApiKey(req.user.userId, dto, client);
+  }
+
+  @Get()
+  async listApiKeys(@Request() req) {
+    return this.apiKeysService.listApiKeys(req.user.userId);
+  }
+
+  @Delete(':id')
+  async revokeApiKey(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.apiKeysService.revokeApiKey(req.user.userId, id, client);
+  }
+}
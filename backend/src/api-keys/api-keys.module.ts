@@ -0,0 +1,15 @@
+import { Global, Module } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeyAuthGuard } from '../auth/guards/api-key.guard';
+import { PrismaModule } from '../prisma/prisma.module';
+
+// Global because JwtAuthGuard, used by every module, needs ApiKeyAuthGuard
+@Global()
+@Module({
+  imports: [PrismaModule],
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService, ApiKeyAuthGuard],
+  exports: [ApiKeysService, ApiKeyAuthGuard],
+})
+export class ApiKeysModule {}
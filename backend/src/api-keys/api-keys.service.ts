@@ -0,0 +1,189 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateApiKeyDto } from './dto/api-key.dto';
+import { ClientContext } from '../common/decorators/client.decorator';
+import { AuditService } from '../audit/audit.service';
+import { AuthenticatedUser } from '../auth/interfaces/auth.interface';
+
+export const API_KEY_PREFIX = 'pat_';
+
+const MAX_ACTIVE_KEYS = 25;
+const PREFIX_DISPLAY_LENGTH = 12; // 'pat_' plus 8 random characters
+const USAGE_RECORD_INTERVAL_MS = 60 * 1000; // Bound writes for busy scripts
+
+const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+};
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  async createApiKey(
+    userId: string,
+    dto: CreateApiKeyDto,
+    client?: ClientContext,
+  ) {
+    const activeKeys = await this.prisma.apiKey.count({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    });
+
+    if (activeKeys >= MAX_ACTIVE_KEYS) {
+      throw new BadRequestException(
+        `A user can have at most ${MAX_ACTIVE_KEYS} active API keys`,
+      );
+    }
+
+    const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        userId,
+        name: dto.name,
+        prefix: key.slice(0, PREFIX_DISPLAY_LENGTH),
+        keyHash: this.hashKey(key),
+        scopes: dto.scopes,
+        expiresAt: new Date(Date.now() + dto.expiresInDays * 86400 * 1000),
+      },
+      select: API_KEY_SELECT,
+    });
+
+    await this.auditService.logUserAudit(
+      userId,
+      'API_KEY_CREATED',
+      `api-key:${apiKey.id}`,
+      { name: apiKey.name, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt },
+      client,
+    );
+
+    // The plaintext key is only ever returned here
+    return { ...apiKey, key };
+  }
+
+  async listApiKeys(userId: string) {
+    return this.prisma.apiKey.findMany({
+      where: { userId },
+      select: API_KEY_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revokeApiKey(userId: string, apiKeyId: string, client?: ClientContext) {
+    const apiKey = await this.prisma.apiKey.findFirst({
+      where: { id: apiKeyId, userId },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    if (apiKey.revokedAt) {
+      throw new BadRequestException('API key already revoked');
+    }
+
+    const revoked = await this.prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { revokedAt: new Date() },
+      select: API_KEY_SELECT,
+    });
+
+    await this.auditService.logUserAudit(
+      userId,
+      'API_KEY_REVOKED',
+      `api-key:${apiKey.id}`,
+      { name: apiKey.name },
+      client,
+    );
+
+    return revoked;
+  }
+
+  // Resolves a raw key to the principal placed on request.user
+  async authenticate(
+    key: string,
+    client?: ClientContext & { method?: string; path?: string },
+  ): Promise<AuthenticatedUser> {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+      include: { user: true },
+    });
+
+    if (!apiKey || apiKey.revokedAt || apiKey.expiresAt < new Date()) {
+      throw new UnauthorizedException('Invalid or expired API key');
+    }
+
+    const { user } = apiKey;
+
+    if (!user.isActive) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    await this.recordUsage(apiKey, client);
+
+    return {
+      userId: user.id,
+      email: user.email,
+      username: user.username,
+      role: user.role,
+      isTwoFAEnabled: user.isTwoFAEnabled,
+      isEmailVerified: user.isEmailVerified,
+      companyId: user.companyId,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+    };
+  }
+
+  private async recordUsage(
+    apiKey: {
+      id: string;
+      userId: string;
+      lastUsedAt: Date | null;
+      lastUsedIp: string | null;
+    },
+    client?: ClientContext & { method?: string; path?: string },
+  ) {
+    const ip = client?.ip || null;
+    const recentlyRecorded =
+      apiKey.lastUsedAt &&
+      Date.now() - apiKey.lastUsedAt.getTime() < USAGE_RECORD_INTERVAL_MS;
+
+    // A new IP is always recorded, repeated calls from the same one are sampled
+    if (recentlyRecorded && apiKey.lastUsedIp === ip) {
+      return;
+    }
+
+    await this.prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ip },
+    });
+
+    await this.auditService.logUserAudit(
+      apiKey.userId,
+      'API_KEY_USED',
+      `api-key:${apiKey.id}`,
+      { method: client?.method, path: client?.path },
+      client,
+    );
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
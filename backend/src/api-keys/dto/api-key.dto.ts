@@ -0,0 +1,31 @@
+import {
+  IsString,
+  IsArray,
+  IsIn,
+  IsInt,
+  Min,
+  Max,
+  MinLength,
+  MaxLength,
+  ArrayNotEmpty,
+  ArrayUnique,
+} from 'class-validator';
+import { TOKEN_SCOPES, TokenScope } from '../../auth/scopes';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(TOKEN_SCOPES, { each: true })
+  scopes: TokenScope[];
+
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  expiresInDays: number;
+}
@@ -8,6 +8,7 @@ import 'winston-daily-rotate-file';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from './prisma/prisma.module';
+import { AuditModule } from './audit/audit.module';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
 import { TwoFAModule } from './2fa/2fa.module';
@@ -15,9 +16,20 @@ import { EmailModule } from './email/email.module';
 import { MetricsModule } from './common/monitoring/metrics.module';
 import { HealthModule } from './health/health.module';
 import { MetricsInterceptor } from './common/interceptors/metrics.interceptor';
+import { TenantContextInterceptor } from './common/interceptors/tenant-context.interceptor';
 import { QueueModule } from './queue/queue.module';
 import { StorageModule } from './storage/storage.module';
 import { SearchModule } from './search/search.module';
+import { CompaniesModule } from './companies/companies.module';
+import { InvitationsModule } from './invitations/invitations.module';
+import { OAuthModule } from './oauth/oauth.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { ServiceAccountsModule } from './service-accounts/service-accounts.module';
+import { WebAuthnModule } from './webauthn/webauthn.module';
+import { PermissionsModule } from './permissions/permissions.module';
+import { AuthzModule } from './authz/authz.module';
+import { ElevationModule } from './elevation/elevation.module';
+import { ApprovalsModule } from './approvals/approvals.module';
 
 @Module({
   imports: [
@@ -103,6 +115,7 @@ import { SearchModule } from './search/search.module';
     MetricsModule,
     HealthModule,
     PrismaModule,
+    AuditModule,
     AuthModule,
     UsersModule,
     TwoFAModule,
@@ -110,6 +123,16 @@ import { SearchModule } from './search/search.module';
     QueueModule,
     StorageModule,
     SearchModule,
+    CompaniesModule,
+    InvitationsModule,
+    OAuthModule,
+    ApiKeysModule,
+    ServiceAccountsModule,
+    WebAuthnModule,
+    PermissionsModule,
+    AuthzModule,
+    ElevationModule,
+    ApprovalsModule,
   ],
   controllers: [AppController],
   providers: [
@@ -118,6 +141,10 @@ import { SearchModule } from './search/search.module';
       provide: APP_INTERCEPTOR,
       useClass: MetricsInterceptor,
     },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: TenantContextInterceptor,
+    },
   ],
 })
 export class AppModule {}
@@ -0,0 +1,57 @@
+import { Permission } from '../permissions/permissions';
+
+// Actions that can be held for four-eyes approval. Which ones are held is
+// configured through APPROVAL_REQUIRED_ACTIONS.
+export const APPROVAL_ACTION_NAMES = [
+  'user:role',
+  'user:deactivate',
+  'user:activate',
+  'user:2fa-reset',
+  'role:create',
+  'role:update',
+  'role:assign',
+] as const;
+
+export type ApprovalAction = (typeof APPROVAL_ACTION_NAMES)[number];
+
+// The permission a second user needs to approve each action. An action with
+// `heldWith` is also held whenever that action is, as it could otherwise be
+// used to get around the approval.
+export const APPROVAL_ACTIONS: Record<
+  ApprovalAction,
+  { permission: Permission; description: string; heldWith?: ApprovalAction }
+> = {
+  'user:role': {
+    permission: 'users:roles',
+    description: 'Change the role of a user',
+  },
+  'user:deactivate': {
+    permission: 'users:deactivate',
+    description: 'Deactivate a user',
+  },
+  'user:activate': {
+    permission: 'users:deactivate',
+    description: 'Reactivate a user',
+    heldWith: 'user:deactivate',
+  },
+  'user:2fa-reset': {
+    // BOSS-level, like reviewing the recovery request itself
+    permission: 'companies:manage',
+    description: 'Approve a 2FA recovery request',
+  },
+  'role:create': {
+    permission: 'roles:manage',
+    description: 'Create a custom role',
+    heldWith: 'user:role',
+  },
+  'role:update': {
+    permission: 'roles:manage',
+    description: 'Change the permissions of a custom role',
+    heldWith: 'user:role',
+  },
+  'role:assign': {
+    permission: 'users:roles',
+    description: 'Assign a custom role to a user',
+    heldWith: 'user:role',
+  },
+};
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApprovalsService } from './approvals.service';
+import {
+  ApproveRequestDto,
+  RejectRequestDto,
+  ListApprovalsQueryDto,
+} from './dto/approval.dto';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { Client, ClientContext } from '../common/decorators/client.decorator';
+
+@Controller('approvals')
+@UseGuards(JwtAuthGuard)
+export class ApprovalsController {
+  constructor(private approvalsService: ApprovalsService) {}
+
+  // Requests made by the caller
+  @Get()
+  async listOwn(@Query() query: ListApprovalsQueryDto, @Request() req) {
+    return this.approvalsService.listOwn(req.user.userId, query.status);
+  }
+
+  // Requests waiting for the caller's approval
+  @Get('pending')
+  async listPending(@Request() req) {
+    return this.approvalsService.listPending(req.user);
+  }
+
+  // Requests the caller approved or rejected
+  @Get('reviewed')
+  async listReviewed(@Query() query: ListApprovalsQueryDto, @Request() req) {
+    return this.approvalsService.listReviewed(req.user.userId, query.status);
+  }
+
+  @Get(':id')
+  async getApproval(@Param('id') id: string, @Request() req) {
+    return this.approvalsService.getApproval(id, req.user);
+  }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  async approve(
+    @Param('id') id: string,
+    @Body() dto: ApproveRequestDto,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.approvalsService.approve(id, req.user, dto.payloadHash, client);
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  async reject(
+    @Param('id') id: string,
+    @Body() dto: RejectRequestDto,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.approvalsService.reject(id, req.user, dto.reason, client);
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancel(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.approvalsService.cancel(id, req.user.userId, client);
+  }
+}
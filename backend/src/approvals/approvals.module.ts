@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { ApprovalsService } from './approvals.service';
+import { ApprovalsController } from './approvals.controller';
+import { ApprovalExpiryProcessor } from './processors/approval-expiry.processor';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CompaniesModule } from '../companies/companies.module';
+import { QueueModule } from '../queue/queue.module';
+
+// Imported by the modules owning held actions, which register their
+// executors with ApprovalsService
+@Module({
+  imports: [
+    PrismaModule,
+    CompaniesModule,
+    QueueModule,
+    BullModule.registerQueue({ name: 'approvals' }),
+  ],
+  controllers: [ApprovalsController],
+  providers: [ApprovalsService, ApprovalExpiryProcessor],
+  exports: [ApprovalsService],
+})
+export class ApprovalsModule {}
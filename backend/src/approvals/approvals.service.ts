@@ -0,0 +1,609 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { ApprovalStatus } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { QueueService } from '../queue/queue.service';
+import {
+  APPROVAL_ACTIONS,
+  APPROVAL_ACTION_NAMES,
+  ApprovalAction,
+} from './approval-actions';
+import { ClientContext } from '../common/decorators/client.decorator';
+import { AuditService, AuditMetadata } from '../audit/audit.service';
+
+type Requester = { userId: string; companyId: string | null };
+
+type ApprovalPayload = Record<string, string>;
+
+type ApprovalRef = {
+  id: string;
+  companyId: string | null;
+  requestedBy: string;
+};
+
+// The requester, on whose behalf an approved action runs
+export type ApprovalActor = {
+  userId: string;
+  role: string;
+  companyId: string | null;
+};
+
+export type ApprovalExecutor = (
+  payload: ApprovalPayload,
+  actor: ApprovalActor,
+  client?: ClientContext,
+) => Promise<unknown>;
+
+export interface ExpireApprovalJob {
+  approvalId: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Whom to notify about a new request, per company
+const MAX_NOTIFIED_APPROVERS = 50;
+
+const APPROVAL_SELECT = {
+  id: true,
+  companyId: true,
+  action: true,
+  payload: true,
+  payloadHash: true,
+  status: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  reason: true,
+  error: true,
+  expiresAt: true,
+  executedAt: true,
+  createdAt: true,
+  requester: {
+    select: { id: true, email: true, username: true, role: true },
+  },
+};
+
+/**
+ * Four-eyes approval for sensitive actions. A held action is stored with its
+ * payload instead of running; a second user who could approve it (see
+ * APPROVAL_ACTIONS) must confirm the payload hash, and only then does the
+ * executor registered by the owning module run it, on behalf of the
+ * requester. Unanswered requests expire through the approvals queue.
+ */
+@Injectable()
+export class ApprovalsService {
+  private readonly logger = new Logger(ApprovalsService.name);
+  private readonly executors = new Map<ApprovalAction, ApprovalExecutor>();
+
+  private readonly requiredActions = new Set(
+    (process.env.APPROVAL_REQUIRED_ACTIONS || '')
+      .split(',')
+      .map((action) => action.trim())
+      .filter((action): action is ApprovalAction =>
+        (APPROVAL_ACTION_NAMES as readonly string[]).includes(action),
+      ),
+  );
+
+  private readonly ttlHours = parseInt(process.env.APPROVAL_TTL_HOURS || '24');
+
+  constructor(
+    @InjectQueue('approvals') private approvalsQueue: Queue,
+    private prisma: PrismaService,
+    private permissionsService: PermissionsService,
+    private queueService: QueueService,
+    private auditService: AuditService,
+  ) {}
+
+  isRequired(action: ApprovalAction): boolean {
+    const { heldWith } = APPROVAL_ACTIONS[action];
+
+    return (
+      this.requiredActions.has(action) ||
+      (!!heldWith && this.requiredActions.has(heldWith))
+    );
+  }
+
+  // Called by the module owning the action, once at startup
+  registerExecutor(action: ApprovalAction, executor: ApprovalExecutor) {
+    this.executors.set(action, executor);
+  }
+
+  // Holds the action; callers validate it first so doomed requests fail fast
+  async submit(
+    action: ApprovalAction,
+    payload: ApprovalPayload,
+    requester: Requester,
+    client?: ClientContext,
+  ) {
+    const payloadHash = this.hashPayload(action, payload);
+
+    const duplicate = await this.prisma.approvalRequest.findFirst({
+      where: { payloadHash, status: 'PENDING' },
+    });
+
+    if (duplicate) {
+      throw new ConflictException(
+        'The same action is already waiting for approval',
+      );
+    }
+
+    const approval = await this.prisma.approvalRequest.create({
+      data: {
+        companyId: requester.companyId,
+        action,
+        payload,
+        payloadHash,
+        requestedBy: requester.userId,
+        expiresAt: new Date(Date.now() + this.ttlHours * HOUR_MS),
+      },
+      select: APPROVAL_SELECT,
+    });
+
+    await this.approvalsQueue.add(
+      'expire-request',
+      { approvalId: approval.id } as ExpireApprovalJob,
+      {
+        delay: approval.expiresAt.getTime() - Date.now(),
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 60000 },
+      },
+    );
+
+    await this.notifyApprovers(approval.id, action, requester);
+
+    await this.logApprovalAudit(
+      { ...approval, requestedBy: requester.userId },
+      'APPROVAL_REQUESTED',
+      requester.userId,
+      { action, payload },
+      client,
+    );
+
+    return {
+      message: `${APPROVAL_ACTIONS[action].description} requires a second approval`,
+      approval,
+    };
+  }
+
+  async listOwn(userId: string, status?: string) {
+    return this.prisma.approvalRequest.findMany({
+      where: {
+        requestedBy: userId,
+        ...(status && { status: status as ApprovalStatus }),
+      },
+      select: APPROVAL_SELECT,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  // Requests the user may approve: another user's, for an action they could
+  // approve
+  async listPending(approver: Requester) {
+    const actions = await this.getApprovableActions(approver.userId);
+
+    if (actions.length === 0) {
+      return [];
+    }
+
+    return this.prisma.approvalRequest.findMany({
+      where: {
+        companyId: approver.companyId,
+        status: 'PENDING',
+        action: { in: actions },
+        requestedBy: { not: approver.userId },
+        expiresAt: { gt: new Date() },
+      },
+      select: APPROVAL_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async listReviewed(userId: string, status?: string) {
+    return this.prisma.approvalRequest.findMany({
+      where: {
+        reviewedBy: userId,
+        ...(status && { status: status as ApprovalStatus }),
+      },
+      select: APPROVAL_SELECT,
+      orderBy: { reviewedAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  async getApproval(approvalId: string, viewer: Requester) {
+    const approval = await this.prisma.approvalRequest.findUnique({
+      where: { id: approvalId },
+      select: APPROVAL_SELECT,
+    });
+
+    if (!approval) {
+      throw new NotFoundException('Approval request not found');
+    }
+
+    if (
+      approval.requester.id !== viewer.userId &&
+      !(await this.canApprove(approval, viewer.userId))
+    ) {
+      throw new ForbiddenException('You cannot view this approval request');
+    }
+
+    return approval;
+  }
+
+  async approve(
+    approvalId: string,
+    approver: Requester,
+    payloadHash: string,
+    client?: ClientContext,
+  ) {
+    const approval = await this.getReviewableApproval(approvalId, approver);
+
+    // Bound to what the approver saw, and to what was originally submitted
+    if (
+      payloadHash !== approval.payloadHash ||
+      this.hashPayload(
+        approval.action as ApprovalAction,
+        approval.payload as ApprovalPayload,
+      ) !== approval.payloadHash
+    ) {
+      throw new ConflictException(
+        'Approval does not match the requested payload',
+      );
+    }
+
+    const claimed = await this.prisma.approvalRequest.updateMany({
+      where: { id: approval.id, status: 'PENDING' },
+      data: {
+        status: 'APPROVED',
+        reviewedBy: approver.userId,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictException('Approval request was already reviewed');
+    }
+
+    const executor = this.executors.get(approval.action as ApprovalAction);
+    const requester = await this.prisma.user.findUnique({
+      where: { id: approval.requestedBy },
+      select: { id: true, role: true, companyId: true, isActive: true },
+    });
+
+    try {
+      if (!executor) {
+        throw new BadRequestException(
+          `No handler for action ${approval.action}`,
+        );
+      }
+
+      if (!requester?.isActive) {
+        throw new ForbiddenException('The requester is no longer active');
+      }
+
+      // Runs with the requester's rights, which are checked again here
+      await executor(
+        approval.payload as ApprovalPayload,
+        {
+          userId: requester.id,
+          role: requester.role,
+          companyId: requester.companyId,
+        },
+        client,
+      );
+    } catch (error) {
+      await this.prisma.approvalRequest.update({
+        where: { id: approval.id },
+        data: { status: 'FAILED', error: error.message },
+      });
+
+      await this.notifyRequester(
+        approval,
+        `Your approved request failed: ${error.message}`,
+      );
+
+      await this.logApprovalAudit(
+        approval,
+        'APPROVAL_FAILED',
+        approver.userId,
+        { action: approval.action, error: error.message },
+        client,
+      );
+
+      throw error;
+    }
+
+    const executed = await this.prisma.approvalRequest.update({
+      where: { id: approval.id },
+      data: { status: 'EXECUTED', executedAt: new Date() },
+      select: APPROVAL_SELECT,
+    });
+
+    await this.notifyRequester(approval, 'Your request was approved');
+
+    await this.logApprovalAudit(
+      approval,
+      'APPROVAL_EXECUTED',
+      approver.userId,
+      { action: approval.action, payload: approval.payload },
+      client,
+    );
+
+    return executed;
+  }
+
+  async reject(
+    approvalId: string,
+    approver: Requester,
+    reason?: string,
+    client?: ClientContext,
+  ) {
+    const approval = await this.getReviewableApproval(approvalId, approver);
+
+    const updated = await this.prisma.approvalRequest.updateMany({
+      where: { id: approval.id, status: 'PENDING' },
+      data: {
+        status: 'REJECTED',
+        reviewedBy: approver.userId,
+        reviewedAt: new Date(),
+        reason,
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new ConflictException('Approval request was already reviewed');
+    }
+
+    await this.notifyRequester(
+      approval,
+      reason
+        ? `Your request was rejected: ${reason}`
+        : 'Your request was rejected',
+    );
+
+    await this.logApprovalAudit(
+      approval,
+      'APPROVAL_REJECTED',
+      approver.userId,
+      { action: approval.action, reason },
+      client,
+    );
+
+    return { id: approval.id, status: 'REJECTED' };
+  }
+
+  async cancel(approvalId: string, userId: string, client?: ClientContext) {
+    const approval = await this.prisma.approvalRequest.findUnique({
+      where: { id: approvalId },
+    });
+
+    if (!approval || approval.requestedBy !== userId) {
+      throw new NotFoundException('Approval request not found');
+    }
+
+    const updated = await this.prisma.approvalRequest.updateMany({
+      where: { id: approval.id, status: 'PENDING' },
+      data: { status: 'CANCELLED' },
+    });
+
+    if (updated.count === 0) {
+      throw new ConflictException('Approval request is no longer pending');
+    }
+
+    await this.logApprovalAudit(
+      approval,
+      'APPROVAL_CANCELLED',
+      userId,
+      { action: approval.action },
+      client,
+    );
+
+    return { id: approval.id, status: 'CANCELLED' };
+  }
+
+  // Run by the approvals queue once nobody acted in time
+  async expireRequest(approvalId: string): Promise<boolean> {
+    const approval = await this.prisma.approvalRequest.findUnique({
+      where: { id: approvalId },
+    });
+
+    if (
+      !approval ||
+      approval.status !== 'PENDING' ||
+      approval.expiresAt > new Date()
+    ) {
+      return false;
+    }
+
+    const claimed = await this.prisma.approvalRequest.updateMany({
+      where: { id: approval.id, status: 'PENDING' },
+      data: { status: 'EXPIRED' },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    await this.notifyRequester(
+      approval,
+      'Your request expired without being reviewed',
+    );
+
+    await this.logApprovalAudit(approval, 'APPROVAL_EXPIRED', null, {
+      action: approval.action,
+    });
+
+    return true;
+  }
+
+  private async getReviewableApproval(approvalId: string, approver: Requester) {
+    const approval = await this.prisma.approvalRequest.findUnique({
+      where: { id: approvalId },
+    });
+
+    if (!approval || approval.status !== 'PENDING') {
+      throw new NotFoundException('Approval request not found');
+    }
+
+    if (approval.expiresAt <= new Date()) {
+      throw new ConflictException('Approval request has expired');
+    }
+
+    if (approval.requestedBy === approver.userId) {
+      throw new ForbiddenException('You cannot approve your own request');
+    }
+
+    if (!(await this.canApprove(approval, approver.userId))) {
+      throw new ForbiddenException(
+        'You are not allowed to review this request',
+      );
+    }
+
+    return approval;
+  }
+
+  // Company requests need the action's permission within the company;
+  // requests without a company go to platform admins
+  private async canApprove(
+    approval: { companyId: string | null; action: string },
+    userId: string,
+  ): Promise<boolean> {
+    if (!approval.companyId) {
+      return this.permissionsService.hasPermissions(userId, ['platform:admin']);
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { companyId: true, isServiceAccount: true },
+    });
+
+    // Approving is a human decision
+    if (
+      !user ||
+      user.isServiceAccount ||
+      user.companyId !== approval.companyId
+    ) {
+      return false;
+    }
+
+    const definition = APPROVAL_ACTIONS[approval.action as ApprovalAction];
+
+    return (
+      !!definition &&
+      this.permissionsService.hasPermissions(userId, [definition.permission])
+    );
+  }
+
+  private async getApprovableActions(userId: string) {
+    const permissions =
+      await this.permissionsService.getEffectivePermissions(userId);
+
+    return APPROVAL_ACTION_NAMES.filter((action) =>
+      permissions.has(APPROVAL_ACTIONS[action].permission),
+    );
+  }
+
+  private async notifyApprovers(
+    approvalId: string,
+    action: ApprovalAction,
+    requester: Requester,
+  ) {
+    const candidates = await this.prisma.user.findMany({
+      where: {
+        isActive: true,
+        isServiceAccount: false,
+        ...(requester.companyId
+          ? { companyId: requester.companyId }
+          : { role: 'ADMIN' }),
+      },
+      select: { id: true },
+      take: MAX_NOTIFIED_APPROVERS,
+    });
+
+    for (const candidate of candidates) {
+      if (
+        candidate.id === requester.userId ||
+        !(await this.canApprove(
+          { companyId: requester.companyId, action },
+          candidate.id,
+        ))
+      ) {
+        continue;
+      }
+
+      await this.queueService.sendNotification({
+        userId: candidate.id,
+        type: 'security',
+        message: `Approval requested: ${APPROVAL_ACTIONS[action].description}`,
+        data: { approvalId, action },
+      });
+    }
+  }
+
+  private async notifyRequester(approval: ApprovalRef, message: string) {
+    try {
+      await this.queueService.sendNotification({
+        userId: approval.requestedBy,
+        type: 'info',
+        message,
+        data: { approvalId: approval.id },
+      });
+    } catch (error) {
+      // The decision stands even if the notification cannot be queued
+      this.logger.warn(
+        `Could not notify about approval ${approval.id}: ${error.message}`,
+      );
+    }
+  }
+
+  // Stable for the same action and payload, whatever the key order
+  private hashPayload(action: ApprovalAction, payload: ApprovalPayload) {
+    const canonical = Object.keys(payload)
+      .sort()
+      .map((key) => [key, payload[key]]);
+
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify([action, canonical]))
+      .digest('hex');
+  }
+
+  // Company audit log when there is a company, the requester's own otherwise
+  private async logApprovalAudit(
+    approval: ApprovalRef,
+    action: string,
+    performedBy: string | null,
+    metadata: AuditMetadata,
+    client?: ClientContext,
+  ): Promise<void> {
+    if (approval.companyId) {
+      await this.auditService.logCompanyAudit(
+        approval.companyId,
+        action,
+        `approval:${approval.id}`,
+        performedBy,
+        metadata,
+        client,
+      );
+      return;
+    }
+
+    await this.auditService.logUserAudit(
+      approval.requestedBy,
+      action,
+      `approval:${approval.id}`,
+      { ...metadata, performedBy },
+      client,
+    );
+  }
+}
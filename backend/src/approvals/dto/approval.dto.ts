@@ -0,0 +1,29 @@
+import { IsString, IsOptional, IsIn, Length, MaxLength } from 'class-validator';
+
+export class ApproveRequestDto {
+  // The payloadHash the approver reviewed
+  @IsString()
+  @Length(64, 64)
+  payloadHash: string;
+}
+
+export class RejectRequestDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class ListApprovalsQueryDto {
+  @IsOptional()
+  @IsIn([
+    'PENDING',
+    'APPROVED',
+    'EXECUTED',
+    'FAILED',
+    'REJECTED',
+    'CANCELLED',
+    'EXPIRED',
+  ])
+  status?: string;
+}
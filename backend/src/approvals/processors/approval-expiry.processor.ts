@@ -0,0 +1,28 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { ApprovalsService, ExpireApprovalJob } from '../approvals.service';
+
+// Expires approval requests nobody acted on in time
+@Processor('approvals')
+export class ApprovalExpiryProcessor {
+  private readonly logger = new Logger(ApprovalExpiryProcessor.name);
+
+  constructor(private approvalsService: ApprovalsService) {}
+
+  @Process('expire-request')
+  async handleExpireRequest(job: Job<ExpireApprovalJob>) {
+    const expired = await this.approvalsService.expireRequest(
+      job.data.approvalId,
+    );
+
+    // Reviewed or cancelled in the meantime
+    if (!expired) {
+      this.logger.log(
+        `Approval ${job.data.approvalId} no longer pending, skipped`,
+      );
+    }
+
+    return { expired };
+  }
+}
@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+// Global because nearly every module writes audit entries
+@Global()
+@Module({
+  imports: [PrismaModule],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
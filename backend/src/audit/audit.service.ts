@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ClientContext } from '../common/decorators/client.decorator';
+
+// Extra details of an audit entry, stored as JSON
+export type AuditMetadata = Record<string, unknown>;
+
+/**
+ * Writes audit entries: to a user's trail (AuditLog, listed by
+ * GET /users/me/audit-logs) or to a company's trail (CompanyAuditLog).
+ */
+@Injectable()
+export class AuditService {
+  constructor(private prisma: PrismaService) {}
+
+  async logUserAudit(
+    userId: string | null,
+    action: string,
+    resource: string,
+    metadata?: AuditMetadata | null,
+    client?: ClientContext,
+  ): Promise<void> {
+    await this.prisma.auditLog.create({
+      data: {
+        userId,
+        action,
+        resource,
+        metadata: metadata ? JSON.stringify(metadata) : null,
+        ipAddress: client?.ip,
+        userAgent: client?.userAgent,
+      },
+    });
+  }
+
+  async logCompanyAudit(
+    companyId: string,
+    action: string,
+    resource: string,
+    performedBy: string | null,
+    metadata?: AuditMetadata | null,
+    client?: ClientContext,
+  ): Promise<void> {
+    await this.prisma.companyAuditLog.create({
+      data: {
+        companyId,
+        action,
+        resource,
+        performedBy,
+        metadata: metadata ? JSON.stringify(metadata) : null,
+        ipAddress: client?.ip,
+        userAgent: client?.userAgent,
+      },
+    });
+  }
+}
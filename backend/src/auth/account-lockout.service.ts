@@ -0,0 +1,180 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { EmailService } from '../email/email.service';
+import { MetricsService } from '../common/monitoring/metrics.service';
+import { JwtKeyringService } from './keys/jwt-keyring.service';
+import { ClientContext } from '../common/decorators/client.decorator';
+import { AuditService } from '../audit/audit.service';
+
+export type UnlockMethod = 'email_link' | 'password_reset';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Locks accounts after repeated password failures. Each lockout within
+ * LOGIN_LOCKOUT_RESET_HOURS of the previous one doubles the duration, up to
+ * LOGIN_LOCKOUT_MAX_MINUTES. The owner is emailed a signed unlock link; only
+ * the link from the latest lockout works, and only once.
+ */
+@Injectable()
+export class AccountLockoutService {
+  private readonly logger = new Logger(AccountLockoutService.name);
+  private readonly maxAttempts = parseInt(
+    process.env.LOGIN_MAX_ATTEMPTS || '5',
+  );
+  private readonly baseMinutes = parseInt(
+    process.env.LOGIN_LOCKOUT_MINUTES || '15',
+  );
+  private readonly maxMinutes = parseInt(
+    process.env.LOGIN_LOCKOUT_MAX_MINUTES || '1440',
+  );
+  private readonly resetHours = parseInt(
+    process.env.LOGIN_LOCKOUT_RESET_HOURS || '24',
+  );
+
+  constructor(
+    private prisma: PrismaService,
+    private keyring: JwtKeyringService,
+    private emailService: EmailService,
+    private metricsService: MetricsService,
+    private auditService: AuditService,
+  ) {}
+
+  assertNotLocked(user: { lockUntil: Date | null }) {
+    if (user.lockUntil && new Date() < user.lockUntil) {
+      this.metricsService.recordAuthAttempt(false, 'account_locked');
+      throw new UnauthorizedException(
+        'Account is locked due to too many failed attempts. Try again later.',
+      );
+    }
+  }
+
+  // Returns true when this failure locked the account
+  async recordFailure(
+    user: { id: string; email: string },
+    client?: ClientContext,
+  ): Promise<boolean> {
+    this.metricsService.recordAuthAttempt(false, 'invalid_password');
+
+    // Atomic, so parallel attempts cannot slip under the threshold
+    const updated = await this.prisma.user.update({
+      where: { id: user.id },
+      data: { loginAttempts: { increment: 1 } },
+      select: { loginAttempts: true, lockoutCount: true, lastLockedAt: true },
+    });
+
+    if (updated.loginAttempts < this.maxAttempts) {
+      return false;
+    }
+
+    const now = new Date();
+    const repeat =
+      updated.lastLockedAt &&
+      now.getTime() - updated.lastLockedAt.getTime() <
+        this.resetHours * HOUR_MS;
+    const level = repeat ? updated.lockoutCount + 1 : 1;
+    const minutes = Math.min(
+      this.baseMinutes * 2 ** (level - 1),
+      this.maxMinutes,
+    );
+    const lockUntil = new Date(now.getTime() + minutes * MINUTE_MS);
+    const unlockJti = crypto.randomUUID();
+
+    // Only one of several concurrent failures gets to lock
+    const locked = await this.prisma.user.updateMany({
+      where: { id: user.id, loginAttempts: { gte: this.maxAttempts } },
+      data: {
+        loginAttempts: 0,
+        lockUntil,
+        lockoutCount: level,
+        lastLockedAt: now,
+        unlockTokenJti: unlockJti,
+      },
+    });
+
+    if (locked.count === 0) {
+      return false;
+    }
+
+    this.metricsService.recordAccountLockout(level);
+
+    await this.auditService.logUserAudit(
+      user.id,
+      'ACCOUNT_LOCKED',
+      'user',
+      { level, lockUntil, attempts: updated.loginAttempts },
+      client,
+    );
+
+    const unlockToken = this.keyring.sign(
+      { sub: user.id, type: 'account_unlock', jti: unlockJti },
+      minutes * 60,
+    );
+
+    try {
+      await this.emailService.sendAccountLockoutNotification(
+        user.email,
+        lockUntil,
+        unlockToken,
+      );
+    } catch (error) {
+      // The lock stays in place and expires on its own
+      this.logger.error(
+        `Failed to send lockout notification: ${error.message}`,
+      );
+    }
+
+    return true;
+  }
+
+  async unlock(token: string, client?: ClientContext) {
+    let decoded: { sub?: string; type?: string; jti?: string };
+
+    try {
+      decoded = this.keyring.verify(token);
+    } catch {
+      throw new BadRequestException('Invalid or expired unlock link');
+    }
+
+    if (decoded.type !== 'account_unlock' || !decoded.sub || !decoded.jti) {
+      throw new BadRequestException('Invalid or expired unlock link');
+    }
+
+    // Clearing the jti makes the link single-use
+    const unlocked = await this.prisma.user.updateMany({
+      where: { id: decoded.sub, unlockTokenJti: decoded.jti },
+      data: { lockUntil: null, loginAttempts: 0, unlockTokenJti: null },
+    });
+
+    if (unlocked.count === 0) {
+      throw new BadRequestException('Invalid or expired unlock link');
+    }
+
+    await this.recordUnlock(decoded.sub, 'email_link', client);
+
+    return { message: 'Your account has been unlocked' };
+  }
+
+  // Escalation history (lockoutCount) survives an unlock on purpose
+  async recordUnlock(
+    userId: string,
+    method: UnlockMethod,
+    client?: ClientContext,
+  ) {
+    this.metricsService.recordAccountUnlock(method);
+    await this.auditService.logUserAudit(
+      userId,
+      'ACCOUNT_UNLOCKED',
+      'user',
+      { method },
+      client,
+    );
+  }
+}
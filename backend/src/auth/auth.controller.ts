@@ -7,16 +7,35 @@ import {
   HttpCode,
   HttpStatus,
   Get,
+  Param,
+  Query,
 } from '@nestjs/common';
 import { ThrottlerGuard, Throttle } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
-import { RegisterDto, LoginDto, ChangePasswordDto } from './dto/auth.dto';
-import { JwtAuthGuard } from './guards/auth.guard';
+import { AccountLockoutService } from './account-lockout.service';
+import {
+  RegisterDto,
+  LoginDto,
+  ChangePasswordDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+  ResendVerificationDto,
+  UnlockAccountDto,
+} from './dto/auth.dto';
+import { JwtAuthGuard, AllowUnverified, Scopes } from './guards/auth.guard';
+import { Roles, RolesGuard } from './guards/roles.guard';
+import { TWO_FA_ENROLLMENT_SCOPE, PASSWORD_CHANGE_SCOPE } from './scopes';
+import { PasswordPolicyService } from './password-policy.service';
 
 @Controller('auth')
 @UseGuards(ThrottlerGuard)
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private accountLockoutService: AccountLockoutService,
+    private passwordPolicyService: PasswordPolicyService,
+  ) {}
 
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
@@ -47,6 +66,8 @@ export class AuthController {
 
   @Post('logout')
   @UseGuards(JwtAuthGuard)
+  @AllowUnverified()
+  @Scopes(TWO_FA_ENROLLMENT_SCOPE, PASSWORD_CHANGE_SCOPE)
   @HttpCode(HttpStatus.OK)
   async logout(@Body('refreshToken') refreshToken: string, @Request() req) {
     await this.authService.logout(refreshToken, req.user?.userId);
@@ -55,6 +76,8 @@ export class AuthController {
 
   @Post('change-password')
   @UseGuards(JwtAuthGuard)
+  @AllowUnverified()
+  @Scopes(PASSWORD_CHANGE_SCOPE)
   @HttpCode(HttpStatus.OK)
   async changePassword(
     @Request() req,
@@ -68,12 +91,96 @@ export class AuthController {
     return { message: 'Password changed successfully' };
   }
 
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 3, ttl: 60 } })
+  async forgotPassword(@Body() dto: ForgotPasswordDto, @Request() req) {
+    await this.authService.requestPasswordReset(
+      dto.email,
+      this.extractClient(req),
+    );
+    return {
+      message: 'If that email is registered, a reset link has been sent',
+    };
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60 } })
+  async resetPassword(@Body() dto: ResetPasswordDto, @Request() req) {
+    await this.authService.resetPassword(dto, this.extractClient(req));
+    return { message: 'Password reset successfully' };
+  }
+
+  // Link from the lockout email
+  @Post('unlock-account')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60 } })
+  async unlockAccount(@Body() dto: UnlockAccountDto, @Request() req) {
+    return this.accountLockoutService.unlock(
+      dto.token,
+      this.extractClient(req),
+    );
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60 } })
+  async verifyEmail(@Body() dto: VerifyEmailDto, @Request() req) {
+    await this.authService.verifyEmail(dto.token, this.extractClient(req));
+    return { message: 'Email verified successfully' };
+  }
+
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 3, ttl: 60 } })
+  async resendVerification(@Body() dto: ResendVerificationDto, @Request() req) {
+    await this.authService.resendEmailVerification(
+      dto.email,
+      this.extractClient(req),
+    );
+    return {
+      message:
+        'If that email is registered and unverified, a new link has been sent',
+    };
+  }
+
+  // Rules for clients to display next to password fields
+  @Get('password-policy')
+  getPasswordPolicy() {
+    return this.passwordPolicyService.policy;
+  }
+
   @Get('me')
   @UseGuards(JwtAuthGuard)
+  @AllowUnverified()
+  @Scopes(TWO_FA_ENROLLMENT_SCOPE, PASSWORD_CHANGE_SCOPE)
   async getCurrentUser(@Request() req) {
     return req.user;
   }
 
+  // Risk assessments of the caller's password logins
+  @Get('login-events')
+  @UseGuards(JwtAuthGuard)
+  async getLoginEvents(
+    @Request() req,
+    @Query('skip') skip = 0,
+    @Query('take') take = 20,
+  ) {
+    return this.authService.getLoginRiskEvents(req.user.userId, skip, take);
+  }
+
+  @Get('login-events/:userId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  async getUserLoginEvents(
+    @Param('userId') userId: string,
+    @Query('skip') skip = 0,
+    @Query('take') take = 20,
+  ) {
+    return this.authService.getLoginRiskEvents(userId, skip, take);
+  }
+
   private extractClient(req: any) {
     return {
       ip:
@@ -5,23 +5,48 @@ import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
+import { JwtKeyringService } from './keys/jwt-keyring.service';
+import { TrustedDevicesService } from './trusted-devices.service';
+import { GeoIpService } from './risk/geoip.service';
+import { LoginRiskService } from './risk/login-risk.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { JwksController } from './keys/jwks.controller';
+import { KeysController } from './keys/keys.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { UsersModule } from '../users/users.module';
 import { QueueModule } from '../queue/queue.module';
+import { EmailModule } from '../email/email.module';
+import { MetricsModule } from '../common/monitoring/metrics.module';
 
 @Module({
   imports: [
     PrismaModule,
     UsersModule,
     QueueModule,
+    EmailModule,
+    MetricsModule,
     PassportModule,
-    JwtModule.register({
-      secret: process.env.JWT_SECRET || 'your-secret-key',
-      signOptions: { expiresIn: '3600s' },
-    }),
+    // Keys come from JwtKeyringService on every sign/verify call
+    JwtModule.register({}),
+  ],
+  controllers: [AuthController, JwksController, KeysController],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    LocalStrategy,
+    JwtKeyringService,
+    TrustedDevicesService,
+    GeoIpService,
+    LoginRiskService,
+    AccountLockoutService,
+    PasswordPolicyService,
+  ],
+  exports: [
+    AuthService,
+    JwtKeyringService,
+    TrustedDevicesService,
+    PasswordPolicyService,
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, LocalStrategy],
-  exports: [AuthService],
 })
 export class AuthModule {}
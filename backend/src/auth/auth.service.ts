@@ -5,28 +5,55 @@ import {
   UnauthorizedException,
   ForbiddenException,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
 import * as crypto from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
 import { UsersService } from '../users/users.service';
-import { RegisterDto, LoginDto, ChangePasswordDto } from './dto/auth.dto';
+import {
+  RegisterDto,
+  LoginDto,
+  ChangePasswordDto,
+  ResetPasswordDto,
+} from './dto/auth.dto';
 import {
   AuthResponse,
   TwoFAAuthResponse,
   JwtPayload,
+  TokenIntrospection,
+  ServiceTokenResponse,
+  SecondFactor,
+  LoginChallenge,
 } from './interfaces/auth.interface';
 import { QueueService } from '../queue/queue.service';
+import { getEmailVerificationPolicy } from './guards/auth.guard';
+import { JwtKeyringService } from './keys/jwt-keyring.service';
+import { TWO_FA_ENROLLMENT_SCOPE, PASSWORD_CHANGE_SCOPE } from './scopes';
+import { fingerprintClient } from './fingerprint';
+import { TrustedDevicesService } from './trusted-devices.service';
+import { LoginRiskService } from './risk/login-risk.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { getTwoFACompliance } from '../2fa/2fa-policy';
+import { PermissionsService } from '../permissions/permissions.service';
 
 type ClientContext = { ip?: string; userAgent?: string };
 
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Matches refresh token expiry
+
 @Injectable()
 export class AuthService {
   constructor(
     private prisma: PrismaService,
-    private jwtService: JwtService,
+    private keyring: JwtKeyringService,
     private usersService: UsersService,
     private queueService: QueueService,
+    private trustedDevicesService: TrustedDevicesService,
+    private loginRiskService: LoginRiskService,
+    private accountLockoutService: AccountLockoutService,
+    private passwordPolicyService: PasswordPolicyService,
+    private permissionsService: PermissionsService,
   ) {}
 
   // Register new user
@@ -36,6 +63,8 @@ export class AuthService {
   ): Promise<AuthResponse> {
     const { email, username, password, firstName, lastName } = registerDto;
 
+    await this.passwordPolicyService.assertValid(password);
+
     // Check if user already exists
     const existingUser = await this.prisma.user.findFirst({
       where: {
@@ -67,6 +96,9 @@ export class AuthService {
     // Send welcome email asynchronously
     await this.queueService.sendWelcomeEmail(user.email, user.id);
 
+    // Send verification email asynchronously
+    await this.issueEmailVerification(user.id, user.email);
+
     // Log user action in queue
     await this.queueService.logUserAction(
       user.id,
@@ -90,32 +122,20 @@ export class AuthService {
       where: { email },
     });
 
-    if (!user) {
+    // Service accounts cannot log in, and must not be lockable from here
+    if (!user || user.isServiceAccount) {
       throw new UnauthorizedException('Invalid email or password');
     }
 
     // Check if account is locked
-    if (user.lockUntil && new Date() < user.lockUntil) {
-      throw new UnauthorizedException(
-        'Account is locked due to too many failed attempts. Try again later.',
-      );
-    }
+    this.accountLockoutService.assertNotLocked(user);
 
     // Verify password
     const isPasswordValid = await bcrypt.compare(password, user.password);
 
     if (!isPasswordValid) {
-      // Increment login attempts
-      await this.prisma.user.update({
-        where: { id: user.id },
-        data: {
-          loginAttempts: user.loginAttempts + 1,
-          lockUntil:
-            user.loginAttempts + 1 >= 5
-              ? new Date(Date.now() + 15 * 60 * 1000) // Lock for 15 minutes
-              : null,
-        },
-      });
+      // Counts the failure and locks once the threshold is reached
+      await this.accountLockoutService.recordFailure(user, client);
 
       throw new UnauthorizedException('Invalid email or password');
     }
@@ -130,31 +150,90 @@ export class AuthService {
       },
     });
 
+    if (!user.isEmailVerified && getEmailVerificationPolicy() === 'block') {
+      throw new ForbiddenException('Email address has not been verified');
+    }
+
     // Log the login attempt
     await this.logAudit(user.id, 'LOGIN', 'user', null, client);
 
-    // If 2FA is enabled, return temporary token
-    if (user.isTwoFAEnabled) {
-      const tempToken = this.jwtService.sign(
+    // `user` still carries the failed attempts from before this login
+    const risk = await this.loginRiskService.assess(user, client);
+    const stepUp = risk.decision === 'STEP_UP';
+
+    if (risk.decision !== 'ALLOW') {
+      await this.logAudit(
+        user.id,
+        'SUSPICIOUS_LOGIN',
+        'user',
+        { riskEventId: risk.eventId, score: risk.score, factors: risk.factors },
+        client,
+      );
+    }
+
+    // Without 2FA, step-up verification goes through an emailed code
+    if (stepUp && !user.isTwoFAEnabled && !user.isEmailVerified) {
+      throw new ForbiddenException(
+        'Unusual sign-in blocked. Reset your password to continue',
+      );
+    }
+
+    // Remembered browsers skip the second factor, unless the login is risky
+    const trustedDevice =
+      user.isTwoFAEnabled &&
+      !stepUp &&
+      loginDto.deviceToken &&
+      (await this.trustedDevicesService.consumeDeviceToken(
+        user.id,
+        loginDto.deviceToken,
+        client,
+      ));
+
+    // If 2FA is enabled or the login needs step-up, return temporary token
+    if ((user.isTwoFAEnabled && !trustedDevice) || stepUp) {
+      const tempToken = this.keyring.sign(
         {
           sub: user.id,
           email: user.email,
           role: user.role,
           temp: true,
           type: '2fa',
-          fp: this.fingerprint(client),
+          fp: fingerprintClient(client),
+          rid: risk.eventId,
+          ...(stepUp && { stepUp: true }),
         },
-        { expiresIn: '5m' },
+        '5m',
       );
 
+      const factors: SecondFactor[] = [];
+
+      if (user.isTwoFAEnabled) {
+        const passkeys = await this.prisma.webAuthnCredential.count({
+          where: { userId: user.id },
+        });
+
+        factors.push('totp', 'backup_code');
+
+        if (passkeys > 0) {
+          factors.push('webauthn');
+        }
+      }
+
+      // Only a mailbox the user has proven to own can receive codes
+      if (user.isEmailVerified) {
+        factors.push('email_otp');
+      }
+
       return {
         token: tempToken,
         requiresTwoFA: true,
+        factors,
+        ...(stepUp && { stepUp: true }),
       };
     }
 
     // Otherwise, return full auth response
-    return this.generateAuthResponse(user, client);
+    return this.generateAuthResponse(user, client, risk.eventId);
   }
 
   // Validate user credentials
@@ -163,7 +242,7 @@ export class AuthService {
       where: { email },
     });
 
-    if (!user) {
+    if (!user || user.isServiceAccount) {
       return null;
     }
 
@@ -201,45 +280,295 @@ export class AuthService {
       throw new UnauthorizedException('Old password is incorrect');
     }
 
+    await this.passwordPolicyService.assertValid(dto.newPassword, user);
+
     // Hash new password
     const hashedNewPassword = await bcrypt.hash(dto.newPassword, 10);
 
     // Update password
     await this.prisma.user.update({
       where: { id: userId },
-      data: { password: hashedNewPassword },
+      data: { password: hashedNewPassword, passwordChangedAt: new Date() },
     });
 
+    await this.passwordPolicyService.recordChange(userId, user.password);
+
+    await this.trustedDevicesService.revokeAllDevices(
+      userId,
+      'password_changed',
+      client,
+    );
+
     // Log the password change
     await this.logAudit(userId, 'PASSWORD_CHANGE', 'user', null, client);
   }
 
+  // Request password reset - never reveals whether the email is registered
+  async requestPasswordReset(
+    email: string,
+    client?: ClientContext,
+  ): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (!user || !user.isActive || user.isServiceAccount) {
+      return;
+    }
+
+    // Only the most recent reset link stays valid
+    await this.prisma.passwordResetToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    });
+
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await this.prisma.passwordResetToken.create({
+      data: {
+        token: this.hashToken(token),
+        userId: user.id,
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+      },
+    });
+
+    await this.queueService.sendPasswordResetEmail(user.email, token);
+
+    await this.logAudit(
+      user.id,
+      'PASSWORD_RESET_REQUESTED',
+      'user',
+      null,
+      client,
+    );
+  }
+
+  // Complete password reset with a single-use token
+  async resetPassword(
+    dto: ResetPasswordDto,
+    client?: ClientContext,
+  ): Promise<void> {
+    const storedToken = await this.prisma.passwordResetToken.findUnique({
+      where: { token: this.hashToken(dto.token) },
+      include: { user: true },
+    });
+
+    if (
+      !storedToken ||
+      storedToken.usedAt ||
+      storedToken.expiresAt < new Date() ||
+      !storedToken.user.isActive
+    ) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    // Before consuming the token, so a rejected password can be retried
+    await this.passwordPolicyService.assertValid(
+      dto.newPassword,
+      storedToken.user,
+    );
+
+    // Consume the token before changing anything so it cannot be replayed
+    const consumed = await this.prisma.passwordResetToken.updateMany({
+      where: { id: storedToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    const userId = storedToken.userId;
+    const hashedNewPassword = await bcrypt.hash(dto.newPassword, 10);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        password: hashedNewPassword,
+        passwordChangedAt: new Date(),
+        loginAttempts: 0,
+        lockUntil: null,
+        unlockTokenJti: null,
+      },
+    });
+
+    await this.passwordPolicyService.recordChange(
+      userId,
+      storedToken.user.password,
+    );
+
+    if (storedToken.user.lockUntil && storedToken.user.lockUntil > new Date()) {
+      await this.accountLockoutService.recordUnlock(
+        userId,
+        'password_reset',
+        client,
+      );
+    }
+
+    // Sign out every device that may hold the old credentials
+    await this.revokeAllUserTokens(userId);
+    await this.trustedDevicesService.revokeAllDevices(
+      userId,
+      'password_reset',
+      client,
+    );
+
+    await this.logAudit(userId, 'PASSWORD_RESET', 'user', null, client);
+
+    await this.queueService.logUserAction(
+      userId,
+      'PASSWORD_RESET',
+      'user',
+      { email: storedToken.user.email },
+      { ip: client?.ip, userAgent: client?.userAgent },
+    );
+
+    await this.queueService.notifySecurityEvent(
+      userId,
+      'Your password was reset',
+      { ip: client?.ip, userAgent: client?.userAgent },
+    );
+  }
+
+  // Confirm email ownership with a single-use token
+  async verifyEmail(token: string, client?: ClientContext): Promise<void> {
+    const storedToken = await this.prisma.emailVerificationToken.findUnique({
+      where: { token: this.hashToken(token) },
+    });
+
+    if (
+      !storedToken ||
+      storedToken.usedAt ||
+      storedToken.expiresAt < new Date()
+    ) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    const consumed = await this.prisma.emailVerificationToken.updateMany({
+      where: { id: storedToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    await this.prisma.user.update({
+      where: { id: storedToken.userId },
+      data: { isEmailVerified: true },
+    });
+
+    // Any other outstanding links are now pointless
+    await this.prisma.emailVerificationToken.deleteMany({
+      where: { userId: storedToken.userId, usedAt: null },
+    });
+
+    await this.logAudit(
+      storedToken.userId,
+      'EMAIL_VERIFIED',
+      'user',
+      null,
+      client,
+    );
+  }
+
+  // Resend verification email - never reveals whether the email is registered
+  async resendEmailVerification(
+    email: string,
+    client?: ClientContext,
+  ): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (!user || !user.isActive || user.isEmailVerified) {
+      return;
+    }
+
+    const cooldownSeconds = parseInt(
+      process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN || '60',
+    );
+
+    const recent = await this.prisma.emailVerificationToken.findFirst({
+      where: {
+        userId: user.id,
+        createdAt: { gt: new Date(Date.now() - cooldownSeconds * 1000) },
+      },
+    });
+
+    if (recent) {
+      return;
+    }
+
+    await this.issueEmailVerification(user.id, user.email);
+
+    await this.logAudit(
+      user.id,
+      'EMAIL_VERIFICATION_RESENT',
+      'user',
+      null,
+      client,
+    );
+  }
+
   // Generate JWT tokens
+  // riskEventId marks the assessed password login as completed
   async generateAuthResponse(
     user: any,
     client?: ClientContext,
+    riskEventId?: string,
   ): Promise<AuthResponse> {
+    if (riskEventId) {
+      await this.loginRiskService.complete(riskEventId);
+    }
+
+    const session = await this.prisma.session.create({
+      data: {
+        userId: user.id,
+        userAgent: client?.userAgent,
+        ipAddress: client?.ip,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      },
+    });
+
     const payload: JwtPayload = {
       sub: user.id,
       email: user.email,
       role: user.role,
+      sid: session.id,
     };
 
-    const accessToken = this.jwtService.sign(payload, {
-      expiresIn: parseInt(process.env.JWT_EXPIRATION || '3600'),
-    });
+    const compliance = await this.getTwoFACompliance(user);
+    const restricted = compliance.status === 'overdue';
+    const passwordExpired = this.passwordPolicyService.isExpired(user);
+    const restrictions = [
+      ...(restricted ? [TWO_FA_ENROLLMENT_SCOPE] : []),
+      ...(passwordExpired ? [PASSWORD_CHANGE_SCOPE] : []),
+    ];
+
+    // Elevated access tokens name their grant; JwtStrategy rejects them once
+    // it has ended
+    const elevation = await this.permissionsService.getElevation(user.id);
+
+    const accessToken = this.keyring.sign(
+      {
+        ...payload,
+        type: 'access',
+        ...(restrictions.length > 0 && { scope: restrictions.join(' ') }),
+        ...(elevation && { eg: elevation.grantId }),
+      },
+      parseInt(process.env.JWT_EXPIRATION || '3600'),
+    );
 
     const refreshJti = crypto.randomUUID();
     const refreshPayload = { ...payload, jti: refreshJti, type: 'refresh' };
-    const refreshToken = this.jwtService.sign(refreshPayload, {
-      expiresIn: '7d',
-    });
+    const refreshToken = this.keyring.sign(refreshPayload, '7d');
 
     await this.prisma.refreshToken.create({
       data: {
         token: this.hashToken(refreshToken),
         userId: user.id,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+        sessionId: session.id,
+        expiresAt: session.expiresAt,
       },
     });
 
@@ -254,53 +583,63 @@ export class AuthService {
         username: user.username,
         role: user.role,
         isTwoFAEnabled: user.isTwoFAEnabled,
+        isEmailVerified: user.isEmailVerified,
       },
+      ...(compliance.status !== 'compliant' && {
+        twoFAEnrollment: { enrollBy: compliance.enrollBy, restricted },
+      }),
+      ...(passwordExpired && { passwordExpired: true }),
     };
   }
 
-  // Refresh access token
-  async refreshAccessToken(
-    refreshToken: string,
+  // Short-lived access token for a service account (client_credentials).
+  // No session or refresh token: clients simply request a new one.
+  async issueServiceToken(
+    user: { id: string; email: string; role: string },
+    serviceAccountId: string,
+    scopes: string[],
     client?: ClientContext,
-  ): Promise<AuthResponse> {
-    try {
-      const decoded = this.jwtService.verify(refreshToken) as JwtPayload & {
-        jti?: string;
-        type?: string;
-      };
-
-      if (decoded.type !== 'refresh') {
-        throw new UnauthorizedException('Invalid refresh token type');
-      }
-
-      const hashed = this.hashToken(refreshToken);
+  ): Promise<ServiceTokenResponse> {
+    const expiresIn = parseInt(
+      process.env.SERVICE_ACCOUNT_TOKEN_EXPIRATION || '900',
+    );
 
-      // Check if refresh token exists and is not revoked
-      const storedToken = await this.prisma.refreshToken.findUnique({
-        where: { token: hashed },
-      });
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      principal: 'service',
+      type: 'access',
+      sa: serviceAccountId,
+      scope: scopes.join(' '),
+    };
 
-      if (!storedToken) {
-        throw new UnauthorizedException('Invalid or revoked refresh token');
-      }
+    const accessToken = this.keyring.sign(payload, expiresIn);
 
-      if (storedToken.revokedAt) {
-        // Reuse detected: revoke all tokens for this user
-        await this.revokeAllUserTokens(decoded.sub);
-        throw new UnauthorizedException('Refresh token reuse detected');
-      }
+    await this.logAudit(
+      user.id,
+      'TOKEN_ISSUED',
+      'auth',
+      { serviceAccountId, scope: payload.scope },
+      client,
+    );
 
-      if (storedToken.userId !== decoded.sub) {
-        throw new UnauthorizedException('Refresh token user mismatch');
-      }
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: expiresIn,
+      scope: payload.scope,
+    };
+  }
 
-      if (storedToken.expiresAt < new Date()) {
-        await this.prisma.refreshToken.update({
-          where: { token: hashed },
-          data: { revokedAt: new Date() },
-        });
-        throw new UnauthorizedException('Expired refresh token');
-      }
+  // Refresh access token
+  async refreshAccessToken(
+    refreshToken: string,
+    client?: ClientContext,
+  ): Promise<AuthResponse> {
+    try {
+      const { decoded, storedToken } =
+        await this.validateRefreshToken(refreshToken);
 
       const user = await this.prisma.user.findUnique({
         where: { id: decoded.sub },
@@ -312,10 +651,17 @@ export class AuthService {
 
       // Rotate: revoke old token
       await this.prisma.refreshToken.update({
-        where: { token: hashed },
+        where: { id: storedToken.id },
         data: { revokedAt: new Date() },
       });
 
+      // The rotated tokens get a fresh session that replaces the old one
+      if (storedToken.sessionId) {
+        await this.prisma.session.deleteMany({
+          where: { id: storedToken.sessionId, userId: user.id },
+        });
+      }
+
       await this.logAudit(user.id, 'REFRESH_ROTATED', 'auth', null, client);
 
       return this.generateAuthResponse(user, client);
@@ -326,7 +672,7 @@ export class AuthService {
 
   // Logout - revoke refresh token
   async logout(refreshToken: string, userId?: string): Promise<void> {
-    const decoded = this.jwtService.verify(refreshToken) as JwtPayload;
+    const decoded = this.keyring.verify(refreshToken) as JwtPayload;
 
     if (userId && decoded.sub !== userId) {
       throw new ForbiddenException('Token does not belong to the caller');
@@ -336,6 +682,269 @@ export class AuthService {
       where: { token: this.hashToken(refreshToken), userId: decoded.sub },
       data: { revokedAt: new Date() },
     });
+
+    if (decoded.sid) {
+      await this.prisma.session.deleteMany({
+        where: { id: decoded.sid, userId: decoded.sub },
+      });
+    }
+  }
+
+  // RFC 7662 introspection for access and refresh tokens
+  async introspectToken(token: string): Promise<TokenIntrospection> {
+    let decoded: JwtPayload & { jti?: string; type?: string; temp?: boolean };
+
+    try {
+      decoded = this.keyring.verify(token);
+    } catch {
+      return { active: false };
+    }
+
+    // Pending 2FA, unlock and device tokens are not usable credentials
+    if (
+      decoded.temp ||
+      (decoded.type !== 'access' && decoded.type !== 'refresh')
+    ) {
+      return { active: false };
+    }
+
+    const isRefresh = decoded.type === 'refresh';
+    let clientId: string | undefined;
+
+    if (isRefresh) {
+      try {
+        await this.validateRefreshToken(token);
+      } catch {
+        return { active: false };
+      }
+    } else if (decoded.principal === 'service') {
+      const serviceAccount = await this.usersService.findActiveServiceAccount(
+        decoded.sa,
+        decoded.sub,
+      );
+
+      if (!serviceAccount) {
+        return { active: false };
+      }
+
+      clientId = serviceAccount.clientId;
+    } else {
+      const session =
+        decoded.sid &&
+        (await this.usersService.findActiveSession(decoded.sid, decoded.sub));
+
+      if (!session) {
+        return { active: false };
+      }
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: decoded.sub },
+    });
+
+    if (!user || !user.isActive) {
+      return { active: false };
+    }
+
+    return {
+      active: true,
+      token_type: isRefresh ? 'refresh_token' : 'access_token',
+      sub: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      scope: decoded.scope,
+      client_id: clientId,
+      sid: decoded.sid,
+      jti: decoded.jti,
+      iat: decoded.iat,
+      exp: decoded.exp,
+    };
+  }
+
+  // RFC 7009 revocation. Unknown, invalid or already revoked tokens are not
+  // an error, so callers cannot probe which tokens exist.
+  async revokeToken(
+    token: string,
+    clientId: string,
+    client?: ClientContext,
+  ): Promise<void> {
+    let decoded: JwtPayload & { type?: string; temp?: boolean };
+
+    try {
+      decoded = this.keyring.verify(token);
+    } catch {
+      return;
+    }
+
+    if (
+      decoded.temp ||
+      (decoded.type !== 'access' && decoded.type !== 'refresh')
+    ) {
+      return;
+    }
+
+    const isRefresh = decoded.type === 'refresh';
+    let sessionId = decoded.sid;
+
+    if (isRefresh) {
+      const storedToken = await this.prisma.refreshToken.findUnique({
+        where: { token: this.hashToken(token) },
+      });
+
+      if (!storedToken || storedToken.userId !== decoded.sub) {
+        return;
+      }
+
+      await this.prisma.refreshToken.updateMany({
+        where: { id: storedToken.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      sessionId = storedToken.sessionId;
+    }
+
+    // Access tokens live as long as their session, so revoke the session
+    // together with every refresh token issued for it
+    if (sessionId) {
+      await this.prisma.refreshToken.updateMany({
+        where: { sessionId, userId: decoded.sub, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      await this.prisma.session.deleteMany({
+        where: { id: sessionId, userId: decoded.sub },
+      });
+    }
+
+    await this.logAudit(
+      decoded.sub,
+      'TOKEN_REVOKED',
+      'auth',
+      { clientId, tokenType: isRefresh ? 'refresh_token' : 'access_token' },
+      client,
+    );
+  }
+
+  // Validates the temporary token login hands out while a second factor is
+  // pending and returns the id of the user it was issued to
+  verifyTwoFAToken(token: string, client?: ClientContext): string {
+    return this.verifyLoginChallenge(token, client).userId;
+  }
+
+  // Same check, also returning the step-up flag and risk event of the login
+  verifyLoginChallenge(token: string, client?: ClientContext): LoginChallenge {
+    const decoded = this.keyring.verify(token) as {
+      sub: string;
+      temp?: boolean;
+      type?: string;
+      fp?: string;
+      rid?: string;
+      stepUp?: boolean;
+    };
+
+    if (!decoded?.temp || decoded.type !== '2fa') {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    if (decoded.fp && decoded.fp !== fingerprintClient(client)) {
+      throw new ForbiddenException('Client fingerprint mismatch');
+    }
+
+    return {
+      userId: decoded.sub,
+      stepUp: decoded.stepUp === true,
+      riskEventId: decoded.rid,
+    };
+  }
+
+  async getLoginRiskEvents(userId: string, skip = 0, take = 20) {
+    return this.loginRiskService.listEvents(userId, skip, take);
+  }
+
+  // Checks a refresh token against the store. Presenting an already revoked
+  // token is treated as theft and revokes every token of the user.
+  private async validateRefreshToken(refreshToken: string) {
+    const decoded = this.keyring.verify(refreshToken) as JwtPayload & {
+      jti?: string;
+      type?: string;
+    };
+
+    if (decoded.type !== 'refresh') {
+      throw new UnauthorizedException('Invalid refresh token type');
+    }
+
+    const hashed = this.hashToken(refreshToken);
+
+    // Check if refresh token exists and is not revoked
+    const storedToken = await this.prisma.refreshToken.findUnique({
+      where: { token: hashed },
+    });
+
+    if (!storedToken) {
+      throw new UnauthorizedException('Invalid or revoked refresh token');
+    }
+
+    if (storedToken.revokedAt) {
+      // Reuse detected: revoke all tokens for this user
+      await this.revokeAllUserTokens(decoded.sub);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    if (storedToken.userId !== decoded.sub) {
+      throw new UnauthorizedException('Refresh token user mismatch');
+    }
+
+    // A revoked session takes its refresh tokens with it
+    if (decoded.sid && storedToken.sessionId !== decoded.sid) {
+      throw new UnauthorizedException('Session revoked');
+    }
+
+    if (storedToken.expiresAt < new Date()) {
+      await this.prisma.refreshToken.update({
+        where: { token: hashed },
+        data: { revokedAt: new Date() },
+      });
+      throw new UnauthorizedException('Expired refresh token');
+    }
+
+    return { decoded, storedToken };
+  }
+
+  private async getTwoFACompliance(user: {
+    role: string;
+    companyId: string | null;
+    isTwoFAEnabled: boolean;
+    isServiceAccount: boolean;
+    twoFAEnrollmentRequired: boolean;
+    createdAt: Date;
+  }) {
+    const company = user.companyId
+      ? await this.prisma.company.findUnique({
+          where: { id: user.companyId },
+          select: {
+            twoFAPolicy: true,
+            twoFAGraceDays: true,
+            twoFAPolicySetAt: true,
+          },
+        })
+      : null;
+
+    return getTwoFACompliance(company, user);
+  }
+
+  private async issueEmailVerification(userId: string, email: string) {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await this.prisma.emailVerificationToken.create({
+      data: {
+        token: this.hashToken(token),
+        userId,
+        expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS),
+      },
+    });
+
+    await this.queueService.sendVerificationEmail(email, token);
   }
 
   private async revokeAllUserTokens(userId: string) {
@@ -343,6 +952,11 @@ export class AuthService {
       where: { userId },
       data: { revokedAt: new Date() },
     });
+
+    // Access tokens are bound to sessions, so this signs out every device
+    await this.prisma.session.deleteMany({
+      where: { userId },
+    });
   }
 
   // Audit logging
@@ -368,9 +982,4 @@ export class AuthService {
   private hashToken(token: string): string {
     return crypto.createHash('sha256').update(token).digest('hex');
   }
-
-  private fingerprint(client?: ClientContext): string {
-    const input = `${client?.ip || ''}|${client?.userAgent || ''}`;
-    return this.hashToken(input);
-  }
 }
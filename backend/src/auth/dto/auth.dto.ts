@@ -4,9 +4,10 @@ import {
   MinLength,
   MaxLength,
   IsOptional,
-  Matches,
 } from 'class-validator';
 
+// Password strength is checked by PasswordPolicyService, not by the DTOs
+
 export class RegisterDto {
   @IsEmail()
   email: string;
@@ -17,9 +18,6 @@ export class RegisterDto {
   username: string;
 
   @IsString()
-  @MinLength(8)
-  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-={}\[\]:;"'<>,.?/]).{8,}$/,
-    { message: 'Password must include upper, lower, number, and symbol' })
   password: string;
 
   @IsOptional()
@@ -37,6 +35,11 @@ export class LoginDto {
 
   @IsString()
   password: string;
+
+  // Issued by /2fa/verify-login with rememberDevice; skips the 2FA step
+  @IsOptional()
+  @IsString()
+  deviceToken?: string;
 }
 
 export class LoginWithTwoFADto {
@@ -56,12 +59,36 @@ export class RefreshTokenDto {
 
 export class ChangePasswordDto {
   @IsString()
-  @MinLength(8)
   oldPassword: string;
 
   @IsString()
-  @MinLength(8)
-  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-={}\[\]:;"'<>,.?/]).{8,}$/,
-    { message: 'Password must include upper, lower, number, and symbol' })
   newPassword: string;
 }
+
+export class ForgotPasswordDto {
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @IsString()
+  token: string;
+
+  @IsString()
+  newPassword: string;
+}
+
+export class UnlockAccountDto {
+  @IsString()
+  token: string;
+}
+
+export class VerifyEmailDto {
+  @IsString()
+  token: string;
+}
+
+export class ResendVerificationDto {
+  @IsEmail()
+  email: string;
+}
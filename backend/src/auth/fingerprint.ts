@@ -0,0 +1,11 @@
+import * as crypto from 'crypto';
+
+// Hash of the client's IP and user agent. Temporary 2FA tokens and trusted
+// device tokens are only accepted from the client they were issued to.
+export function fingerprintClient(client?: {
+  ip?: string;
+  userAgent?: string;
+}): string {
+  const input = `${client?.ip || ''}|${client?.userAgent || ''}`;
+  return crypto.createHash('sha256').update(input).digest('hex');
+}
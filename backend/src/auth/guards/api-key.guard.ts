@@ -0,0 +1,46 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  ApiKeysService,
+  API_KEY_PREFIX,
+} from '../../api-keys/api-keys.service';
+import { Request } from 'express';
+import { extractClient } from '../../common/decorators/client.decorator';
+
+export function extractApiKey(request: Request): string | null {
+  const header = request.headers.authorization || '';
+  const [type, token] = header.split(' ');
+
+  return type === 'Bearer' && token?.startsWith(API_KEY_PREFIX) ? token : null;
+}
+
+/**
+ * Authenticates `Authorization: Bearer pat_...` personal access tokens.
+ * JwtAuthGuard delegates to it, so keys work wherever JWTs do as long as
+ * the key holds every scope the route lists in @Scopes().
+ */
+@Injectable()
+export class ApiKeyAuthGuard implements CanActivate {
+  constructor(private apiKeysService: ApiKeysService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const key = extractApiKey(request);
+
+    if (!key) {
+      throw new UnauthorizedException('API key required');
+    }
+
+    request.user = await this.apiKeysService.authenticate(key, {
+      ...extractClient(request),
+      method: request.method,
+      path: request.originalUrl?.split('?')[0],
+    });
+
+    return true;
+  }
+}
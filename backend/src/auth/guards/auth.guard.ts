@@ -1,8 +1,131 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  ExecutionContext,
+  ForbiddenException,
+  SetMetadata,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import { Request } from 'express';
+import {
+  AuthenticatedUser,
+  EmailVerificationPolicy,
+} from '../interfaces/auth.interface';
+import { ApiKeyAuthGuard, extractApiKey } from './api-key.guard';
+import { TWO_FA_ENROLLMENT_SCOPE, PASSWORD_CHANGE_SCOPE } from '../scopes';
+
+// Restricted sessions only reach the routes that lift their restriction
+const RESTRICTION_MESSAGES: Record<string, string> = {
+  [TWO_FA_ENROLLMENT_SCOPE]:
+    'Your company requires two-factor authentication. Enable it to continue.',
+  [PASSWORD_CHANGE_SCOPE]: 'Your password has expired. Change it to continue.',
+};
+
+export const ALLOW_UNVERIFIED_KEY = 'allowUnverified';
+
+// Marks routes that stay reachable for unverified accounts under 'restrict'
+export const AllowUnverified = () => SetMetadata(ALLOW_UNVERIFIED_KEY, true);
+
+export const SCOPES_KEY = 'scopes';
+
+// Scopes a scoped token (API key) needs for a route. Routes without it are
+// closed to scoped tokens but stay open to regular sessions.
+export const Scopes = (...scopes: string[]) => SetMetadata(SCOPES_KEY, scopes);
+
+export function getEmailVerificationPolicy(): EmailVerificationPolicy {
+  const policy = process.env.EMAIL_VERIFICATION_POLICY || 'off';
+  return ['off', 'restrict', 'block'].includes(policy)
+    ? (policy as EmailVerificationPolicy)
+    : 'off';
+}
 
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {}
+export class JwtAuthGuard extends AuthGuard('jwt') {
+  constructor(
+    private reflector: Reflector,
+    private apiKeyGuard: ApiKeyAuthGuard,
+  ) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    // Personal access tokens are accepted wherever JWTs are
+    const activated = extractApiKey(request)
+      ? await this.apiKeyGuard.canActivate(context)
+      : ((await super.canActivate(context)) as boolean);
+
+    if (!activated) {
+      return false;
+    }
+
+    const user = request.user as AuthenticatedUser | undefined;
+    this.checkScopes(context, user);
+
+    if (getEmailVerificationPolicy() !== 'restrict') {
+      return true;
+    }
+
+    if (user?.isEmailVerified) {
+      return true;
+    }
+
+    const allowUnverified = this.reflector.getAllAndOverride<boolean>(
+      ALLOW_UNVERIFIED_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!allowUnverified) {
+      throw new ForbiddenException('Email address has not been verified');
+    }
+
+    return true;
+  }
+
+  private checkScopes(
+    context: ExecutionContext,
+    user: AuthenticatedUser | undefined,
+  ) {
+    // Interactive sessions are not scoped
+    if (!user?.scopes) {
+      return;
+    }
+
+    const requiredScopes = this.reflector.getAllAndOverride<string[]>(
+      SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    const restrictions = user.scopes.filter(
+      (scope) => scope in RESTRICTION_MESSAGES,
+    );
+
+    if (restrictions.length) {
+      if (requiredScopes?.some((scope) => restrictions.includes(scope))) {
+        return;
+      }
+
+      throw new ForbiddenException(RESTRICTION_MESSAGES[restrictions[0]]);
+    }
+
+    if (!requiredScopes) {
+      throw new ForbiddenException(
+        'This endpoint is not available to scoped tokens',
+      );
+    }
+
+    const missing = requiredScopes.filter(
+      (scope) => !user.scopes.includes(scope),
+    );
+
+    if (missing.length) {
+      throw new ForbiddenException(
+        `Missing required scope: ${missing.join(', ')}`,
+      );
+    }
+  }
+}
 
 @Injectable()
 export class LocalAuthGuard extends AuthGuard('local') {}
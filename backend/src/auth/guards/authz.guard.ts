@@ -0,0 +1,51 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  SetMetadata,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthzService } from '../../authz/authz.service';
+import { extractClient } from '../../common/decorators/client.decorator';
+
+export const AUTHORIZE_KEY = 'authorize';
+
+// Checks the policies for `action` on the resource named by route param `param`
+export const Authorize = (action: string, param = 'id') =>
+  SetMetadata(AUTHORIZE_KEY, { action, param });
+
+@Injectable()
+export class AuthzGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private authzService: AuthzService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const rule = this.reflector.getAllAndOverride<{
+      action: string;
+      param: string;
+    }>(AUTHORIZE_KEY, [context.getHandler(), context.getClass()]);
+
+    if (!rule) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+
+    if (!request.user) {
+      throw new ForbiddenException('User not found');
+    }
+
+    // Missing or invisible resources are 404, like everywhere else
+    await this.authzService.assert(
+      request.user,
+      rule.action,
+      request.params[rule.param],
+      extractClient(request),
+    );
+
+    return true;
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  SetMetadata,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsService } from '../../permissions/permissions.service';
+import { Permission } from '../../permissions/permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+// All listed permissions are required
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!required) {
+      return true;
+    }
+
+    const user = context.switchToHttp().getRequest().user;
+
+    if (!user) {
+      throw new ForbiddenException('User not found');
+    }
+
+    const permissions = await this.permissionsService.getEffectivePermissions(
+      user.userId,
+    );
+    const missing = required.filter(
+      (permission) => !permissions.has(permission),
+    );
+
+    if (missing.length) {
+      throw new ForbiddenException(
+        `Missing required permission: ${missing.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
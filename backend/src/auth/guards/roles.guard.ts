@@ -6,16 +6,22 @@ import {
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { SetMetadata } from '@nestjs/common';
+import { PermissionsService } from '../../permissions/permissions.service';
 
 export const ROLES_KEY = 'roles';
 
+// Prefer @RequirePermissions() for new routes. A role listed here also admits
+// users whose custom role grants all of that role's permissions.
 export const Roles = (...roles: string[]) => SetMetadata(ROLES_KEY, roles);
 
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private permissionsService: PermissionsService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const requiredRoles = this.reflector.get<string[]>(
       ROLES_KEY,
       context.getHandler(),
@@ -32,12 +38,14 @@ export class RolesGuard implements CanActivate {
       throw new ForbiddenException('User not found');
     }
 
-    if (!requiredRoles.includes(user.role)) {
-      throw new ForbiddenException(
-        `User role '${user.role}' does not have access to this resource`,
-      );
+    for (const role of requiredRoles) {
+      if (await this.permissionsService.satisfiesRole(user, role)) {
+        return true;
+      }
     }
 
-    return true;
+    throw new ForbiddenException(
+      `User role '${user.role}' does not have access to this resource`,
+    );
   }
 }
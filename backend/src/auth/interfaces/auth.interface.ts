@@ -2,10 +2,34 @@ export interface JwtPayload {
   sub: string; // user id
   email: string;
   role: string;
+  sid?: string; // session id
+  type?: 'access' | 'refresh'; // only access tokens authenticate requests
+  principal?: 'user' | 'service'; // absent on user tokens
+  sa?: string; // service account id
+  scope?: string; // space-separated scopes of service tokens
+  eg?: string; // elevation grant active when the token was issued
   iat?: number;
   exp?: number;
 }
 
+// The principal placed on request.user by JwtStrategy or an API key
+export interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  username: string;
+  role: string;
+  isTwoFAEnabled?: boolean; // not tracked for service accounts
+  isEmailVerified: boolean;
+  companyId: string | null;
+  sessionId?: string; // interactive sessions only
+  elevationGrantId?: string;
+  apiKeyId?: string;
+  principalType?: 'service';
+  serviceAccountId?: string;
+  // Scoped tokens only: API keys, service tokens and restricted sessions
+  scopes?: string[];
+}
+
 export interface AuthResponse {
   accessToken: string;
   refreshToken: string;
@@ -15,10 +39,58 @@ export interface AuthResponse {
     username: string;
     role: string;
     isTwoFAEnabled: boolean;
+    isEmailVerified: boolean;
   };
+  // Present while the company policy requires 2FA the user has not enabled.
+  // Once overdue the access token only reaches 2FA enrollment routes.
+  twoFAEnrollment?: {
+    enrollBy: Date | null; // null when re-enrollment is forced immediately
+    restricted: boolean;
+  };
+  // Older than PASSWORD_MAX_AGE_DAYS; the access token only reaches
+  // /auth/change-password until it is changed
+  passwordExpired?: boolean;
 }
 
+export type SecondFactor = 'totp' | 'backup_code' | 'webauthn' | 'email_otp';
+
 export interface TwoFAAuthResponse {
   token: string; // temporary token for 2FA verification
   requiresTwoFA: boolean;
+  factors: SecondFactor[]; // what the client can prompt for
+  stepUp?: boolean; // unusual login, verification required even without 2FA
+}
+
+// Decoded temporary token from /auth/login
+export interface LoginChallenge {
+  userId: string;
+  stepUp: boolean;
+  riskEventId?: string; // login risk event completed once verified
 }
+
+// RFC 7662 introspection response; inactive tokens only carry `active`
+export interface TokenIntrospection {
+  active: boolean;
+  token_type?: 'access_token' | 'refresh_token';
+  sub?: string;
+  username?: string;
+  email?: string;
+  role?: string;
+  scope?: string;
+  client_id?: string;
+  sid?: string;
+  jti?: string;
+  iat?: number;
+  exp?: number;
+}
+
+// RFC 6749 client_credentials token response
+export interface ServiceTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+}
+
+// off: no enforcement, restrict: only @AllowUnverified() routes, block: no login
+export type EmailVerificationPolicy = 'off' | 'restrict' | 'block';
@@ -0,0 +1,14 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { JwtKeyringService } from './jwt-keyring.service';
+
+@Controller('.well-known')
+export class JwksController {
+  constructor(private keyring: JwtKeyringService) {}
+
+  // Public keys for every key that may still have valid tokens in flight
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  getJwks() {
+    return this.keyring.getJwks();
+  }
+}
@@ -0,0 +1,330 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClientContext } from '../../common/decorators/client.decorator';
+import { AuditService } from '../../audit/audit.service';
+
+export type SigningAlgorithm = 'RS256' | 'ES256';
+
+export const SUPPORTED_ALGORITHMS: SigningAlgorithm[] = ['RS256', 'ES256'];
+
+interface KeyRecord {
+  kid: string;
+  alg: SigningAlgorithm;
+  status: 'active' | 'retired';
+  createdAt: string;
+  retiredAt?: string;
+}
+
+interface KeyringManifest {
+  keys: KeyRecord[];
+}
+
+interface LoadedKey extends KeyRecord {
+  privateKeyPem: string;
+  publicKeyPem: string;
+}
+
+const MANIFEST_FILE = 'keyring.json';
+const DAY_S = 24 * 60 * 60;
+const REFRESH_TOKEN_LIFETIME_S = 7 * DAY_S; // Refresh tokens are signed for 7d
+const RELOAD_INTERVAL_MS = 10 * 1000; // How often the manifest is re-read
+
+/**
+ * Keyring of asymmetric JWT signing keys stored as local PEM files.
+ *
+ * The manifest (keyring.json) lists every key with its status. New tokens are
+ * signed with the single active key; retired keys keep verifying until
+ * JWT_KEY_RETENTION seconds after retirement, never less than the longest
+ * token lifetime (refresh or trusted-device tokens).
+ */
+@Injectable()
+export class JwtKeyringService {
+  private readonly logger = new Logger(JwtKeyringService.name);
+  private readonly keysDir = path.resolve(process.env.JWT_KEYS_DIR || 'keys');
+  private readonly algorithm = this.getAlgorithm();
+  private readonly retentionMs = this.getRetentionMs();
+
+  private keys = new Map<string, LoadedKey>();
+  private lastReload = 0;
+
+  constructor(
+    private jwtService: JwtService,
+    private auditService: AuditService,
+  ) {
+    this.load();
+
+    if (!this.getActiveKey()) {
+      this.logger.warn('No active JWT signing key found, generating one');
+      this.addKey();
+    }
+  }
+
+  sign(payload: object, expiresIn: JwtSignOptions['expiresIn']): string {
+    // Pick up rotations performed by other instances
+    if (Date.now() - this.lastReload > RELOAD_INTERVAL_MS) {
+      this.load();
+    }
+
+    const key = this.getActiveKey();
+
+    return this.jwtService.sign(payload, {
+      privateKey: key.privateKeyPem,
+      algorithm: key.alg,
+      keyid: key.kid,
+      expiresIn,
+    });
+  }
+
+  verify<T extends object = any>(token: string): T {
+    const key = this.resolveKey(token);
+
+    if (!key) {
+      throw new UnauthorizedException('Unknown signing key');
+    }
+
+    return this.jwtService.verify<T>(token, {
+      publicKey: key.publicKeyPem,
+      algorithms: [key.alg],
+    });
+  }
+
+  // Used by passport-jwt through secretOrKeyProvider
+  getVerificationKey(token: string): string | null {
+    return this.resolveKey(token)?.publicKeyPem || null;
+  }
+
+  getJwks() {
+    return {
+      keys: this.getVerifiableKeys().map((key) => ({
+        ...(crypto
+          .createPublicKey(key.publicKeyPem)
+          .export({ format: 'jwk' }) as crypto.JsonWebKey),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      })),
+    };
+  }
+
+  listKeys() {
+    return this.getVerifiableKeys().map(
+      ({ kid, alg, status, createdAt, retiredAt }) => ({
+        kid,
+        alg,
+        status,
+        createdAt,
+        retiredAt: retiredAt || null,
+      }),
+    );
+  }
+
+  async rotate(performedBy: string, client?: ClientContext) {
+    const previous = this.getActiveKey();
+    const next = this.addKey();
+
+    await this.auditService.logUserAudit(
+      performedBy,
+      'JWT_KEY_ROTATED',
+      'auth',
+      {
+        previousKid: previous?.kid || null,
+        kid: next.kid,
+        alg: next.alg,
+      },
+      client,
+    );
+
+    return {
+      kid: next.kid,
+      alg: next.alg,
+      retiredKid: previous?.kid || null,
+    };
+  }
+
+  private resolveKey(token: string): LoadedKey | null {
+    const decoded = this.jwtService.decode(token, { complete: true }) as {
+      header?: { kid?: string };
+    } | null;
+    const kid = decoded?.header?.kid;
+
+    if (!kid) {
+      return null;
+    }
+
+    // Another instance may have rotated since we last read the manifest
+    if (
+      !this.keys.has(kid) &&
+      Date.now() - this.lastReload > RELOAD_INTERVAL_MS
+    ) {
+      this.load();
+    }
+
+    const key = this.keys.get(kid);
+    return key && this.isVerifiable(key) ? key : null;
+  }
+
+  private getActiveKey(): LoadedKey | undefined {
+    return [...this.keys.values()].find((key) => key.status === 'active');
+  }
+
+  private getVerifiableKeys(): LoadedKey[] {
+    return [...this.keys.values()].filter((key) => this.isVerifiable(key));
+  }
+
+  private isVerifiable(key: KeyRecord): boolean {
+    if (key.status === 'active') {
+      return true;
+    }
+
+    const retiredAt = key.retiredAt ? Date.parse(key.retiredAt) : 0;
+    return retiredAt + this.retentionMs > Date.now();
+  }
+
+  private load() {
+    this.lastReload = Date.now();
+    const manifest = this.readManifest();
+
+    if (!manifest) {
+      this.keys = new Map();
+      return;
+    }
+
+    const keys = new Map<string, LoadedKey>();
+
+    for (const record of manifest.keys) {
+      const keyPath = this.keyPath(record.kid);
+
+      if (!fs.existsSync(keyPath)) {
+        this.logger.error(`Missing PEM file for JWT key ${record.kid}`);
+        continue;
+      }
+
+      const privateKeyPem = fs.readFileSync(keyPath, 'utf8');
+      const publicKeyPem = crypto
+        .createPublicKey(privateKeyPem)
+        .export({ type: 'spki', format: 'pem' })
+        .toString();
+
+      keys.set(record.kid, { ...record, privateKeyPem, publicKeyPem });
+    }
+
+    this.keys = keys;
+  }
+
+  // Generate a key, make it active and retire the previous one
+  private addKey(): LoadedKey {
+    fs.mkdirSync(this.keysDir, { recursive: true, mode: 0o700 });
+
+    const kid = crypto.randomBytes(8).toString('hex');
+    const { privateKey } =
+      this.algorithm === 'ES256'
+        ? crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+        : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    fs.writeFileSync(
+      this.keyPath(kid),
+      privateKey.export({ type: 'pkcs8', format: 'pem' }),
+      { mode: 0o600 },
+    );
+
+    const now = new Date().toISOString();
+    const existing = this.readManifest();
+    const keys = (existing?.keys || [])
+      .map((record) =>
+        record.status === 'active'
+          ? { ...record, status: 'retired' as const, retiredAt: now }
+          : record,
+      )
+      .filter((record) => this.isVerifiable(record));
+
+    keys.push({ kid, alg: this.algorithm, status: 'active', createdAt: now });
+
+    if (this.writeManifest({ keys }, !existing)) {
+      this.pruneKeyFiles(keys);
+    } else {
+      fs.unlinkSync(this.keyPath(kid));
+    }
+
+    this.load();
+
+    return this.getActiveKey();
+  }
+
+  private readManifest(): KeyringManifest | null {
+    const manifestPath = path.join(this.keysDir, MANIFEST_FILE);
+
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  }
+
+  private writeManifest(manifest: KeyringManifest, create: boolean): boolean {
+    const manifestPath = path.join(this.keysDir, MANIFEST_FILE);
+
+    try {
+      // 'wx' makes the very first write exclusive, so concurrently starting
+      // instances agree on a single initial key instead of each creating one
+      fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), {
+        flag: create ? 'wx' : 'w',
+        mode: 0o600,
+      });
+      return true;
+    } catch (error) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  private pruneKeyFiles(keep: KeyRecord[]) {
+    const kept = new Set(keep.map((record) => `${record.kid}.pem`));
+
+    for (const file of fs.readdirSync(this.keysDir)) {
+      if (file.endsWith('.pem') && !kept.has(file)) {
+        fs.unlinkSync(path.join(this.keysDir, file));
+      }
+    }
+  }
+
+  private keyPath(kid: string): string {
+    return path.join(this.keysDir, `${kid}.pem`);
+  }
+
+  // A retired key must verify every token it signed until they all expire
+  private getRetentionMs(): number {
+    const configured = parseInt(process.env.JWT_KEY_RETENTION || '2592000');
+    const trustedDeviceLifetime =
+      parseInt(process.env.TRUSTED_DEVICE_DAYS || '30') * DAY_S;
+    const retention = Math.max(
+      configured,
+      REFRESH_TOKEN_LIFETIME_S,
+      trustedDeviceLifetime,
+    );
+
+    if (retention > configured) {
+      this.logger.warn(
+        `JWT_KEY_RETENTION raised to ${retention}s to cover the longest token lifetime`,
+      );
+    }
+
+    return retention * 1000;
+  }
+
+  private getAlgorithm(): SigningAlgorithm {
+    const alg = (process.env.JWT_ALGORITHM || 'RS256') as SigningAlgorithm;
+
+    if (!SUPPORTED_ALGORITHMS.includes(alg)) {
+      throw new Error(
+        `JWT_ALGORITHM must be one of ${SUPPORTED_ALGORITHMS.join(', ')}`,
+      );
+    }
+
+    return alg;
+  }
+}
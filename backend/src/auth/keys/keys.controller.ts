@@ -0,0 +1,35 @@
+import {
+  Controller,
+  Get,
+  Post,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { JwtKeyringService } from './jwt-keyring.service';
+import { JwtAuthGuard } from '../guards/auth.guard';
+import { Roles, RolesGuard } from '../guards/roles.guard';
+import {
+  Client,
+  ClientContext,
+} from '../../common/decorators/client.decorator';
+
+@Controller('auth/keys')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class KeysController {
+  constructor(private keyring: JwtKeyringService) {}
+
+  @Get()
+  @Roles('ADMIN')
+  listKeys() {
+    return this.keyring.listKeys();
+  }
+
+  @Post('rotate')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async rotate(@Request() req, @Client() client: ClientContext) {
+    return this.keyring.rotate(req.user.userId, client);
+  }
+}
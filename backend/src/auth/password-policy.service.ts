@@ -0,0 +1,217 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  OnModuleInit,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  maxAgeDays: number; // 0: passwords never expire
+  historySize: number; // Recent passwords that cannot be reused
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_BREACH_DIR = 'data/breached-passwords';
+
+/**
+ * Password rules for every endpoint that sets a password: length, character
+ * classes, reuse of the last PASSWORD_HISTORY_SIZE passwords, and membership
+ * in a local breached-password list.
+ *
+ * The breach list uses the Pwned Passwords range layout: one file per
+ * 5-character SHA-1 prefix (ABCDE.txt) holding `SUFFIX:COUNT` lines, so a
+ * lookup reads a single small file and never touches the network.
+ */
+@Injectable()
+export class PasswordPolicyService implements OnModuleInit {
+  private readonly logger = new Logger(PasswordPolicyService.name);
+  private readonly breachDir = path.resolve(
+    process.env.PASSWORD_BREACH_DIR || DEFAULT_BREACH_DIR,
+  );
+  private breachCheckEnabled = false;
+
+  readonly policy: PasswordPolicy = {
+    minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '8'),
+    // bcrypt ignores everything past 72 bytes
+    maxLength: Math.min(parseInt(process.env.PASSWORD_MAX_LENGTH || '72'), 72),
+    requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false',
+    requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+    requireDigit: process.env.PASSWORD_REQUIRE_DIGIT !== 'false',
+    requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL !== 'false',
+    maxAgeDays: parseInt(process.env.PASSWORD_MAX_AGE_DAYS || '0'),
+    historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5'),
+  };
+
+  constructor(private prisma: PrismaService) {}
+
+  onModuleInit() {
+    this.breachCheckEnabled = fs.existsSync(this.breachDir);
+
+    if (!this.breachCheckEnabled) {
+      this.logger.warn(
+        `Breached password list not found at ${this.breachDir}, check disabled`,
+      );
+    }
+  }
+
+  // Throws with one message per failed rule. `user` enables the reuse check.
+  async assertValid(
+    password: string,
+    user?: { id: string; password: string },
+  ): Promise<void> {
+    const violations = this.checkRules(password);
+
+    if (!violations.length) {
+      if (await this.isBreached(password)) {
+        violations.push(
+          'password appears in a known data breach; choose a different one',
+        );
+      } else if (user && (await this.isReused(password, user))) {
+        violations.push(
+          `password must differ from your last ${this.policy.historySize} passwords`,
+        );
+      }
+    }
+
+    if (violations.length) {
+      throw new BadRequestException(violations);
+    }
+  }
+
+  // Keeps the replaced hash so it cannot be chosen again
+  async recordChange(userId: string, previousHash: string): Promise<void> {
+    if (this.policy.historySize <= 1) {
+      return;
+    }
+
+    await this.prisma.passwordHistory.create({
+      data: { userId, passwordHash: previousHash },
+    });
+
+    // The current password counts as one of the remembered ones
+    const stale = await this.prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: this.policy.historySize - 1,
+      select: { id: true },
+    });
+
+    if (stale.length) {
+      await this.prisma.passwordHistory.deleteMany({
+        where: { id: { in: stale.map((entry) => entry.id) } },
+      });
+    }
+  }
+
+  isExpired(user: { passwordChangedAt?: Date | null }): boolean {
+    if (this.policy.maxAgeDays <= 0 || !user.passwordChangedAt) {
+      return false;
+    }
+
+    return (
+      user.passwordChangedAt.getTime() + this.policy.maxAgeDays * DAY_MS <
+      Date.now()
+    );
+  }
+
+  private checkRules(password: string): string[] {
+    const { policy } = this;
+    const violations: string[] = [];
+
+    if (password.length < policy.minLength) {
+      violations.push(
+        `password must be at least ${policy.minLength} characters long`,
+      );
+    }
+
+    if (Buffer.byteLength(password) > policy.maxLength) {
+      violations.push(
+        `password must be at most ${policy.maxLength} bytes long`,
+      );
+    }
+
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+      violations.push('password must contain an uppercase letter');
+    }
+
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+      violations.push('password must contain a lowercase letter');
+    }
+
+    if (policy.requireDigit && !/\d/.test(password)) {
+      violations.push('password must contain a number');
+    }
+
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      violations.push('password must contain a symbol');
+    }
+
+    return violations;
+  }
+
+  private async isReused(
+    password: string,
+    user: { id: string; password: string },
+  ): Promise<boolean> {
+    if (this.policy.historySize <= 0) {
+      return false;
+    }
+
+    const history = await this.prisma.passwordHistory.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      take: this.policy.historySize - 1,
+      select: { passwordHash: true },
+    });
+
+    for (const hash of [
+      user.password,
+      ...history.map((entry) => entry.passwordHash),
+    ]) {
+      if (await bcrypt.compare(password, hash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private async isBreached(password: string): Promise<boolean> {
+    if (!this.breachCheckEnabled) {
+      return false;
+    }
+
+    const hash = crypto
+      .createHash('sha1')
+      .update(password)
+      .digest('hex')
+      .toUpperCase();
+    const bucket = path.join(this.breachDir, `${hash.slice(0, 5)}.txt`);
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(bucket, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+
+    const suffix = hash.slice(5);
+    return content
+      .split(/\r?\n/)
+      .some((line) => line.split(':')[0].toUpperCase() === suffix);
+  }
+}
@@ -0,0 +1,154 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import * as readline from 'readline';
+
+export interface GeoLocation {
+  country: string;
+  city: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+const DEFAULT_DB_PATH = 'data/geoip/IP2LOCATION-LITE-DB5.CSV';
+
+/**
+ * Offline IPv4 geolocation from an IP2Location LITE DB5 CSV file
+ * (ip_from, ip_to, country code, country, region, city, latitude, longitude).
+ *
+ * The ranges are loaded once into typed arrays and searched by bisection.
+ * Without the file every lookup returns null and login risk scoring falls
+ * back to device and network checks.
+ */
+@Injectable()
+export class GeoIpService implements OnModuleInit {
+  private readonly logger = new Logger(GeoIpService.name);
+  private readonly dbPath = path.resolve(
+    process.env.GEOIP_DB_PATH || DEFAULT_DB_PATH,
+  );
+
+  private rangeStart = new Uint32Array(0);
+  private rangeEnd = new Uint32Array(0);
+  private rangeLocation = new Uint32Array(0);
+  private locations: GeoLocation[] = [];
+
+  async onModuleInit() {
+    if (!fs.existsSync(this.dbPath)) {
+      this.logger.warn(
+        `GeoIP database not found at ${this.dbPath}, geolocation disabled`,
+      );
+      return;
+    }
+
+    await this.load();
+  }
+
+  get isEnabled(): boolean {
+    return this.rangeStart.length > 0;
+  }
+
+  lookup(ip?: string | null): GeoLocation | null {
+    const value = ip ? ipv4ToInt(ip) : null;
+
+    if (value === null || !this.isEnabled) {
+      return null;
+    }
+
+    let low = 0;
+    let high = this.rangeStart.length - 1;
+
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+
+      if (value < this.rangeStart[mid]) {
+        high = mid - 1;
+      } else if (value > this.rangeEnd[mid]) {
+        low = mid + 1;
+      } else {
+        const location = this.locations[this.rangeLocation[mid]];
+        // Reserved ranges are listed with "-" as country
+        return location.country === '-' ? null : location;
+      }
+    }
+
+    return null;
+  }
+
+  private async load() {
+    const starts: number[] = [];
+    const ends: number[] = [];
+    const locationIds: number[] = [];
+    const locationIndex = new Map<string, number>();
+    const locations: GeoLocation[] = [];
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.dbPath),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      const fields = parseCsvLine(line);
+
+      if (fields.length < 8) {
+        continue;
+      }
+
+      const [from, to, country, , , city, latitude, longitude] = fields;
+      // Many ranges share a location, store each one once
+      const key = `${country}|${city}|${latitude}|${longitude}`;
+      let locationId = locationIndex.get(key);
+
+      if (locationId === undefined) {
+        locationId = locations.length;
+        locationIndex.set(key, locationId);
+        locations.push({
+          country,
+          city: city && city !== '-' ? city : null,
+          latitude: parseFloat(latitude),
+          longitude: parseFloat(longitude),
+        });
+      }
+
+      starts.push(Number(from));
+      ends.push(Number(to));
+      locationIds.push(locationId);
+    }
+
+    // The file is sorted by ip_from, which the bisection relies on
+    this.rangeStart = Uint32Array.from(starts);
+    this.rangeEnd = Uint32Array.from(ends);
+    this.rangeLocation = Uint32Array.from(locationIds);
+    this.locations = locations;
+
+    this.logger.log(
+      `Loaded ${starts.length} GeoIP ranges from ${path.basename(this.dbPath)}`,
+    );
+  }
+}
+
+// IPv4 (including IPv4-mapped IPv6) as an unsigned integer
+export function ipv4ToInt(ip: string): number | null {
+  const address = ip.startsWith('::ffff:') ? ip.slice(7) : ip;
+
+  if (!net.isIPv4(address)) {
+    return null;
+  }
+
+  return (
+    address
+      .split('.')
+      .reduce((value, octet) => value * 256 + parseInt(octet, 10), 0) >>> 0
+  );
+}
+
+// IP2Location quotes every field and never embeds quotes in values
+function parseCsvLine(line: string): string[] {
+  const trimmed = line.trim();
+
+  if (!trimmed.startsWith('"') || !trimmed.endsWith('"')) {
+    return [];
+  }
+
+  return trimmed.slice(1, -1).split('","');
+}
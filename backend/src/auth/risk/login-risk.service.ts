@@ -0,0 +1,260 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import * as net from 'net';
+import { LoginRiskDecision } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EmailService } from '../../email/email.service';
+import { GeoIpService, GeoLocation } from './geoip.service';
+import { ClientContext } from '../../common/decorators/client.decorator';
+
+export type LoginRiskFactor =
+  | 'new_device'
+  | 'new_network'
+  | 'new_country'
+  | 'impossible_travel'
+  | 'recent_failures';
+
+export interface LoginRiskAssessment {
+  eventId: string;
+  score: number;
+  decision: LoginRiskDecision;
+  factors: LoginRiskFactor[];
+}
+
+const FACTOR_WEIGHTS: Record<LoginRiskFactor, number> = {
+  new_device: 30,
+  new_network: 15,
+  new_country: 30,
+  impossible_travel: 60,
+  recent_failures: 15,
+};
+
+const HISTORY_SIZE = 50; // Completed logins compared against
+const MIN_TRAVEL_KM = 300; // Below this GeoIP inaccuracy dominates
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Scores password logins against the user's completed logins: known
+ * devices, networks and countries, and whether the distance from the last
+ * located login could have been travelled in the time since.
+ */
+@Injectable()
+export class LoginRiskService {
+  private readonly logger = new Logger(LoginRiskService.name);
+  private readonly notifyScore = parseInt(
+    process.env.LOGIN_RISK_NOTIFY_SCORE || '30',
+  );
+  private readonly stepUpScore = parseInt(
+    process.env.LOGIN_RISK_STEP_UP_SCORE || '60',
+  );
+  private readonly maxTravelKmh = parseInt(
+    process.env.LOGIN_RISK_MAX_TRAVEL_KMH || '900',
+  );
+
+  constructor(
+    private prisma: PrismaService,
+    private geoIp: GeoIpService,
+    private emailService: EmailService,
+  ) {}
+
+  async assess(
+    user: { id: string; email: string; loginAttempts: number },
+    client?: ClientContext,
+  ): Promise<LoginRiskAssessment> {
+    const deviceHash = crypto
+      .createHash('sha256')
+      .update(client?.userAgent || '')
+      .digest('hex');
+    const ipPrefix = getNetworkPrefix(client?.ip);
+    const location = this.geoIp.lookup(client?.ip);
+
+    const history = await this.prisma.loginRiskEvent.findMany({
+      where: { userId: user.id, completedAt: { not: null } },
+      orderBy: { completedAt: 'desc' },
+      take: HISTORY_SIZE,
+    });
+
+    const factors: LoginRiskFactor[] = [];
+
+    // A first login has nothing to be compared against
+    if (history.length) {
+      if (!history.some((event) => event.deviceHash === deviceHash)) {
+        factors.push('new_device');
+      }
+
+      if (ipPrefix && !history.some((event) => event.ipPrefix === ipPrefix)) {
+        factors.push('new_network');
+      }
+
+      if (
+        location &&
+        history.some((event) => event.country) &&
+        !history.some((event) => event.country === location.country)
+      ) {
+        factors.push('new_country');
+      }
+
+      if (location && this.isImpossibleTravel(history, location)) {
+        factors.push('impossible_travel');
+      }
+    }
+
+    // The counter still holds failures from before this attempt
+    if (user.loginAttempts >= 3) {
+      factors.push('recent_failures');
+    }
+
+    const score = Math.min(
+      100,
+      factors.reduce((total, factor) => total + FACTOR_WEIGHTS[factor], 0),
+    );
+    const decision: LoginRiskDecision =
+      score >= this.stepUpScore
+        ? 'STEP_UP'
+        : score >= this.notifyScore
+          ? 'NOTIFY'
+          : 'ALLOW';
+
+    const event = await this.prisma.loginRiskEvent.create({
+      data: {
+        userId: user.id,
+        score,
+        decision,
+        factors,
+        ipAddress: client?.ip,
+        userAgent: client?.userAgent,
+        deviceHash,
+        ipPrefix,
+        country: location?.country,
+        city: location?.city,
+        latitude: location?.latitude,
+        longitude: location?.longitude,
+      },
+    });
+
+    if (decision !== 'ALLOW') {
+      await this.sendAlert(user.email, client);
+    }
+
+    return { eventId: event.id, score, decision, factors };
+  }
+
+  // Called once the login produced a session, making it part of the history
+  async complete(eventId: string): Promise<void> {
+    await this.prisma.loginRiskEvent.updateMany({
+      where: { id: eventId, completedAt: null },
+      data: { completedAt: new Date() },
+    });
+  }
+
+  async listEvents(userId: string, skip = 0, take = 20) {
+    return this.prisma.loginRiskEvent.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        score: true,
+        decision: true,
+        factors: true,
+        ipAddress: true,
+        userAgent: true,
+        country: true,
+        city: true,
+        completedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: Number(skip),
+      take: Math.min(Number(take), 100),
+    });
+  }
+
+  private isImpossibleTravel(
+    history: {
+      latitude: number | null;
+      longitude: number | null;
+      completedAt: Date | null;
+    }[],
+    location: GeoLocation,
+  ): boolean {
+    const previous = history.find((event) => event.latitude !== null);
+
+    if (!previous) {
+      return false;
+    }
+
+    const distanceKm = haversineKm(
+      previous.latitude,
+      previous.longitude,
+      location.latitude,
+      location.longitude,
+    );
+
+    if (distanceKm < MIN_TRAVEL_KM) {
+      return false;
+    }
+
+    // At least a minute, so back-to-back logins do not divide by zero
+    const hours = Math.max(
+      (Date.now() - previous.completedAt.getTime()) / 3_600_000,
+      1 / 60,
+    );
+
+    return distanceKm / hours > this.maxTravelKmh;
+  }
+
+  private async sendAlert(email: string, client?: ClientContext) {
+    try {
+      await this.emailService.sendSuspiciousLoginAlert(
+        email,
+        client?.ip || 'unknown',
+        client?.userAgent || 'unknown',
+      );
+    } catch (error) {
+      // The decision stands even when the alert cannot be delivered
+      this.logger.error(
+        `Failed to send suspicious login alert: ${error.message}`,
+      );
+    }
+  }
+}
+
+// /24 for IPv4, /48 for IPv6
+function getNetworkPrefix(ip?: string): string | null {
+  const address = ip?.startsWith('::ffff:') ? ip.slice(7) : ip;
+
+  if (!address) {
+    return null;
+  }
+
+  if (net.isIPv4(address)) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+
+  if (net.isIPv6(address)) {
+    const [head, tail = ''] = address.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups = [
+      ...headGroups,
+      ...Array(8 - headGroups.length - tailGroups.length).fill('0'),
+      ...tailGroups,
+    ];
+
+    return `${groups.slice(0, 3).join(':')}::/48`;
+  }
+
+  return null;
+}
+
+function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
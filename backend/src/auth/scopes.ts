@@ -0,0 +1,38 @@
+import { Permission } from '../permissions/permissions';
+
+// Scopes grantable to scoped tokens (API keys, service accounts). Routes opt
+// in with @Scopes(); routes without it (sessions, 2FA, credential
+// management...) reject scoped tokens.
+export const TOKEN_SCOPES = [
+  'users:read',
+  'users:write',
+  'companies:read',
+  'invitations:read',
+  'invitations:write',
+  'storage:read',
+  'storage:write',
+] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+// Everything a service account may do. Unlike API keys, which only narrow
+// their owner's permissions, service accounts get their permissions from
+// their scopes alone, so routes reserved to a BOSS stay closed to them. Role
+// changes are never delegated to them.
+export const SCOPE_PERMISSIONS: Record<TokenScope, readonly Permission[]> = {
+  'users:read': ['users:read'],
+  'users:write': ['users:deactivate'],
+  'companies:read': ['companies:read'],
+  'invitations:read': ['invitations:read'],
+  'invitations:write': ['invitations:write'],
+  'storage:read': ['storage:read'],
+  'storage:write': ['storage:write', 'storage:delete'],
+};
+
+// Internal scope of the restricted token handed to users who are past their
+// company's 2FA enrollment deadline. Not grantable to API keys.
+export const TWO_FA_ENROLLMENT_SCOPE = '2fa:enroll';
+
+// Internal scope of the restricted token handed to users whose password is
+// older than PASSWORD_MAX_AGE_DAYS. Not grantable to API keys.
+export const PASSWORD_CHANGE_SCOPE = 'password:change';
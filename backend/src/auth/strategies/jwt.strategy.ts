@@ -1,32 +1,128 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
-import { JwtPayload } from '../interfaces/auth.interface';
+import { AuthenticatedUser, JwtPayload } from '../interfaces/auth.interface';
 import { UsersService } from '../../users/users.service';
+import { PermissionsService } from '../../permissions/permissions.service';
+import {
+  JwtKeyringService,
+  SUPPORTED_ALGORITHMS,
+} from '../keys/jwt-keyring.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private usersService: UsersService) {
+  constructor(
+    private usersService: UsersService,
+    private permissionsService: PermissionsService,
+    keyring: JwtKeyringService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: process.env.JWT_SECRET,
+      algorithms: SUPPORTED_ALGORITHMS,
+      // Pick the public key matching the token's kid
+      secretOrKeyProvider: (_req, rawJwtToken, done) => {
+        const key = keyring.getVerificationKey(rawJwtToken);
+        done(
+          key ? null : new UnauthorizedException('Unknown signing key'),
+          key,
+        );
+      },
     });
   }
 
-  async validate(payload: JwtPayload) {
+  async validate(
+    payload: JwtPayload & { temp?: boolean },
+  ): Promise<AuthenticatedUser> {
+    // Refresh, pending 2FA, unlock and device tokens are signed with the same
+    // keys but never authenticate a request
+    if (payload.type !== 'access' || payload.temp) {
+      throw new UnauthorizedException('Not an access token');
+    }
+
     const user = await this.usersService.findById(payload.sub);
 
     if (!user || !user.isActive) {
       throw new UnauthorizedException('User not found or inactive');
     }
 
+    if (payload.principal === 'service') {
+      return this.validateServicePrincipal(payload, user);
+    }
+
+    if (!payload.sid) {
+      throw new UnauthorizedException('Token is not bound to a session');
+    }
+
+    const session = await this.usersService.findActiveSession(
+      payload.sid,
+      user.id,
+    );
+
+    if (!session) {
+      throw new UnauthorizedException('Session revoked or expired');
+    }
+
+    await this.usersService.touchSession(session);
+
+    if (payload.eg) {
+      const elevation = await this.permissionsService.getElevation(user.id);
+
+      if (elevation?.grantId !== payload.eg) {
+        throw new UnauthorizedException(
+          'Elevation has ended, refresh the token',
+        );
+      }
+    }
+
     return {
       userId: user.id,
       email: user.email,
       username: user.username,
       role: user.role,
       isTwoFAEnabled: user.isTwoFAEnabled,
+      isEmailVerified: user.isEmailVerified,
+      companyId: user.companyId,
+      sessionId: session.id,
+      ...(payload.eg && { elevationGrantId: payload.eg }),
+      // Only set on the restricted token of users overdue on 2FA enrollment
+      ...(payload.scope && { scopes: payload.scope.split(' ') }),
+    };
+  }
+
+  // Service tokens are sessionless; they live as long as the account does
+  private async validateServicePrincipal(
+    payload: JwtPayload,
+    user: {
+      id: string;
+      email: string;
+      username: string;
+      role: string;
+      companyId: string | null;
+    },
+  ): Promise<AuthenticatedUser> {
+    const serviceAccount = await this.usersService.findActiveServiceAccount(
+      payload.sa,
+      user.id,
+    );
+
+    if (!serviceAccount) {
+      throw new UnauthorizedException('Service account revoked');
+    }
+
+    return {
+      userId: user.id,
+      email: user.email,
+      username: user.username,
+      role: user.role,
+      isEmailVerified: true,
+      companyId: user.companyId,
+      principalType: 'service',
+      serviceAccountId: serviceAccount.id,
+      // Never more than currently granted, even if the token claims more
+      scopes: (payload.scope || '')
+        .split(' ')
+        .filter((scope) => serviceAccount.scopes.includes(scope)),
     };
   }
 }
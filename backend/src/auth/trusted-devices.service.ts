@@ -0,0 +1,184 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { JwtKeyringService } from './keys/jwt-keyring.service';
+import { fingerprintClient } from './fingerprint';
+import { ClientContext } from '../common/decorators/client.decorator';
+import { AuditService } from '../audit/audit.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TRUSTED_DEVICES = 10;
+
+const TRUSTED_DEVICE_SELECT = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+/**
+ * "Remember this browser" for 2FA. The client keeps a signed device token;
+ * the database row makes it revocable. A token only counts when presented by
+ * the same client fingerprint it was issued to.
+ */
+@Injectable()
+export class TrustedDevicesService {
+  private readonly trustDays = parseInt(
+    process.env.TRUSTED_DEVICE_DAYS || '30',
+  );
+
+  constructor(
+    private prisma: PrismaService,
+    private keyring: JwtKeyringService,
+    private auditService: AuditService,
+  ) {}
+
+  get isEnabled(): boolean {
+    return this.trustDays > 0;
+  }
+
+  async trustDevice(userId: string, client?: ClientContext) {
+    const expiresAt = new Date(Date.now() + this.trustDays * DAY_MS);
+
+    await this.prisma.trustedDevice.deleteMany({
+      where: { userId, expiresAt: { lt: new Date() } },
+    });
+
+    const device = await this.prisma.trustedDevice.create({
+      data: {
+        userId,
+        fingerprint: fingerprintClient(client),
+        userAgent: client?.userAgent,
+        ipAddress: client?.ip,
+        expiresAt,
+      },
+    });
+
+    // Keep the newest devices only
+    const stale = await this.prisma.trustedDevice.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: MAX_TRUSTED_DEVICES,
+      select: { id: true },
+    });
+
+    if (stale.length) {
+      await this.prisma.trustedDevice.deleteMany({
+        where: { id: { in: stale.map((entry) => entry.id) } },
+      });
+    }
+
+    await this.auditService.logUserAudit(
+      userId,
+      'TRUSTED_DEVICE_ADDED',
+      `trusted_device:${device.id}`,
+      { expiresAt },
+      client,
+    );
+
+    const deviceToken = this.keyring.sign(
+      { sub: userId, did: device.id, type: 'trusted_device' },
+      this.trustDays * 24 * 60 * 60,
+    );
+
+    return { deviceToken, expiresAt };
+  }
+
+  // True when the token was issued to this user and client and not revoked
+  async consumeDeviceToken(
+    userId: string,
+    deviceToken: string,
+    client?: ClientContext,
+  ): Promise<boolean> {
+    let decoded: { sub?: string; did?: string; type?: string };
+
+    try {
+      decoded = this.keyring.verify(deviceToken);
+    } catch {
+      return false;
+    }
+
+    if (decoded.type !== 'trusted_device' || decoded.sub !== userId) {
+      return false;
+    }
+
+    const device = await this.prisma.trustedDevice.findFirst({
+      where: {
+        id: decoded.did,
+        userId,
+        fingerprint: fingerprintClient(client),
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    if (!device) {
+      return false;
+    }
+
+    await this.prisma.trustedDevice.update({
+      where: { id: device.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    await this.auditService.logUserAudit(
+      userId,
+      'TRUSTED_DEVICE_USED',
+      `trusted_device:${device.id}`,
+      null,
+      client,
+    );
+
+    return true;
+  }
+
+  async listDevices(userId: string) {
+    return this.prisma.trustedDevice.findMany({
+      where: { userId, expiresAt: { gt: new Date() } },
+      select: TRUSTED_DEVICE_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revokeDevice(userId: string, deviceId: string, client?: ClientContext) {
+    const result = await this.prisma.trustedDevice.deleteMany({
+      where: { id: deviceId, userId },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException('Trusted device not found');
+    }
+
+    await this.auditService.logUserAudit(
+      userId,
+      'TRUSTED_DEVICE_REVOKED',
+      `trusted_device:${deviceId}`,
+      null,
+      client,
+    );
+
+    return { message: 'Trusted device revoked successfully' };
+  }
+
+  async revokeAllDevices(
+    userId: string,
+    reason: string,
+    client?: ClientContext,
+  ) {
+    const result = await this.prisma.trustedDevice.deleteMany({
+      where: { userId },
+    });
+
+    if (result.count > 0) {
+      await this.auditService.logUserAudit(
+        userId,
+        'TRUSTED_DEVICES_REVOKED',
+        'user',
+        { count: result.count, reason },
+        client,
+      );
+    }
+
+    return { revoked: result.count };
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  Request,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { AuthzService } from './authz.service';
+import { POLICIES } from './policies';
+import { ExplainQueryDto } from './dto/explain.dto';
+import { Client, ClientContext } from '../common/decorators/client.decorator';
+
+@Controller('authz')
+@UseGuards(JwtAuthGuard)
+export class AuthzController {
+  constructor(
+    private authzService: AuthzService,
+    private permissionsService: PermissionsService,
+    private prisma: PrismaService,
+  ) {}
+
+  @Get('policies')
+  getPolicies() {
+    return POLICIES.map(({ id, description, effect, actions }) => ({
+      id,
+      description,
+      effect,
+      actions,
+    }));
+  }
+
+  // Why `action` on the resource is allowed or denied, and by which policy
+  @Get('explain')
+  async explain(
+    @Query() query: ExplainQueryDto,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    const principal = await this.getPrincipal(req.user, query.subjectId);
+    const decision = await this.authzService.check(
+      principal,
+      query.action,
+      query.resourceId,
+      client,
+    );
+
+    if (!decision) {
+      throw new NotFoundException('Resource not found');
+    }
+
+    return {
+      subject: {
+        id: principal.userId,
+        role: principal.role,
+        companyId: principal.companyId,
+      },
+      ...decision,
+    };
+  }
+
+  private async getPrincipal(
+    user: { userId: string; role: string; companyId: string | null },
+    subjectId?: string,
+  ) {
+    if (!subjectId || subjectId === user.userId) {
+      return user;
+    }
+
+    const isPlatformAdmin = await this.permissionsService.hasPermissions(
+      user.userId,
+      ['platform:admin'],
+    );
+
+    if (!isPlatformAdmin) {
+      throw new ForbiddenException(
+        'Only platform admins can explain decisions for other users',
+      );
+    }
+
+    const subject = await this.prisma.user.findUnique({
+      where: { id: subjectId },
+      select: { id: true, role: true, companyId: true },
+    });
+
+    if (!subject) {
+      throw new NotFoundException('User not found');
+    }
+
+    return {
+      userId: subject.id,
+      role: subject.role,
+      companyId: subject.companyId,
+    };
+  }
+}
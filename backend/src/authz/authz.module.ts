@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AuthzService } from './authz.service';
+import { AuthzController } from './authz.controller';
+import { AuthzGuard } from '../auth/guards/authz.guard';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [AuthzController],
+  providers: [AuthzService, AuthzGuard],
+  exports: [AuthzService, AuthzGuard],
+})
+export class AuthzModule {}
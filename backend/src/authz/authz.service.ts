@@ -0,0 +1,188 @@
+import {
+  Injectable,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { runWithTenant } from '../prisma/tenant-context';
+import { POLICIES } from './policies';
+import {
+  ContextAttributes,
+  PolicyDecision,
+  PolicyRequest,
+  ResourceAttributes,
+  ResourceType,
+  SubjectAttributes,
+} from './interfaces/policy.interface';
+import { ClientContext } from '../common/decorators/client.decorator';
+
+type Principal = { userId: string; role: string; companyId: string | null };
+
+/**
+ * Evaluates the policies in ./policies.ts. AuthzGuard uses it for routes
+ * marked with @Authorize(); business logic can call check() or assert().
+ */
+@Injectable()
+export class AuthzService {
+  constructor(
+    private prisma: PrismaService,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  evaluate(request: PolicyRequest): PolicyDecision {
+    const applicable = POLICIES.filter((policy) =>
+      policy.actions.includes(request.action),
+    );
+    const evaluated = applicable.map((policy) => ({
+      policy,
+      matched: policy.condition(request),
+    }));
+
+    const deny = evaluated.find(
+      ({ policy, matched }) => matched && policy.effect === 'deny',
+    );
+    const allow = evaluated.find(
+      ({ policy, matched }) => matched && policy.effect === 'allow',
+    );
+    const decidedBy = deny?.policy || allow?.policy || null;
+
+    return {
+      allowed: !deny && !!allow,
+      action: request.action,
+      resource: { type: request.resource.type, id: request.resource.id },
+      decidedBy: decidedBy?.id || null,
+      reason: decidedBy
+        ? decidedBy.description
+        : `No policy allows ${request.action}`,
+      evaluated: evaluated.map(({ policy, matched }) => ({
+        policy: policy.id,
+        effect: policy.effect,
+        matched,
+      })),
+    };
+  }
+
+  // null when the resource does not exist or is invisible to the principal
+  async check(
+    principal: Principal,
+    action: string,
+    resourceId: string,
+    client?: ClientContext,
+  ): Promise<PolicyDecision | null> {
+    const subject = await this.getSubject(principal);
+    const resource = await this.loadResource(subject, action, resourceId);
+
+    if (!resource) {
+      return null;
+    }
+
+    return this.evaluate({
+      subject,
+      action,
+      resource,
+      context: this.getContext(client),
+    });
+  }
+
+  async assert(
+    principal: Principal,
+    action: string,
+    resourceId: string,
+    client?: ClientContext,
+  ) {
+    const decision = await this.check(principal, action, resourceId, client);
+
+    if (!decision) {
+      throw new NotFoundException('Resource not found');
+    }
+
+    if (!decision.allowed) {
+      throw new ForbiddenException(`Access denied: ${decision.reason}`);
+    }
+
+    return decision;
+  }
+
+  async getSubject(principal: Principal): Promise<SubjectAttributes> {
+    const elevation = await this.permissionsService.getElevation(
+      principal.userId,
+    );
+
+    return {
+      id: principal.userId,
+      // An elevated user acts with the granted role until the grant ends
+      role: elevation?.role ?? principal.role,
+      companyId: principal.companyId ?? null,
+      permissions: await this.permissionsService.getEffectivePermissions(
+        principal.userId,
+      ),
+    };
+  }
+
+  private getContext(client?: ClientContext): ContextAttributes {
+    return { ip: client?.ip, userAgent: client?.userAgent, time: new Date() };
+  }
+
+  // Looked up as the subject's tenant, so other companies' rows stay hidden
+  private async loadResource(
+    subject: SubjectAttributes,
+    action: string,
+    id: string,
+  ): Promise<ResourceAttributes | null> {
+    const type = action.split(':')[0] as ResourceType;
+    const load = () => this.findResource(type, id);
+
+    if (subject.permissions.has('platform:admin')) {
+      return load();
+    }
+
+    return runWithTenant(
+      { companyId: subject.companyId, userId: subject.id },
+      load,
+    );
+  }
+
+  private async findResource(
+    type: ResourceType,
+    id: string,
+  ): Promise<ResourceAttributes | null> {
+    if (type === 'user') {
+      const user = await this.prisma.user.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          companyId: true,
+          createdBy: true,
+          company: { select: { ownerId: true } },
+        },
+      });
+
+      if (!user) {
+        return null;
+      }
+
+      return {
+        type,
+        id,
+        companyId: user.companyId,
+        ownerId: user.createdBy,
+        permissions: await this.permissionsService.getEffectivePermissions(id),
+        companyOwnerId: user.company?.ownerId ?? null,
+      };
+    }
+
+    if (type === 'file') {
+      const file = await this.prisma.storedFile.findUnique({
+        where: { id },
+        select: { id: true, companyId: true, uploadedBy: true },
+      });
+
+      return file
+        ? { type, id, companyId: file.companyId, ownerId: file.uploadedBy }
+        : null;
+    }
+
+    return null;
+  }
+}
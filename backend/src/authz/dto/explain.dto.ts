@@ -0,0 +1,15 @@
+import { IsString, IsOptional, IsIn } from 'class-validator';
+import { POLICY_ACTIONS } from '../policies';
+
+export class ExplainQueryDto {
+  @IsIn(POLICY_ACTIONS)
+  action: string;
+
+  @IsString()
+  resourceId: string;
+
+  // Explain the decision for another user; platform admins only
+  @IsOptional()
+  @IsString()
+  subjectId?: string;
+}
@@ -0,0 +1,53 @@
+import { Permission } from '../../permissions/permissions';
+
+// Actions are named `<resource type>:<verb>`
+export type ResourceType = 'user' | 'file';
+
+export interface SubjectAttributes {
+  id: string;
+  role: string;
+  companyId: string | null;
+  permissions: ReadonlySet<Permission>;
+}
+
+export interface ResourceAttributes {
+  type: ResourceType;
+  id: string;
+  companyId: string | null;
+  // Who created the user, or uploaded the file
+  ownerId: string | null;
+  // Users only: what the user may do, and who owns their company
+  permissions?: ReadonlySet<Permission>;
+  companyOwnerId?: string | null;
+}
+
+export interface ContextAttributes {
+  ip?: string;
+  userAgent?: string;
+  time: Date;
+}
+
+export interface PolicyRequest {
+  subject: SubjectAttributes;
+  action: string;
+  resource: ResourceAttributes;
+  context: ContextAttributes;
+}
+
+export interface Policy {
+  id: string;
+  description: string;
+  effect: 'allow' | 'deny';
+  actions: string[];
+  condition: (request: PolicyRequest) => boolean;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  action: string;
+  resource: { type: ResourceType; id: string };
+  // Policy that settled the decision; null when nothing allowed the action
+  decidedBy: string | null;
+  reason: string;
+  evaluated: { policy: string; effect: 'allow' | 'deny'; matched: boolean }[];
+}
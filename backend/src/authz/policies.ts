@@ -0,0 +1,138 @@
+import { Role } from '@prisma/client';
+import { Policy, PolicyRequest } from './interfaces/policy.interface';
+import { ROLE_PERMISSIONS } from '../permissions/permissions';
+
+const sameCompany = ({ subject, resource }: PolicyRequest) =>
+  subject.companyId !== null && subject.companyId === resource.companyId;
+
+// Like @Roles(): holding every permission of the role counts as the role
+const actsAs = (role: Role) => (request: PolicyRequest) =>
+  ROLE_PERMISSIONS[role].every((permission) =>
+    request.subject.permissions.has(permission),
+  ) && sameCompany(request);
+
+const isBossOfCompany = actsAs('BOSS');
+
+const isManagerOfCompany = actsAs('MANAGER');
+
+const isSelf = ({ subject, resource }: PolicyRequest) =>
+  subject.id === resource.id;
+
+const isOwner = ({ subject, resource }: PolicyRequest) =>
+  resource.ownerId !== null && subject.id === resource.ownerId;
+
+// The company owner outranks everyone in it; otherwise the subject must hold
+// every permission of the user and more. Unknown permissions never rank.
+const outranks = ({ subject, resource }: PolicyRequest) => {
+  if (resource.id === resource.companyOwnerId) {
+    return false;
+  }
+
+  if (resource.companyOwnerId && subject.id === resource.companyOwnerId) {
+    return true;
+  }
+
+  if (!resource.permissions) {
+    return false;
+  }
+
+  return (
+    subject.permissions.size > resource.permissions.size &&
+    [...resource.permissions].every((permission) =>
+      subject.permissions.has(permission),
+    )
+  );
+};
+
+/**
+ * Attribute-based rules evaluated by AuthzService. They refine, not replace,
+ * permissions: a route usually requires a permission and then a policy.
+ *
+ * A matching deny always wins; otherwise a matching allow grants the action.
+ * Actions no policy allows are denied.
+ */
+export const POLICIES: Policy[] = [
+  {
+    id: 'user.read.self',
+    description: 'Anyone may read their own user',
+    effect: 'allow',
+    actions: ['user:read'],
+    condition: isSelf,
+  },
+  {
+    id: 'user.read.same-company',
+    description: 'Members may read users of their own company',
+    effect: 'allow',
+    actions: ['user:read'],
+    condition: sameCompany,
+  },
+  {
+    id: 'user.update.self',
+    description: 'Users may only edit themselves',
+    effect: 'allow',
+    actions: ['user:update'],
+    condition: isSelf,
+  },
+  {
+    id: 'user.deactivate.boss',
+    description: 'A BOSS may (de)activate members of their company',
+    effect: 'allow',
+    actions: ['user:deactivate'],
+    condition: isBossOfCompany,
+  },
+  {
+    id: 'user.deactivate.creator',
+    description: 'Others may only (de)activate users they created',
+    effect: 'allow',
+    actions: ['user:deactivate'],
+    condition: (request) => sameCompany(request) && isOwner(request),
+  },
+  {
+    id: 'user.deactivate.not-self',
+    description: 'Nobody may (de)activate themselves',
+    effect: 'deny',
+    actions: ['user:deactivate'],
+    condition: isSelf,
+  },
+  {
+    id: 'user.deactivate.outranked',
+    description:
+      'Nobody may (de)activate the company owner or a user of equal or higher rank',
+    effect: 'deny',
+    actions: ['user:deactivate'],
+    condition: (request) => !outranks(request),
+  },
+  {
+    id: 'file.read.uploader',
+    description: 'The uploader may download a file',
+    effect: 'allow',
+    actions: ['file:read'],
+    condition: isOwner,
+  },
+  {
+    id: 'file.read.boss',
+    description: "A BOSS may download files of their company's members",
+    effect: 'allow',
+    actions: ['file:read'],
+    condition: isBossOfCompany,
+  },
+  {
+    id: 'file.delete.uploader',
+    description: 'The uploader may delete a file',
+    effect: 'allow',
+    actions: ['file:delete'],
+    condition: isOwner,
+  },
+  {
+    id: 'file.delete.manager',
+    description:
+      "A MANAGER or BOSS may delete files of their company's members",
+    effect: 'allow',
+    actions: ['file:delete'],
+    condition: isManagerOfCompany,
+  },
+];
+
+export const POLICY_ACTIONS = [
+  ...new Set(POLICIES.flatMap((policy) => policy.actions)),
+];
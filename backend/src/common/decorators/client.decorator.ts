@@ -0,0 +1,26 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+
+// Where a request came from, recorded in audit logs and risk checks
+export interface ClientContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export function extractClient(req: Request): ClientContext {
+  const forwardedFor = req.headers['x-forwarded-for'];
+
+  return {
+    ip:
+      req.ip ||
+      (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor) ||
+      req.socket?.remoteAddress,
+    userAgent: req.headers['user-agent'],
+  };
+}
+
+// Injects the ClientContext of the current request into a route handler
+export const Client = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): ClientContext =>
+    extractClient(context.switchToHttp().getRequest<Request>()),
+);
@@ -0,0 +1,50 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Observable, from } from 'rxjs';
+import { switchMap } from 'rxjs/operators';
+import { Request } from 'express';
+import { PermissionsService } from '../../permissions/permissions.service';
+import { AuthenticatedUser } from '../../auth/interfaces/auth.interface';
+import { runWithTenant } from '../../prisma/tenant-context';
+
+/**
+ * Runs authenticated handlers inside the caller's tenant context, which the
+ * Prisma tenant middleware uses to scope queries to their company. Guards run
+ * before interceptors, so authentication itself is never scoped.
+ *
+ * Platform admins work across companies and get no tenant context.
+ */
+@Injectable()
+export class TenantContextInterceptor implements NestInterceptor {
+  constructor(private permissionsService: PermissionsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const user = context.switchToHttp().getRequest<Request>().user as
+      | AuthenticatedUser
+      | undefined;
+
+    if (!user?.userId) {
+      return next.handle();
+    }
+
+    return from(
+      this.permissionsService.hasPermissions(user.userId, ['platform:admin']),
+    ).pipe(
+      switchMap((isPlatformAdmin) =>
+        isPlatformAdmin
+          ? next.handle()
+          : new Observable((subscriber) =>
+              // next.handle() binds the handler to the current async context
+              runWithTenant(
+                { companyId: user.companyId ?? null, userId: user.userId },
+                () => next.handle().subscribe(subscriber),
+              ),
+            ),
+      ),
+    );
+  }
+}
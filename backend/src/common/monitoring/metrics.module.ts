@@ -53,7 +53,18 @@ import { MetricsService } from './metrics.service';
     makeCounterProvider({
       name: 'twofa_failures_total',
       help: 'Total number of failed 2FA attempts',
-      labelNames: ['type'],
+      labelNames: ['type', 'reason'],
+    }),
+    // Lockout Metrics
+    makeCounterProvider({
+      name: 'account_lockouts_total',
+      help: 'Total number of account lockouts by escalation level',
+      labelNames: ['level'],
+    }),
+    makeCounterProvider({
+      name: 'account_unlocks_total',
+      help: 'Total number of account unlocks',
+      labelNames: ['method'],
     }),
     // System Metrics
     makeGaugeProvider({
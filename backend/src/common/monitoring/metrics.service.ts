@@ -17,6 +17,10 @@ export class MetricsService {
     public twofaAttemptsTotal: Counter<string>,
     @InjectMetric('twofa_failures_total')
     public twofaFailuresTotal: Counter<string>,
+    @InjectMetric('account_lockouts_total')
+    public accountLockoutsTotal: Counter<string>,
+    @InjectMetric('account_unlocks_total')
+    public accountUnlocksTotal: Counter<string>,
     @InjectMetric('active_sessions') public activeSessions: Gauge<string>,
     @InjectMetric('db_connections') public dbConnections: Gauge<string>,
     @InjectMetric('api_errors_total') public apiErrorsTotal: Counter<string>,
@@ -52,17 +56,31 @@ export class MetricsService {
     }
   }
 
-  record2FAAttempt(success: boolean, type: 'totp' | 'backup') {
+  record2FAAttempt(
+    success: boolean,
+    type: 'totp' | 'backup' | 'email',
+    reason?: 'invalid_code' | 'replay' | 'locked',
+  ) {
     this.twofaAttemptsTotal.inc({
       type,
       status: success ? 'success' : 'failure',
     });
 
     if (!success) {
-      this.twofaFailuresTotal.inc({ type });
+      this.twofaFailuresTotal.inc({ type, reason: reason || 'unknown' });
     }
   }
 
+  // Escalation level of the lockout; repeated high levels point at an attack
+  // on a single account
+  recordAccountLockout(level: number) {
+    this.accountLockoutsTotal.inc({ level: level >= 5 ? '5+' : String(level) });
+  }
+
+  recordAccountUnlock(method: 'email_link' | 'password_reset') {
+    this.accountUnlocksTotal.inc({ method });
+  }
+
   recordError(endpoint: string, errorType: string) {
     this.apiErrorsTotal.inc({
       endpoint,
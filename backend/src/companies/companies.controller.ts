@@ -0,0 +1,120 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import { CompaniesService } from './companies.service';
+import {
+  CreateCompanyDto,
+  RenameCompanyDto,
+  UpdateTwoFAPolicyDto,
+} from './dto/company.dto';
+import { JwtAuthGuard, Scopes } from '../auth/guards/auth.guard';
+import { Roles, RolesGuard } from '../auth/guards/roles.guard';
+import { Client, ClientContext } from '../common/decorators/client.decorator';
+
+@Controller('companies')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CompaniesController {
+  constructor(private companiesService: CompaniesService) {}
+
+  @Post()
+  @Roles('BOSS')
+  @HttpCode(HttpStatus.CREATED)
+  async createCompany(
+    @Request() req,
+    @Body() dto: CreateCompanyDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.companiesService.createCompany(req.user.userId, dto, client);
+  }
+
+  @Get(':id')
+  @Roles('BOSS')
+  @Scopes('companies:read')
+  async getCompany(@Param('id') id: string, @Request() req) {
+    return this.companiesService.getCompany(id, req.user.userId);
+  }
+
+  @Patch(':id')
+  @Roles('BOSS')
+  async renameCompany(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() dto: RenameCompanyDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.companiesService.renameCompany(
+      id,
+      req.user.userId,
+      dto,
+      client,
+    );
+  }
+
+  @Patch(':id/deactivate')
+  @Roles('BOSS')
+  async deactivateCompany(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.companiesService.deactivateCompany(id, req.user.userId, client);
+  }
+
+  @Patch(':id/activate')
+  @Roles('BOSS')
+  async activateCompany(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.companiesService.activateCompany(id, req.user.userId, client);
+  }
+
+  @Get(':id/employees')
+  @Roles('BOSS')
+  @Scopes('companies:read')
+  async getEmployees(
+    @Param('id') id: string,
+    @Request() req,
+    @Query('skip', new DefaultValuePipe(0), ParseIntPipe) skip: number,
+    @Query('take', new DefaultValuePipe(20), ParseIntPipe) take: number,
+  ) {
+    return this.companiesService.getEmployees(id, req.user.userId, skip, take);
+  }
+
+  @Put(':id/2fa-policy')
+  @Roles('BOSS')
+  async updateTwoFAPolicy(
+    @Param('id') id: string,
+    @Request() req,
+    @Body() dto: UpdateTwoFAPolicyDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.companiesService.updateTwoFAPolicy(
+      id,
+      req.user.userId,
+      dto,
+      client,
+    );
+  }
+
+  @Get(':id/2fa-compliance')
+  @Roles('BOSS')
+  @Scopes('companies:read')
+  async getTwoFACompliance(@Param('id') id: string, @Request() req) {
+    return this.companiesService.getTwoFACompliance(id, req.user.userId);
+  }
+}
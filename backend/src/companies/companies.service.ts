@@ -0,0 +1,345 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateCompanyDto,
+  RenameCompanyDto,
+  UpdateTwoFAPolicyDto,
+} from './dto/company.dto';
+import { getTwoFACompliance } from '../2fa/2fa-policy';
+import { ClientContext } from '../common/decorators/client.decorator';
+import { AuditService } from '../audit/audit.service';
+
+const COMPANY_SELECT = {
+  id: true,
+  name: true,
+  isActive: true,
+  twoFAPolicy: true,
+  twoFAGraceDays: true,
+  twoFAPolicySetAt: true,
+  createdAt: true,
+  updatedAt: true,
+  owner: {
+    select: {
+      id: true,
+      email: true,
+      username: true,
+    },
+  },
+  _count: {
+    select: { employees: true },
+  },
+};
+
+@Injectable()
+export class CompaniesService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  async createCompany(
+    ownerId: string,
+    dto: CreateCompanyDto,
+    client?: ClientContext,
+  ) {
+    const owner = await this.prisma.user.findUnique({
+      where: { id: ownerId },
+    });
+
+    if (!owner) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (owner.companyId) {
+      throw new ConflictException('You already belong to a company');
+    }
+
+    const existing = await this.prisma.company.findUnique({
+      where: { name: dto.name },
+    });
+
+    if (existing) {
+      throw new ConflictException('Company name already exists');
+    }
+
+    // The owner is also the first member of the company
+    const company = await this.prisma.company.create({
+      data: {
+        name: dto.name,
+        owner: { connect: { id: ownerId } },
+        employees: { connect: { id: ownerId } },
+      },
+      select: COMPANY_SELECT,
+    });
+
+    await this.auditService.logCompanyAudit(
+      company.id,
+      'COMPANY_CREATED',
+      'company',
+      ownerId,
+      { name: company.name },
+      client,
+    );
+
+    return company;
+  }
+
+  async getCompany(companyId: string, userId: string) {
+    await this.assertCompanyBoss(companyId, userId);
+
+    return this.prisma.company.findUnique({
+      where: { id: companyId },
+      select: COMPANY_SELECT,
+    });
+  }
+
+  async renameCompany(
+    companyId: string,
+    userId: string,
+    dto: RenameCompanyDto,
+    client?: ClientContext,
+  ) {
+    const company = await this.assertCompanyBoss(companyId, userId);
+
+    if (company.name === dto.name) {
+      throw new BadRequestException('Company already has this name');
+    }
+
+    const existing = await this.prisma.company.findUnique({
+      where: { name: dto.name },
+    });
+
+    if (existing) {
+      throw new ConflictException('Company name already exists');
+    }
+
+    const updated = await this.prisma.company.update({
+      where: { id: companyId },
+      data: { name: dto.name },
+      select: COMPANY_SELECT,
+    });
+
+    await this.auditService.logCompanyAudit(
+      companyId,
+      'COMPANY_RENAMED',
+      'company',
+      userId,
+      { from: company.name, to: dto.name },
+      client,
+    );
+
+    return updated;
+  }
+
+  async deactivateCompany(
+    companyId: string,
+    userId: string,
+    client?: ClientContext,
+  ) {
+    return this.setCompanyActive(companyId, userId, false, client);
+  }
+
+  async activateCompany(
+    companyId: string,
+    userId: string,
+    client?: ClientContext,
+  ) {
+    return this.setCompanyActive(companyId, userId, true, client);
+  }
+
+  async getEmployees(companyId: string, userId: string, skip = 0, take = 20) {
+    await this.assertCompanyBoss(companyId, userId);
+
+    const where = { companyId, isServiceAccount: false };
+
+    const [employees, total] = await Promise.all([
+      this.prisma.user.findMany({
+        where,
+        skip,
+        take,
+        select: {
+          id: true,
+          email: true,
+          username: true,
+          firstName: true,
+          lastName: true,
+          role: true,
+          isActive: true,
+          isTwoFAEnabled: true,
+          lastLogin: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    return { employees, total, skip, take };
+  }
+
+  async updateTwoFAPolicy(
+    companyId: string,
+    userId: string,
+    dto: UpdateTwoFAPolicyDto,
+    client?: ClientContext,
+  ) {
+    const company = await this.assertCompanyBoss(companyId, userId);
+    const gracePeriodDays = dto.gracePeriodDays ?? company.twoFAGraceDays;
+
+    const updated = await this.prisma.company.update({
+      where: { id: companyId },
+      data: {
+        twoFAPolicy: dto.policy,
+        twoFAGraceDays: gracePeriodDays,
+        // The grace period restarts whenever the policy changes
+        twoFAPolicySetAt: new Date(),
+      },
+      select: COMPANY_SELECT,
+    });
+
+    await this.auditService.logCompanyAudit(
+      companyId,
+      '2FA_POLICY_UPDATED',
+      'company',
+      userId,
+      {
+        from: company.twoFAPolicy,
+        to: dto.policy,
+        gracePeriodDays,
+      },
+      client,
+    );
+
+    return updated;
+  }
+
+  // Members the policy applies to who have not enabled 2FA yet
+  async getTwoFACompliance(companyId: string, userId: string) {
+    const company = await this.assertCompanyBoss(companyId, userId);
+
+    const members = await this.prisma.user.findMany({
+      where: { companyId, isActive: true, isServiceAccount: false },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+        isTwoFAEnabled: true,
+        twoFAEnrollmentRequired: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const now = new Date();
+    const required = members
+      .map((member) => ({
+        member,
+        compliance: getTwoFACompliance(company, member, now),
+      }))
+      .filter(({ compliance }) => compliance.required);
+
+    const nonCompliant = required
+      .filter(({ compliance }) => compliance.status !== 'compliant')
+      .map(({ member, compliance }) => ({
+        id: member.id,
+        email: member.email,
+        username: member.username,
+        role: member.role,
+        status: compliance.status,
+        enrollBy: compliance.enrollBy,
+      }));
+
+    return {
+      policy: company.twoFAPolicy,
+      gracePeriodDays: company.twoFAGraceDays,
+      policySetAt: company.twoFAPolicySetAt,
+      totalRequired: required.length,
+      enrolled: required.length - nonCompliant.length,
+      nonCompliant,
+    };
+  }
+
+  // Only the owner or a (possibly elevated) BOSS of the company may manage it
+  async assertCompanyBoss(companyId: string, userId: string) {
+    const company = await this.prisma.company.findUnique({
+      where: { id: companyId },
+    });
+
+    if (!company) {
+      throw new NotFoundException('Company not found');
+    }
+
+    if (company.ownerId === userId) {
+      return company;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, companyId: true },
+    });
+
+    if (!user || user.companyId !== companyId) {
+      throw new ForbiddenException('You do not manage this company');
+    }
+
+    if (user.role === 'BOSS') {
+      return company;
+    }
+
+    // Temporarily a BOSS through an approved elevation grant
+    const elevation = await this.prisma.elevationGrant.findFirst({
+      where: {
+        userId,
+        companyId,
+        role: 'BOSS',
+        status: 'ACTIVE',
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    if (!elevation) {
+      throw new ForbiddenException('You do not manage this company');
+    }
+
+    return company;
+  }
+
+  private async setCompanyActive(
+    companyId: string,
+    userId: string,
+    isActive: boolean,
+    client?: ClientContext,
+  ) {
+    const company = await this.assertCompanyBoss(companyId, userId);
+
+    if (company.isActive === isActive) {
+      throw new BadRequestException(
+        `Company is already ${isActive ? 'active' : 'inactive'}`,
+      );
+    }
+
+    const updated = await this.prisma.company.update({
+      where: { id: companyId },
+      data: { isActive },
+      select: COMPANY_SELECT,
+    });
+
+    await this.auditService.logCompanyAudit(
+      companyId,
+      isActive ? 'COMPANY_REACTIVATED' : 'COMPANY_DEACTIVATED',
+      'company',
+      userId,
+      null,
+      client,
+    );
+
+    return updated;
+  }
+}
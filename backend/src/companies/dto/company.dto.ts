@@ -0,0 +1,37 @@
+import {
+  IsString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  MinLength,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { TwoFAPolicy } from '@prisma/client';
+
+export class CreateCompanyDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name: string;
+}
+
+export class RenameCompanyDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name: string;
+}
+
+export class UpdateTwoFAPolicyDto {
+  @IsEnum(TwoFAPolicy)
+  policy: TwoFAPolicy;
+
+  // Days affected users get to enroll before their login is restricted
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(90)
+  gracePeriodDays?: number;
+}
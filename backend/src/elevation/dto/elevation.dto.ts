@@ -0,0 +1,25 @@
+import {
+  IsString,
+  IsInt,
+  IsIn,
+  IsOptional,
+  MinLength,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class RequestElevationDto {
+  @IsString()
+  @MinLength(10)
+  @MaxLength(500)
+  reason: string;
+
+  // Capped by ELEVATION_MAX_MINUTES
+  @IsInt()
+  @Min(5)
+  durationMinutes: number;
+
+  @IsOptional()
+  @IsIn(['BOSS', 'MANAGER'])
+  role?: 'BOSS' | 'MANAGER';
+}
@@ -0,0 +1,77 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ElevationService } from './elevation.service';
+import { RequestElevationDto } from './dto/elevation.dto';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { Roles, RolesGuard } from '../auth/guards/roles.guard';
+import { Client, ClientContext } from '../common/decorators/client.decorator';
+
+@Controller('elevations')
+@UseGuards(JwtAuthGuard)
+export class ElevationController {
+  constructor(private elevationService: ElevationService) {}
+
+  @Post()
+  async requestElevation(
+    @Body() dto: RequestElevationDto,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.elevationService.requestElevation(req.user, dto, client);
+  }
+
+  @Get()
+  async listOwn(@Request() req) {
+    return this.elevationService.listOwn(req.user.userId);
+  }
+
+  @Get('pending')
+  @UseGuards(RolesGuard)
+  @Roles('BOSS')
+  async listPending(@Request() req) {
+    return this.elevationService.listPending(req.user);
+  }
+
+  @Post(':id/approve')
+  @UseGuards(RolesGuard)
+  @Roles('BOSS')
+  @HttpCode(HttpStatus.OK)
+  async approve(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.elevationService.approve(id, req.user, client);
+  }
+
+  @Post(':id/deny')
+  @UseGuards(RolesGuard)
+  @Roles('BOSS')
+  @HttpCode(HttpStatus.OK)
+  async deny(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.elevationService.deny(id, req.user, client);
+  }
+
+  @Post(':id/revoke')
+  @HttpCode(HttpStatus.OK)
+  async revoke(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.elevationService.revoke(id, req.user, client);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { ElevationService } from './elevation.service';
+import { ElevationController } from './elevation.controller';
+import { ElevationExpiryProcessor } from './processors/elevation-expiry.processor';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CompaniesModule } from '../companies/companies.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    CompaniesModule,
+    BullModule.registerQueue({ name: 'elevation' }),
+  ],
+  controllers: [ElevationController],
+  providers: [ElevationService, ElevationExpiryProcessor],
+  exports: [ElevationService],
+})
+export class ElevationModule {}
@@ -0,0 +1,352 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { ROLE_PERMISSIONS } from '../permissions/permissions';
+import { RequestElevationDto } from './dto/elevation.dto';
+import { ClientContext } from '../common/decorators/client.decorator';
+import { AuditService, AuditMetadata } from '../audit/audit.service';
+
+type Actor = { userId: string; companyId: string | null };
+
+export interface ExpireGrantJob {
+  grantId: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const GRANT_SELECT = {
+  id: true,
+  role: true,
+  reason: true,
+  durationMinutes: true,
+  status: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  expiresAt: true,
+  revokedBy: true,
+  revokedAt: true,
+  createdAt: true,
+  user: {
+    select: { id: true, email: true, username: true, role: true },
+  },
+};
+
+/**
+ * Just-in-time elevation: a company member asks for a role for a stated
+ * reason and duration, another BOSS of the company approves, and a delayed
+ * job on the elevation queue ends the grant when it runs out.
+ *
+ * While a grant is active PermissionsService adds the role's permissions to
+ * the user's own, and access tokens issued meanwhile carry the grant id.
+ */
+@Injectable()
+export class ElevationService {
+  private readonly maxMinutes = parseInt(
+    process.env.ELEVATION_MAX_MINUTES || '480',
+  );
+
+  constructor(
+    @InjectQueue('elevation') private elevationQueue: Queue,
+    private prisma: PrismaService,
+    private permissionsService: PermissionsService,
+    private auditService: AuditService,
+  ) {}
+
+  async requestElevation(
+    actor: Actor,
+    dto: RequestElevationDto,
+    client?: ClientContext,
+  ) {
+    if (!actor.companyId) {
+      throw new BadRequestException('You do not belong to a company');
+    }
+
+    if (dto.durationMinutes > this.maxMinutes) {
+      throw new BadRequestException(
+        `Elevations last at most ${this.maxMinutes} minutes`,
+      );
+    }
+
+    const role = dto.role || 'BOSS';
+    const held = await this.permissionsService.getGrantablePermissions(
+      actor.userId,
+    );
+
+    if (ROLE_PERMISSIONS[role].every((permission) => held.has(permission))) {
+      throw new BadRequestException(`You already hold the ${role} role`);
+    }
+
+    const open = await this.prisma.elevationGrant.findFirst({
+      where: {
+        userId: actor.userId,
+        status: { in: ['PENDING', 'ACTIVE'] },
+      },
+    });
+
+    if (open) {
+      throw new ConflictException(
+        'You already have a pending or active elevation',
+      );
+    }
+
+    const grant = await this.prisma.elevationGrant.create({
+      data: {
+        userId: actor.userId,
+        companyId: actor.companyId,
+        role,
+        reason: dto.reason,
+        durationMinutes: dto.durationMinutes,
+      },
+      select: GRANT_SELECT,
+    });
+
+    await this.logElevationAudit(
+      actor.companyId,
+      grant.id,
+      'ELEVATION_REQUESTED',
+      actor.userId,
+      { role, reason: dto.reason, durationMinutes: dto.durationMinutes },
+      client,
+    );
+
+    return grant;
+  }
+
+  async listOwn(userId: string) {
+    return this.prisma.elevationGrant.findMany({
+      where: { userId },
+      select: GRANT_SELECT,
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+  }
+
+  async listPending(reviewer: Actor) {
+    if (!reviewer.companyId) {
+      return [];
+    }
+
+    return this.prisma.elevationGrant.findMany({
+      where: {
+        companyId: reviewer.companyId,
+        status: 'PENDING',
+        userId: { not: reviewer.userId },
+      },
+      select: GRANT_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async approve(grantId: string, reviewer: Actor, client?: ClientContext) {
+    const grant = await this.getReviewableGrant(grantId, reviewer);
+    const expiresAt = new Date(Date.now() + grant.durationMinutes * MINUTE_MS);
+
+    const updated = await this.prisma.elevationGrant.updateMany({
+      where: { id: grant.id, status: 'PENDING' },
+      data: {
+        status: 'ACTIVE',
+        reviewedBy: reviewer.userId,
+        reviewedAt: new Date(),
+        expiresAt,
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new ConflictException('Elevation request was already reviewed');
+    }
+
+    await this.elevationQueue.add(
+      'expire-grant',
+      { grantId: grant.id } as ExpireGrantJob,
+      {
+        delay: expiresAt.getTime() - Date.now(),
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 60000 },
+      },
+    );
+
+    this.permissionsService.invalidateUser(grant.userId);
+
+    await this.logElevationAudit(
+      grant.companyId,
+      grant.id,
+      'ELEVATION_APPROVED',
+      reviewer.userId,
+      { userId: grant.userId, role: grant.role, expiresAt },
+      client,
+    );
+
+    return { id: grant.id, status: 'ACTIVE', expiresAt };
+  }
+
+  async deny(grantId: string, reviewer: Actor, client?: ClientContext) {
+    const grant = await this.getReviewableGrant(grantId, reviewer);
+
+    const updated = await this.prisma.elevationGrant.updateMany({
+      where: { id: grant.id, status: 'PENDING' },
+      data: {
+        status: 'DENIED',
+        reviewedBy: reviewer.userId,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new ConflictException('Elevation request was already reviewed');
+    }
+
+    await this.logElevationAudit(
+      grant.companyId,
+      grant.id,
+      'ELEVATION_DENIED',
+      reviewer.userId,
+      { userId: grant.userId, role: grant.role },
+      client,
+    );
+
+    return { id: grant.id, status: 'DENIED' };
+  }
+
+  // The requester withdraws or ends their own grant, or a BOSS ends it early
+  async revoke(grantId: string, actor: Actor, client?: ClientContext) {
+    const grant = await this.prisma.elevationGrant.findUnique({
+      where: { id: grantId },
+    });
+
+    if (!grant || !['PENDING', 'ACTIVE'].includes(grant.status)) {
+      throw new NotFoundException('Elevation not found');
+    }
+
+    if (grant.userId !== actor.userId) {
+      await this.assertPermanentBoss(grant.companyId, actor.userId);
+    }
+
+    const updated = await this.prisma.elevationGrant.updateMany({
+      where: { id: grant.id, status: { in: ['PENDING', 'ACTIVE'] } },
+      data: {
+        status: 'REVOKED',
+        revokedBy: actor.userId,
+        revokedAt: new Date(),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new ConflictException('Elevation has already ended');
+    }
+
+    this.permissionsService.invalidateUser(grant.userId);
+
+    await this.logElevationAudit(
+      grant.companyId,
+      grant.id,
+      'ELEVATION_REVOKED',
+      actor.userId,
+      { userId: grant.userId, role: grant.role, wasActive: !!grant.expiresAt },
+      client,
+    );
+
+    return { id: grant.id, status: 'REVOKED' };
+  }
+
+  // Run by the elevation queue when the grant runs out
+  async expireGrant(grantId: string): Promise<boolean> {
+    const grant = await this.prisma.elevationGrant.findUnique({
+      where: { id: grantId },
+    });
+
+    if (!grant || grant.status !== 'ACTIVE' || grant.expiresAt > new Date()) {
+      return false;
+    }
+
+    const claimed = await this.prisma.elevationGrant.updateMany({
+      where: { id: grant.id, status: 'ACTIVE' },
+      data: { status: 'EXPIRED' },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    this.permissionsService.invalidateUser(grant.userId);
+
+    await this.logElevationAudit(
+      grant.companyId,
+      grant.id,
+      'ELEVATION_EXPIRED',
+      null,
+      { userId: grant.userId, role: grant.role },
+    );
+
+    return true;
+  }
+
+  private async getReviewableGrant(grantId: string, reviewer: Actor) {
+    const grant = await this.prisma.elevationGrant.findUnique({
+      where: { id: grantId },
+    });
+
+    if (!grant || grant.status !== 'PENDING') {
+      throw new NotFoundException('Elevation request not found');
+    }
+
+    if (grant.userId === reviewer.userId) {
+      throw new ForbiddenException(
+        'You cannot review your own elevation request',
+      );
+    }
+
+    await this.assertPermanentBoss(grant.companyId, reviewer.userId);
+
+    return grant;
+  }
+
+  // Checked against the stored role, so elevated users cannot approve
+  // elevations or end those of others
+  private async assertPermanentBoss(companyId: string, userId: string) {
+    const company = await this.prisma.company.findUnique({
+      where: { id: companyId },
+      select: { ownerId: true },
+    });
+
+    if (company?.ownerId === userId) {
+      return;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, companyId: true },
+    });
+
+    if (!user || user.companyId !== companyId || user.role !== 'BOSS') {
+      throw new ForbiddenException(
+        'Only a BOSS of this company can review elevations',
+      );
+    }
+  }
+
+  private async logElevationAudit(
+    companyId: string,
+    grantId: string,
+    action: string,
+    performedBy: string | null,
+    metadata: AuditMetadata,
+    client?: ClientContext,
+  ): Promise<void> {
+    await this.auditService.logCompanyAudit(
+      companyId,
+      action,
+      `elevation:${grantId}`,
+      performedBy,
+      metadata,
+      client,
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import { ElevationService, ExpireGrantJob } from '../elevation.service';
+
+// Ends approved elevations once their duration has run out
+@Processor('elevation')
+export class ElevationExpiryProcessor {
+  private readonly logger = new Logger(ElevationExpiryProcessor.name);
+
+  constructor(private elevationService: ElevationService) {}
+
+  @Process('expire-grant')
+  async handleExpireGrant(job: Job<ExpireGrantJob>) {
+    const expired = await this.elevationService.expireGrant(job.data.grantId);
+
+    // Revoked in the meantime
+    if (!expired) {
+      this.logger.log(
+        `Elevation ${job.data.grantId} no longer active, skipped`,
+      );
+    }
+
+    return { expired };
+  }
+}
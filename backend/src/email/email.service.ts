@@ -208,20 +208,33 @@ export class EmailService {
   /**
    * Send account lockout notification
    */
-  async sendAccountLockoutNotification(email: string): Promise<boolean> {
+  async sendAccountLockoutNotification(
+    email: string,
+    lockedUntil: Date,
+    unlockToken: string,
+  ): Promise<boolean> {
+    const unlockUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/unlock-account?token=${unlockToken}`;
+
     const html = `
       <h2>Account Security Alert</h2>
       <p>Your account has been temporarily locked due to multiple failed login attempts.</p>
       <p>This is a security measure to protect your account.</p>
-      <p>Your account will be automatically unlocked after 15 minutes.</p>
-      <p>If you forgot your password, use the password reset option.</p>
+      <p>Your account will be automatically unlocked at ${lockedUntil.toUTCString()}.</p>
+      <p>If these attempts were yours, you can unlock it right away:</p>
+      <p>
+        <a href="${unlockUrl}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 4px;">
+          Unlock Account
+        </a>
+      </p>
+      <p>Or copy this link: ${unlockUrl}</p>
+      <p>If they were not, consider changing your password. If you forgot your password, use the password reset option.</p>
     `;
 
     return this.sendEmail({
       to: email,
       subject: 'Account Locked - Security Alert',
       html,
-      text: 'Your account has been temporarily locked due to failed login attempts.',
+      text: `Your account has been temporarily locked due to failed login attempts. Unlock it: ${unlockUrl}`,
     });
   }
 }
@@ -0,0 +1,34 @@
+import {
+  IsEmail,
+  IsString,
+  MinLength,
+  MaxLength,
+  IsOptional,
+} from 'class-validator';
+
+export class CreateInvitationDto {
+  @IsEmail()
+  email: string;
+}
+
+export class AcceptInvitationDto {
+  @IsString()
+  token: string;
+
+  @IsString()
+  @MinLength(3)
+  @MaxLength(20)
+  username: string;
+
+  // Strength checked by PasswordPolicyService
+  @IsString()
+  password: string;
+
+  @IsOptional()
+  @IsString()
+  firstName?: string;
+
+  @IsOptional()
+  @IsString()
+  lastName?: string;
+}
@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ThrottlerGuard, Throttle } from '@nestjs/throttler';
+import { InvitationsService } from './invitations.service';
+import { CreateInvitationDto, AcceptInvitationDto } from './dto/invitation.dto';
+import { JwtAuthGuard, Scopes } from '../auth/guards/auth.guard';
+import { Roles, RolesGuard } from '../auth/guards/roles.guard';
+import { Client, ClientContext } from '../common/decorators/client.decorator';
+
+@Controller('invitations')
+export class InvitationsController {
+  constructor(private invitationsService: InvitationsService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('BOSS')
+  @Scopes('invitations:write')
+  @HttpCode(HttpStatus.CREATED)
+  async createInvitation(
+    @Request() req,
+    @Body() dto: CreateInvitationDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.invitationsService.createInvitation(
+      req.user.userId,
+      req.user.companyId,
+      dto.email,
+      client,
+    );
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('BOSS')
+  @Scopes('invitations:read')
+  async getPendingInvitations(@Request() req) {
+    return this.invitationsService.getPendingInvitations(
+      req.user.companyId,
+      req.user.userId,
+    );
+  }
+
+  @Post('accept')
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.CREATED)
+  @Throttle({ default: { limit: 5, ttl: 60 } })
+  async acceptInvitation(
+    @Body() dto: AcceptInvitationDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.invitationsService.acceptInvitation(dto, client);
+  }
+
+  @Post(':id/resend')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('BOSS')
+  @Scopes('invitations:write')
+  @HttpCode(HttpStatus.OK)
+  async resendInvitation(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.invitationsService.resendInvitation(
+      id,
+      req.user.companyId,
+      req.user.userId,
+      client,
+    );
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('BOSS')
+  @Scopes('invitations:write')
+  async revokeInvitation(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.invitationsService.revokeInvitation(
+      id,
+      req.user.companyId,
+      req.user.userId,
+      client,
+    );
+  }
+}
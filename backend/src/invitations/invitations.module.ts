@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { InvitationsService } from './invitations.service';
+import { InvitationsController } from './invitations.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CompaniesModule } from '../companies/companies.module';
+import { EmailModule } from '../email/email.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [PrismaModule, CompaniesModule, EmailModule, AuthModule],
+  controllers: [InvitationsController],
+  providers: [InvitationsService],
+  exports: [InvitationsService],
+})
+export class InvitationsModule {}
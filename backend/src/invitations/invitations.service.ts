@@ -0,0 +1,317 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { runUnscoped } from '../prisma/tenant-context';
+import { CompaniesService } from '../companies/companies.service';
+import { EmailService } from '../email/email.service';
+import { AuthService } from '../auth/auth.service';
+import { PasswordPolicyService } from '../auth/password-policy.service';
+import { AuthResponse } from '../auth/interfaces/auth.interface';
+import { AcceptInvitationDto } from './dto/invitation.dto';
+import { ClientContext } from '../common/decorators/client.decorator';
+import { AuditService } from '../audit/audit.service';
+
+const INVITATION_TTL_MS = 24 * 60 * 60 * 1000; // Matches the email copy
+
+const INVITATION_SELECT = {
+  id: true,
+  email: true,
+  companyId: true,
+  invitedBy: true,
+  expiresAt: true,
+  acceptedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+@Injectable()
+export class InvitationsService {
+  private readonly logger = new Logger(InvitationsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private companiesService: CompaniesService,
+    private emailService: EmailService,
+    private authService: AuthService,
+    private passwordPolicyService: PasswordPolicyService,
+    private auditService: AuditService,
+  ) {}
+
+  async createInvitation(
+    inviterId: string,
+    companyId: string | null,
+    email: string,
+    client?: ClientContext,
+  ) {
+    const company = await this.getManagedCompany(companyId, inviterId);
+
+    if (!company.isActive) {
+      throw new BadRequestException('Company is inactive');
+    }
+
+    // Emails are unique across companies, so look beyond our own
+    const existingUser = await runUnscoped(() =>
+      this.prisma.user.findUnique({ where: { email } }),
+    );
+
+    if (existingUser) {
+      throw new ConflictException('A user with this email already exists');
+    }
+
+    const pending = await this.prisma.invitation.findFirst({
+      where: {
+        email,
+        companyId: company.id,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    if (pending) {
+      throw new ConflictException(
+        'A pending invitation already exists for this email',
+      );
+    }
+
+    const token = this.generateToken();
+
+    const invitation = await this.prisma.invitation.create({
+      data: {
+        email,
+        token: this.hashToken(token),
+        companyId: company.id,
+        invitedBy: inviterId,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      },
+      select: INVITATION_SELECT,
+    });
+
+    await this.sendInvite(email, token, company.name);
+
+    await this.auditService.logCompanyAudit(
+      company.id,
+      'INVITATION_SENT',
+      `invitation:${invitation.id}`,
+      inviterId,
+      { email },
+      client,
+    );
+
+    return invitation;
+  }
+
+  async getPendingInvitations(companyId: string | null, userId: string) {
+    const company = await this.getManagedCompany(companyId, userId);
+
+    return this.prisma.invitation.findMany({
+      where: {
+        companyId: company.id,
+        acceptedAt: null,
+        revokedAt: null,
+      },
+      select: INVITATION_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async resendInvitation(
+    invitationId: string,
+    companyId: string | null,
+    userId: string,
+    client?: ClientContext,
+  ) {
+    const company = await this.getManagedCompany(companyId, userId);
+    const invitation = await this.findPendingInvitation(
+      invitationId,
+      company.id,
+    );
+
+    if (!company.isActive) {
+      throw new BadRequestException('Company is inactive');
+    }
+
+    // Only the hash is stored, so resending issues a fresh token
+    const token = this.generateToken();
+
+    const updated = await this.prisma.invitation.update({
+      where: { id: invitation.id },
+      data: {
+        token: this.hashToken(token),
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      },
+      select: INVITATION_SELECT,
+    });
+
+    await this.sendInvite(invitation.email, token, company.name);
+
+    await this.auditService.logCompanyAudit(
+      company.id,
+      'INVITATION_RESENT',
+      `invitation:${invitation.id}`,
+      userId,
+      { email: invitation.email },
+      client,
+    );
+
+    return updated;
+  }
+
+  async revokeInvitation(
+    invitationId: string,
+    companyId: string | null,
+    userId: string,
+    client?: ClientContext,
+  ) {
+    const company = await this.getManagedCompany(companyId, userId);
+    const invitation = await this.findPendingInvitation(
+      invitationId,
+      company.id,
+    );
+
+    const updated = await this.prisma.invitation.update({
+      where: { id: invitation.id },
+      data: { revokedAt: new Date() },
+      select: INVITATION_SELECT,
+    });
+
+    await this.auditService.logCompanyAudit(
+      company.id,
+      'INVITATION_REVOKED',
+      `invitation:${invitation.id}`,
+      userId,
+      { email: invitation.email },
+      client,
+    );
+
+    return updated;
+  }
+
+  async acceptInvitation(
+    dto: AcceptInvitationDto,
+    client?: ClientContext,
+  ): Promise<AuthResponse> {
+    await this.passwordPolicyService.assertValid(dto.password);
+
+    const invitation = await this.prisma.invitation.findUnique({
+      where: { token: this.hashToken(dto.token) },
+      include: { company: true },
+    });
+
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.revokedAt ||
+      invitation.expiresAt < new Date()
+    ) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    if (!invitation.company.isActive) {
+      throw new BadRequestException('Company is inactive');
+    }
+
+    const existingUser = await this.prisma.user.findFirst({
+      where: {
+        OR: [{ email: invitation.email }, { username: dto.username }],
+      },
+    });
+
+    if (existingUser) {
+      throw new ConflictException('Email or username already exists');
+    }
+
+    const hashedPassword = await bcrypt.hash(dto.password, 10);
+
+    const user = await this.prisma.$transaction(async (tx) => {
+      // Claim the invitation first so it cannot be accepted twice
+      const claimed = await tx.invitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        throw new BadRequestException('Invalid or expired invitation');
+      }
+
+      return tx.user.create({
+        data: {
+          email: invitation.email,
+          username: dto.username,
+          password: hashedPassword,
+          firstName: dto.firstName,
+          lastName: dto.lastName,
+          role: 'EMPLOYEE',
+          // Following the emailed link proves ownership of the address
+          isEmailVerified: true,
+          companyId: invitation.companyId,
+          createdBy: invitation.invitedBy,
+        },
+      });
+    });
+
+    await this.auditService.logCompanyAudit(
+      invitation.companyId,
+      'INVITATION_ACCEPTED',
+      `user:${user.id}`,
+      user.id,
+      { invitationId: invitation.id, email: user.email },
+      client,
+    );
+
+    return this.authService.generateAuthResponse(user, client);
+  }
+
+  private async getManagedCompany(companyId: string | null, userId: string) {
+    if (!companyId) {
+      throw new BadRequestException(
+        'You must belong to a company to manage invitations',
+      );
+    }
+
+    return this.companiesService.assertCompanyBoss(companyId, userId);
+  }
+
+  private async findPendingInvitation(invitationId: string, companyId: string) {
+    const invitation = await this.prisma.invitation.findFirst({
+      where: { id: invitationId, companyId },
+    });
+
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    if (invitation.acceptedAt || invitation.revokedAt) {
+      throw new BadRequestException('Invitation is no longer pending');
+    }
+
+    return invitation;
+  }
+
+  private async sendInvite(email: string, token: string, companyName: string) {
+    try {
+      await this.emailService.sendEmployeeInvite(email, token, companyName);
+    } catch (error) {
+      // The invitation stays pending and can be resent
+      this.logger.error(
+        `Failed to send invitation to ${email}: ${error.message}`,
+      );
+    }
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -90,7 +90,11 @@ async function bootstrap() {
     if (
       req.url.includes('/auth/') ||
       req.url.includes('/2fa/') ||
-      req.url.includes('/users/')
+      req.url.includes('/users/') ||
+      req.url.includes('/invitations') ||
+      req.url.includes('/oauth/') ||
+      req.url.includes('/service-accounts') ||
+      req.url.includes('/webauthn/')
     ) {
       res.setHeader(
         'Cache-Control',
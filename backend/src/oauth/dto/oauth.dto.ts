@@ -0,0 +1,37 @@
+import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+
+// client_secret_post: credentials may be sent in the form body instead of
+// an Authorization: Basic header
+export class ClientCredentialsDto {
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @IsOptional()
+  @IsString()
+  client_secret?: string;
+}
+
+export class IntrospectTokenDto extends ClientCredentialsDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  // Accepted for compliance; the token type is read from the token itself
+  @IsOptional()
+  @IsString()
+  token_type_hint?: string;
+}
+
+export class RevokeTokenDto extends IntrospectTokenDto {}
+
+export class TokenRequestDto extends ClientCredentialsDto {
+  @IsString()
+  @IsNotEmpty()
+  grant_type: string;
+
+  // Space-separated subset of the scopes granted to the client
+  @IsOptional()
+  @IsString()
+  scope?: string;
+}
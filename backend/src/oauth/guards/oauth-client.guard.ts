@@ -0,0 +1,69 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { OAuthClient, OAuthClientsService } from '../oauth-clients.service';
+
+// client_secret_basic (Authorization: Basic) or client_secret_post (form body)
+export function extractClientCredentials(request: Request): {
+  clientId?: string;
+  clientSecret?: string;
+} {
+  const header = request.headers.authorization || '';
+
+  if (header.startsWith('Basic ')) {
+    const decoded = Buffer.from(header.slice(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+
+    if (separator > 0) {
+      // RFC 6749 2.3.1: both parts are form-urlencoded before encoding
+      try {
+        return {
+          clientId: decodeURIComponent(decoded.slice(0, separator)),
+          clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+        };
+      } catch {
+        return {};
+      }
+    }
+  }
+
+  return {
+    clientId: request.body?.client_id,
+    clientSecret: request.body?.client_secret,
+  };
+}
+
+/**
+ * Authenticates the calling client with client_secret_basic or
+ * client_secret_post and exposes it as request.oauthClient.
+ */
+@Injectable()
+export class OAuthClientGuard implements CanActivate {
+  constructor(private clientsService: OAuthClientsService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { oauthClient?: OAuthClient }>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const { clientId, clientSecret } = extractClientCredentials(request);
+
+    const client =
+      clientId && this.clientsService.authenticate(clientId, clientSecret);
+
+    if (!client) {
+      response.setHeader('WWW-Authenticate', 'Basic realm="oauth"');
+      throw new UnauthorizedException({
+        error: 'invalid_client',
+        error_description: 'Client authentication failed',
+      });
+    }
+
+    request.oauthClient = client;
+    return true;
+  }
+}
@@ -0,0 +1,57 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+
+export interface OAuthClient {
+  clientId: string;
+}
+
+/**
+ * Confidential clients (our other internal services) allowed to call the
+ * OAuth endpoints. Configured as OAUTH_CLIENTS=id:secret,id2:secret2.
+ */
+@Injectable()
+export class OAuthClientsService {
+  private readonly logger = new Logger(OAuthClientsService.name);
+  private readonly clients = this.loadClients();
+
+  authenticate(clientId: string, clientSecret: string): OAuthClient | null {
+    const expected = this.clients.get(clientId);
+
+    // Compare fixed-length digests in constant time
+    const given = this.digest(clientSecret || '');
+
+    return expected && crypto.timingSafeEqual(given, expected)
+      ? { clientId }
+      : null;
+  }
+
+  private loadClients(): Map<string, Buffer> {
+    const clients = new Map<string, Buffer>();
+
+    for (const entry of (process.env.OAUTH_CLIENTS || '').split(',')) {
+      const separator = entry.indexOf(':');
+
+      if (separator <= 0) {
+        continue;
+      }
+
+      const clientId = entry.slice(0, separator).trim();
+      const secret = entry.slice(separator + 1).trim();
+
+      if (secret.length < 32) {
+        this.logger.warn(
+          `OAuth client ${clientId} ignored: secret must be at least 32 characters`,
+        );
+        continue;
+      }
+
+      clients.set(clientId, this.digest(secret));
+    }
+
+    return clients;
+  }
+
+  private digest(value: string): Buffer {
+    return crypto.createHash('sha256').update(value).digest();
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { ThrottlerGuard, Throttle } from '@nestjs/throttler';
+import { AuthService } from '../auth/auth.service';
+import { ServiceAccountsService } from '../service-accounts/service-accounts.service';
+import {
+  OAuthClientGuard,
+  extractClientCredentials,
+} from './guards/oauth-client.guard';
+import {
+  IntrospectTokenDto,
+  RevokeTokenDto,
+  TokenRequestDto,
+} from './dto/oauth.dto';
+import { Client, ClientContext } from '../common/decorators/client.decorator';
+
+@Controller('oauth')
+export class OAuthController {
+  constructor(
+    private authService: AuthService,
+    private serviceAccountsService: ServiceAccountsService,
+  ) {}
+
+  // Service accounts authenticate as clients here, not through OAuthClientGuard
+  @Post('token')
+  @UseGuards(ThrottlerGuard)
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 20, ttl: 60 } })
+  async token(
+    @Body() dto: TokenRequestDto,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    if (dto.grant_type !== 'client_credentials') {
+      throw new BadRequestException({
+        error: 'unsupported_grant_type',
+        error_description: 'Only client_credentials is supported',
+      });
+    }
+
+    const { clientId, clientSecret } = extractClientCredentials(req);
+
+    return this.serviceAccountsService.issueToken(
+      clientId,
+      clientSecret,
+      dto.scope,
+      client,
+    );
+  }
+
+  @Post('introspect')
+  @UseGuards(OAuthClientGuard)
+  @HttpCode(HttpStatus.OK)
+  async introspect(@Body() dto: IntrospectTokenDto) {
+    return this.authService.introspectToken(dto.token);
+  }
+
+  @Post('revoke')
+  @UseGuards(OAuthClientGuard)
+  @HttpCode(HttpStatus.OK)
+  async revoke(
+    @Body() dto: RevokeTokenDto,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    await this.authService.revokeToken(
+      dto.token,
+      req.oauthClient.clientId,
+      client,
+    );
+  }
+}
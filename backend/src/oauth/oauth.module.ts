@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { OAuthController } from './oauth.controller';
+import { OAuthClientsService } from './oauth-clients.service';
+import { OAuthClientGuard } from './guards/oauth-client.guard';
+import { AuthModule } from '../auth/auth.module';
+import { ServiceAccountsModule } from '../service-accounts/service-accounts.module';
+
+@Module({
+  imports: [AuthModule, ServiceAccountsModule],
+  controllers: [OAuthController],
+  providers: [OAuthClientsService, OAuthClientGuard],
+  exports: [OAuthClientsService],
+})
+export class OAuthModule {}
@@ -0,0 +1,119 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Put,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import {
+  PermissionsGuard,
+  RequirePermissions,
+} from '../auth/guards/permissions.guard';
+import { CustomRolesService } from './custom-roles.service';
+import {
+  CreateCustomRoleDto,
+  UpdateCustomRoleDto,
+} from './dto/custom-role.dto';
+import { Client, ClientContext } from '../common/decorators/client.decorator';
+
+@Controller('companies/:companyId/roles')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class CustomRolesController {
+  constructor(private customRolesService: CustomRolesService) {}
+
+  @Get()
+  @RequirePermissions('roles:manage')
+  async listRoles(@Param('companyId') companyId: string, @Request() req) {
+    return this.customRolesService.listRoles(companyId, req.user);
+  }
+
+  @Post()
+  @RequirePermissions('roles:manage')
+  @HttpCode(HttpStatus.CREATED)
+  async createRole(
+    @Param('companyId') companyId: string,
+    @Body() dto: CreateCustomRoleDto,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.customRolesService.createRole(companyId, req.user, dto, client);
+  }
+
+  @Patch(':roleId')
+  @RequirePermissions('roles:manage')
+  async updateRole(
+    @Param('companyId') companyId: string,
+    @Param('roleId') roleId: string,
+    @Body() dto: UpdateCustomRoleDto,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.customRolesService.updateRole(
+      companyId,
+      roleId,
+      req.user,
+      dto,
+      client,
+    );
+  }
+
+  @Delete(':roleId')
+  @RequirePermissions('roles:manage')
+  async deleteRole(
+    @Param('companyId') companyId: string,
+    @Param('roleId') roleId: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.customRolesService.deleteRole(
+      companyId,
+      roleId,
+      req.user,
+      client,
+    );
+  }
+
+  @Put(':roleId/members/:userId')
+  @RequirePermissions('users:roles')
+  async assignRole(
+    @Param('companyId') companyId: string,
+    @Param('roleId') roleId: string,
+    @Param('userId') userId: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.customRolesService.assignRole(
+      companyId,
+      roleId,
+      userId,
+      req.user,
+      client,
+    );
+  }
+
+  @Delete(':roleId/members/:userId')
+  @RequirePermissions('users:roles')
+  async unassignRole(
+    @Param('companyId') companyId: string,
+    @Param('roleId') roleId: string,
+    @Param('userId') userId: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.customRolesService.unassignRole(
+      companyId,
+      roleId,
+      userId,
+      req.user,
+      client,
+    );
+  }
+}
@@ -0,0 +1,419 @@
+import {
+  Injectable,
+  OnModuleInit,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { PermissionsService } from './permissions.service';
+import { Permission } from './permissions';
+import {
+  CreateCustomRoleDto,
+  UpdateCustomRoleDto,
+} from './dto/custom-role.dto';
+import { ClientContext } from '../common/decorators/client.decorator';
+import { AuditService } from '../audit/audit.service';
+import { ApprovalsService } from '../approvals/approvals.service';
+
+type Actor = { userId: string; companyId: string | null };
+
+type CustomRole = { id: string; name: string; permissions: string[] };
+
+const CUSTOM_ROLE_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  permissions: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { members: true } },
+};
+
+// Company-defined roles. Nobody can grant a permission they do not hold.
+// Defining and assigning roles is held for approval along with role changes.
+@Injectable()
+export class CustomRolesService implements OnModuleInit {
+  constructor(
+    private prisma: PrismaService,
+    private permissionsService: PermissionsService,
+    private auditService: AuditService,
+    private approvalsService: ApprovalsService,
+  ) {}
+
+  // Run once a second user approves a held role definition or assignment
+  onModuleInit() {
+    this.approvalsService.registerExecutor(
+      'role:create',
+      async (payload, actor, client) => {
+        const dto = this.fromPayload(payload) as CreateCustomRoleDto;
+        await this.assertCreatable(payload.companyId, actor, dto);
+        return this.applyCreateRole(payload.companyId, actor, dto, client);
+      },
+    );
+
+    this.approvalsService.registerExecutor(
+      'role:update',
+      async (payload, actor, client) => {
+        const role = await this.getRole(
+          payload.companyId,
+          payload.roleId,
+          actor,
+        );
+        const dto = this.fromPayload(payload);
+        await this.assertUpdatable(payload.companyId, role, actor, dto);
+        return this.applyUpdateRole(
+          payload.companyId,
+          role,
+          actor,
+          dto,
+          client,
+        );
+      },
+    );
+
+    this.approvalsService.registerExecutor(
+      'role:assign',
+      async ({ companyId, roleId, userId }, actor, client) => {
+        const role = await this.getRole(companyId, roleId, actor);
+        await this.assertGrantable(actor.userId, role.permissions);
+        await this.getMember(companyId, userId);
+        return this.applyAssignRole(companyId, role, userId, actor, client);
+      },
+    );
+  }
+
+  async listRoles(companyId: string, actor: Actor) {
+    this.assertMember(companyId, actor);
+
+    return this.prisma.customRole.findMany({
+      where: { companyId },
+      select: CUSTOM_ROLE_SELECT,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async createRole(
+    companyId: string,
+    actor: Actor,
+    dto: CreateCustomRoleDto,
+    client?: ClientContext,
+  ) {
+    await this.assertCreatable(companyId, actor, dto);
+
+    if (this.approvalsService.isRequired('role:create')) {
+      return this.approvalsService.submit(
+        'role:create',
+        this.toPayload(companyId, dto),
+        actor,
+        client,
+      );
+    }
+
+    return this.applyCreateRole(companyId, actor, dto, client);
+  }
+
+  async updateRole(
+    companyId: string,
+    roleId: string,
+    actor: Actor,
+    dto: UpdateCustomRoleDto,
+    client?: ClientContext,
+  ) {
+    const role = await this.getRole(companyId, roleId, actor);
+    await this.assertUpdatable(companyId, role, actor, dto);
+
+    // Renaming grants nothing, so only permission changes are held
+    if (dto.permissions && this.approvalsService.isRequired('role:update')) {
+      return this.approvalsService.submit(
+        'role:update',
+        { ...this.toPayload(companyId, dto), roleId: role.id },
+        actor,
+        client,
+      );
+    }
+
+    return this.applyUpdateRole(companyId, role, actor, dto, client);
+  }
+
+  async deleteRole(
+    companyId: string,
+    roleId: string,
+    actor: Actor,
+    client?: ClientContext,
+  ) {
+    const role = await this.getRole(companyId, roleId, actor);
+    await this.assertGrantable(actor.userId, role.permissions);
+
+    // Members fall back to their built-in role (onDelete: SetNull)
+    await this.prisma.customRole.delete({ where: { id: role.id } });
+
+    this.permissionsService.invalidateAll();
+
+    await this.auditService.logCompanyAudit(
+      companyId,
+      'CUSTOM_ROLE_DELETED',
+      `custom_role:${role.id}`,
+      actor.userId,
+      { name: role.name },
+      client,
+    );
+
+    return { message: 'Custom role deleted' };
+  }
+
+  async assignRole(
+    companyId: string,
+    roleId: string,
+    memberId: string,
+    actor: Actor,
+    client?: ClientContext,
+  ) {
+    const role = await this.getRole(companyId, roleId, actor);
+    await this.assertGrantable(actor.userId, role.permissions);
+    await this.getMember(companyId, memberId);
+
+    if (this.approvalsService.isRequired('role:assign')) {
+      return this.approvalsService.submit(
+        'role:assign',
+        { companyId, roleId: role.id, userId: memberId },
+        actor,
+        client,
+      );
+    }
+
+    return this.applyAssignRole(companyId, role, memberId, actor, client);
+  }
+
+  async unassignRole(
+    companyId: string,
+    roleId: string,
+    memberId: string,
+    actor: Actor,
+    client?: ClientContext,
+  ) {
+    const role = await this.getRole(companyId, roleId, actor);
+    const member = await this.getMember(companyId, memberId);
+
+    if (member.customRoleId !== role.id) {
+      throw new NotFoundException('User does not have this role');
+    }
+
+    await this.prisma.user.update({
+      where: { id: memberId },
+      data: { customRoleId: null },
+    });
+
+    this.permissionsService.invalidateUser(memberId);
+
+    await this.auditService.logCompanyAudit(
+      companyId,
+      'CUSTOM_ROLE_UNASSIGNED',
+      `user:${memberId}`,
+      actor.userId,
+      { roleId: role.id, name: role.name },
+      client,
+    );
+
+    return { message: 'Custom role removed' };
+  }
+
+  private async assertCreatable(
+    companyId: string,
+    actor: Actor,
+    dto: CreateCustomRoleDto,
+  ) {
+    this.assertMember(companyId, actor);
+    await this.assertGrantable(actor.userId, dto.permissions);
+    await this.assertNameAvailable(companyId, dto.name);
+  }
+
+  private async assertUpdatable(
+    companyId: string,
+    role: CustomRole,
+    actor: Actor,
+    dto: UpdateCustomRoleDto,
+  ) {
+    // Both the old and the new set, so a role cannot be stripped or widened
+    // by someone who holds less than it grants
+    await this.assertGrantable(actor.userId, role.permissions);
+
+    if (dto.permissions) {
+      await this.assertGrantable(actor.userId, dto.permissions);
+    }
+
+    if (dto.name && dto.name !== role.name) {
+      await this.assertNameAvailable(companyId, dto.name);
+    }
+  }
+
+  private async applyCreateRole(
+    companyId: string,
+    actor: Actor,
+    dto: CreateCustomRoleDto,
+    client?: ClientContext,
+  ) {
+    const role = await this.prisma.customRole.create({
+      data: {
+        companyId,
+        name: dto.name,
+        description: dto.description,
+        permissions: dto.permissions,
+        createdBy: actor.userId,
+      },
+      select: CUSTOM_ROLE_SELECT,
+    });
+
+    await this.auditService.logCompanyAudit(
+      companyId,
+      'CUSTOM_ROLE_CREATED',
+      `custom_role:${role.id}`,
+      actor.userId,
+      { name: role.name, permissions: role.permissions },
+      client,
+    );
+
+    return role;
+  }
+
+  private async applyUpdateRole(
+    companyId: string,
+    role: CustomRole,
+    actor: Actor,
+    dto: UpdateCustomRoleDto,
+    client?: ClientContext,
+  ) {
+    const updated = await this.prisma.customRole.update({
+      where: { id: role.id },
+      data: {
+        name: dto.name,
+        description: dto.description,
+        permissions: dto.permissions,
+      },
+      select: CUSTOM_ROLE_SELECT,
+    });
+
+    this.permissionsService.invalidateAll();
+
+    await this.auditService.logCompanyAudit(
+      companyId,
+      'CUSTOM_ROLE_UPDATED',
+      `custom_role:${role.id}`,
+      actor.userId,
+      {
+        from: { name: role.name, permissions: role.permissions },
+        to: { name: updated.name, permissions: updated.permissions },
+      },
+      client,
+    );
+
+    return updated;
+  }
+
+  private async applyAssignRole(
+    companyId: string,
+    role: CustomRole,
+    memberId: string,
+    actor: Actor,
+    client?: ClientContext,
+  ) {
+    await this.prisma.user.update({
+      where: { id: memberId },
+      data: { customRoleId: role.id },
+    });
+
+    this.permissionsService.invalidateUser(memberId);
+
+    await this.auditService.logCompanyAudit(
+      companyId,
+      'CUSTOM_ROLE_ASSIGNED',
+      `user:${memberId}`,
+      actor.userId,
+      { roleId: role.id, name: role.name },
+      client,
+    );
+
+    return { message: 'Custom role assigned' };
+  }
+
+  // Approval payloads hold strings only; absent fields stay absent so the
+  // payload hash survives storage
+  private toPayload(
+    companyId: string,
+    dto: UpdateCustomRoleDto,
+  ): Record<string, string> {
+    return {
+      companyId,
+      ...(dto.name !== undefined && { name: dto.name }),
+      ...(dto.description !== undefined && { description: dto.description }),
+      ...(dto.permissions && { permissions: dto.permissions.join(',') }),
+    };
+  }
+
+  private fromPayload(payload: Record<string, string>): UpdateCustomRoleDto {
+    return {
+      name: payload.name,
+      description: payload.description,
+      permissions:
+        payload.permissions === undefined
+          ? undefined
+          : payload.permissions.split(',').filter(Boolean),
+    };
+  }
+
+  private assertMember(companyId: string, actor: Actor) {
+    if (actor.companyId !== companyId) {
+      throw new ForbiddenException('You do not belong to this company');
+    }
+  }
+
+  private async assertGrantable(userId: string, permissions: string[]) {
+    const held = await this.permissionsService.getGrantablePermissions(userId);
+    const missing = permissions.filter(
+      (permission) => !held.has(permission as Permission),
+    );
+
+    if (missing.length) {
+      throw new ForbiddenException(
+        `You cannot grant permissions you do not hold: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  private async assertNameAvailable(companyId: string, name: string) {
+    const existing = await this.prisma.customRole.findUnique({
+      where: { companyId_name: { companyId, name } },
+    });
+
+    if (existing) {
+      throw new ConflictException('A role with this name already exists');
+    }
+  }
+
+  private async getRole(companyId: string, roleId: string, actor: Actor) {
+    this.assertMember(companyId, actor);
+
+    const role = await this.prisma.customRole.findFirst({
+      where: { id: roleId, companyId },
+    });
+
+    if (!role) {
+      throw new NotFoundException('Custom role not found');
+    }
+
+    return role;
+  }
+
+  private async getMember(companyId: string, memberId: string) {
+    const member = await this.prisma.user.findFirst({
+      where: { id: memberId, companyId, isServiceAccount: false },
+      select: { id: true, customRoleId: true },
+    });
+
+    if (!member) {
+      throw new NotFoundException('User not found in this company');
+    }
+
+    return member;
+  }
+}
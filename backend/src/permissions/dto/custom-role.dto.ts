@@ -0,0 +1,46 @@
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  IsIn,
+  ArrayUnique,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { COMPANY_PERMISSIONS } from '../permissions';
+
+export class CreateCustomRoleDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(50)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(COMPANY_PERMISSIONS, { each: true })
+  permissions: string[];
+}
+
+export class UpdateCustomRoleDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(50)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(COMPANY_PERMISSIONS, { each: true })
+  permissions?: string[];
+}
@@ -0,0 +1,33 @@
+import { Controller, Get, UseGuards, Request } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { PermissionsService } from './permissions.service';
+import { PERMISSIONS, ROLE_PERMISSIONS } from './permissions';
+
+@Controller('permissions')
+@UseGuards(JwtAuthGuard)
+export class PermissionsController {
+  constructor(private permissionsService: PermissionsService) {}
+
+  // Catalog of permissions and what each built-in role grants
+  @Get()
+  getCatalog() {
+    return { permissions: PERMISSIONS, roles: ROLE_PERMISSIONS };
+  }
+
+  @Get('me')
+  async getMyPermissions(@Request() req) {
+    const permissions = await this.permissionsService.getEffectivePermissions(
+      req.user.userId,
+    );
+
+    const elevation = await this.permissionsService.getElevation(
+      req.user.userId,
+    );
+
+    return {
+      role: req.user.role,
+      permissions: [...permissions].sort(),
+      elevation,
+    };
+  }
+}
@@ -0,0 +1,20 @@
+import { Global, Module } from '@nestjs/common';
+import { PermissionsService } from './permissions.service';
+import { CustomRolesService } from './custom-roles.service';
+import { PermissionsController } from './permissions.controller';
+import { CustomRolesController } from './custom-roles.controller';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CompaniesModule } from '../companies/companies.module';
+import { ApprovalsModule } from '../approvals/approvals.module';
+
+// Global because RolesGuard and PermissionsGuard, used by every module, need
+// PermissionsService
+@Global()
+@Module({
+  imports: [PrismaModule, CompaniesModule, ApprovalsModule],
+  controllers: [PermissionsController, CustomRolesController],
+  providers: [PermissionsService, CustomRolesService, PermissionsGuard],
+  exports: [PermissionsService, PermissionsGuard],
+})
+export class PermissionsModule {}
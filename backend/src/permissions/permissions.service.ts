@@ -0,0 +1,179 @@
+import { Injectable } from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { Permission, PERMISSIONS, ROLE_PERMISSIONS } from './permissions';
+import { SCOPE_PERMISSIONS, TokenScope } from '../auth/scopes';
+
+export interface Elevation {
+  grantId: string;
+  role: Role;
+  expiresAt: Date;
+}
+
+interface CachedPermissions {
+  permissions: Set<Permission>;
+  // Without the elevation; the most a user may hand out to others
+  grantable: Set<Permission>;
+  elevation: Elevation | null;
+  expiresAt: number;
+}
+
+/**
+ * Resolves a user's effective permissions: those of their built-in role,
+ * those of their company's custom role, if any, and those of the role of an
+ * active elevation grant. Service accounts only get those of their scopes.
+ *
+ * Results are cached per user for PERMISSIONS_CACHE_TTL seconds, never past
+ * the end of an elevation. Changes made through this instance invalidate the
+ * cache right away; other instances pick them up when their entry expires.
+ */
+@Injectable()
+export class PermissionsService {
+  private readonly ttlMs =
+    parseInt(process.env.PERMISSIONS_CACHE_TTL || '60') * 1000;
+  private cache = new Map<string, CachedPermissions>();
+
+  constructor(private prisma: PrismaService) {}
+
+  async getEffectivePermissions(userId: string): Promise<Set<Permission>> {
+    return (await this.resolve(userId)).permissions;
+  }
+
+  // Temporary elevations can never be turned into permanent roles
+  async getGrantablePermissions(userId: string): Promise<Set<Permission>> {
+    return (await this.resolve(userId)).grantable;
+  }
+
+  async getElevation(userId: string): Promise<Elevation | null> {
+    return (await this.resolve(userId)).elevation;
+  }
+
+  async hasPermissions(
+    userId: string,
+    required: readonly Permission[],
+  ): Promise<boolean> {
+    const permissions = await this.getEffectivePermissions(userId);
+    return required.every((permission) => permissions.has(permission));
+  }
+
+  // @Roles() compatibility: the user has the role, or all of its permissions
+  async satisfiesRole(
+    user: { userId: string; role: string },
+    role: string,
+  ): Promise<boolean> {
+    if (user.role === role) {
+      return true;
+    }
+
+    const rolePermissions = ROLE_PERMISSIONS[role as Role];
+
+    if (!rolePermissions) {
+      return false;
+    }
+
+    return this.hasPermissions(user.userId, rolePermissions);
+  }
+
+  private async resolve(userId: string): Promise<CachedPermissions> {
+    const cached = this.cache.get(userId);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        role: true,
+        companyId: true,
+        isServiceAccount: true,
+        serviceAccount: { select: { scopes: true } },
+        customRole: { select: { companyId: true, permissions: true } },
+        elevationGrants: {
+          where: { status: 'ACTIVE', expiresAt: { gt: new Date() } },
+          select: { id: true, role: true, companyId: true, expiresAt: true },
+          take: 1,
+        },
+      },
+    });
+
+    if (user?.isServiceAccount) {
+      return this.cacheEntry(
+        userId,
+        this.getScopePermissions(user.serviceAccount?.scopes ?? []),
+      );
+    }
+
+    const permissions = new Set<Permission>(
+      user ? ROLE_PERMISSIONS[user.role] : [],
+    );
+
+    // A custom role only applies inside the company that defined it
+    if (user?.customRole && user.customRole.companyId === user.companyId) {
+      for (const permission of user.customRole.permissions) {
+        if ((PERMISSIONS as readonly string[]).includes(permission)) {
+          permissions.add(permission as Permission);
+        }
+      }
+    }
+
+    const grantable = new Set(permissions);
+
+    // Same for elevation grants
+    const grant = user?.elevationGrants[0];
+    const elevation =
+      grant && grant.companyId === user.companyId
+        ? { grantId: grant.id, role: grant.role, expiresAt: grant.expiresAt }
+        : null;
+
+    if (elevation) {
+      ROLE_PERMISSIONS[elevation.role].forEach((permission) =>
+        permissions.add(permission),
+      );
+    }
+
+    const entry = {
+      permissions,
+      grantable,
+      elevation,
+      expiresAt: Math.min(
+        Date.now() + this.ttlMs,
+        elevation?.expiresAt.getTime() ?? Infinity,
+      ),
+    };
+    this.cache.set(userId, entry);
+
+    return entry;
+  }
+
+  // Service accounts: their scopes only, and nothing they may hand out
+  private cacheEntry(
+    userId: string,
+    permissions: Set<Permission>,
+  ): CachedPermissions {
+    const entry = {
+      permissions,
+      grantable: new Set<Permission>(),
+      elevation: null,
+      expiresAt: Date.now() + this.ttlMs,
+    };
+    this.cache.set(userId, entry);
+
+    return entry;
+  }
+
+  private getScopePermissions(scopes: string[]): Set<Permission> {
+    return new Set(
+      scopes.flatMap((scope) => SCOPE_PERMISSIONS[scope as TokenScope] ?? []),
+    );
+  }
+
+  invalidateUser(userId: string) {
+    this.cache.delete(userId);
+  }
+
+  // After a custom role changed; cheaper than tracking its members
+  invalidateAll() {
+    this.cache.clear();
+  }
+}
@@ -0,0 +1,47 @@
+import { Role } from '@prisma/client';
+
+// Every named permission. Company permissions can be bundled into custom
+// roles; platform permissions are reserved to ADMIN.
+export const COMPANY_PERMISSIONS = [
+  'users:read',
+  'users:deactivate',
+  'users:roles',
+  'companies:read',
+  'companies:manage',
+  'companies:audit',
+  'roles:manage',
+  'invitations:read',
+  'invitations:write',
+  'service-accounts:manage',
+  'storage:read',
+  'storage:write',
+  'storage:delete',
+] as const;
+
+export const PLATFORM_PERMISSIONS = ['platform:admin'] as const;
+
+export const PERMISSIONS = [
+  ...COMPANY_PERMISSIONS,
+  ...PLATFORM_PERMISSIONS,
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Built-in roles. Also the compatibility mapping for @Roles(): a route
+// limited to a role admits anyone holding every permission of that role.
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  // storage:delete only reaches their own uploads (file:delete policy)
+  EMPLOYEE: ['storage:read', 'storage:write', 'storage:delete'],
+  MANAGER: [
+    'users:read',
+    'users:deactivate',
+    'companies:read',
+    'invitations:read',
+    'invitations:write',
+    'storage:read',
+    'storage:write',
+    'storage:delete',
+  ],
+  BOSS: COMPANY_PERMISSIONS,
+  ADMIN: PLATFORM_PERMISSIONS,
+};
@@ -1,11 +1,13 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
 import { execSync } from 'child_process';
+import { tenantMiddleware } from './tenant-scope';
 
 @Injectable()
 export class PrismaService extends PrismaClient {
   constructor() {
     super();
+    this.$use(tenantMiddleware);
   }
 
   async onModuleInit() {
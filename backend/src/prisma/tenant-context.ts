@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface TenantContext {
+  companyId: string | null;
+  userId: string;
+}
+
+// null marks a block explicitly opted out of tenant scoping
+const storage = new AsyncLocalStorage<TenantContext | null>();
+
+export function runWithTenant<T>(context: TenantContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+// For lookups that must see every tenant, such as global uniqueness checks
+export function runUnscoped<T>(fn: () => T): T {
+  return storage.run(null, fn);
+}
+
+export function getTenant(): TenantContext | null {
+  return storage.getStore() ?? null;
+}
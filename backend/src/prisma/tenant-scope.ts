@@ -0,0 +1,97 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { getTenant, TenantContext } from './tenant-context';
+
+type TenantFilter = (tenant: TenantContext) => Record<string, unknown>;
+
+// Users see their company's members, or only themselves without a company
+const userFilter: TenantFilter = ({ companyId, userId }) =>
+  companyId ? { OR: [{ companyId }, { id: userId }] } : { id: userId };
+
+const companyFilter: TenantFilter = ({ companyId }) => ({
+  companyId: companyId ?? { in: [] },
+});
+
+const ownerFilter: TenantFilter = (tenant) => ({
+  user: { is: userFilter(tenant) },
+});
+
+// Tenant-owned models and the rows of each visible to a tenant
+export const TENANT_FILTERS: Partial<Record<Prisma.ModelName, TenantFilter>> = {
+  User: userFilter,
+  CustomRole: companyFilter,
+  Invitation: companyFilter,
+  ServiceAccount: companyFilter,
+  CompanyAuditLog: companyFilter,
+  TwoFARecoveryRequest: ({ companyId, userId }) =>
+    companyId ? { OR: [{ companyId }, { userId }] } : { userId },
+  ApprovalRequest: ({ companyId, userId }) =>
+    companyId
+      ? { OR: [{ companyId }, { requestedBy: userId }] }
+      : { requestedBy: userId },
+  StoredFile: ({ companyId, userId }) =>
+    companyId ? { companyId } : { uploadedBy: userId },
+  Session: ownerFilter,
+  AuditLog: ownerFilter,
+};
+
+const FILTERED_ACTIONS = new Set<Prisma.PrismaAction>([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+/**
+ * Confines every query on a tenant-owned model to the caller's company while
+ * a tenant context is active (see TenantContextInterceptor). Reads, updates
+ * and deletes get the tenant filter ANDed into their `where`, so rows of
+ * other companies behave as if they did not exist; creates are rejected when
+ * they name another company.
+ *
+ * Nested reads and writes through relations are not filtered; they start
+ * from a row that already passed the filter.
+ */
+export const tenantMiddleware: Prisma.Middleware = async (params, next) => {
+  const tenant = getTenant();
+  const filter = tenant && params.model && TENANT_FILTERS[params.model];
+
+  if (!filter) {
+    return next(params);
+  }
+
+  if (FILTERED_ACTIONS.has(params.action)) {
+    const where = params.args?.where ?? {};
+    const and = where.AND ? [].concat(where.AND) : [];
+
+    params.args = {
+      ...params.args,
+      where: { ...where, AND: [...and, filter(tenant)] },
+    };
+  }
+
+  if (params.action === 'create' || params.action === 'createMany') {
+    const rows = [].concat(params.args?.data ?? []);
+
+    if (
+      rows.some(
+        (row) =>
+          typeof row.companyId === 'string' &&
+          row.companyId !== tenant.companyId,
+      )
+    ) {
+      throw new ForbiddenException('Cannot create records for another company');
+    }
+  }
+
+  return next(params);
+};
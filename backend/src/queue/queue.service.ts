@@ -79,6 +79,60 @@ export class QueueService {
     ); // High priority
   }
 
+  async sendVerificationEmail(to: string, token: string) {
+    const verifyUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/verify-email?token=${token}`;
+
+    return this.sendEmail(
+      {
+        to,
+        subject: 'Verify Your Email Address',
+        body: `Confirm your email address: ${verifyUrl}`,
+      },
+      1,
+    ); // High priority
+  }
+
+  async send2FARecoveryEmail(to: string, token: string) {
+    const confirmUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/2fa-recovery/confirm?token=${token}`;
+
+    return this.sendEmail(
+      {
+        to,
+        subject: 'Confirm Your 2FA Recovery Request',
+        body: `A reset of two-factor authentication was requested for your account. If this was you, confirm it: ${confirmUrl}`,
+      },
+      1,
+    ); // High priority
+  }
+
+  async send2FARecoveryApprovedEmail(
+    to: string,
+    executeAfter: Date,
+    cancelToken: string,
+  ) {
+    const cancelUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/2fa-recovery/cancel?token=${cancelToken}`;
+
+    return this.sendEmail(
+      {
+        to,
+        subject: '2FA Reset Approved',
+        body: `Two-factor authentication on your account will be reset after ${executeAfter.toISOString()}. If you did not ask for this, cancel it now: ${cancelUrl}`,
+      },
+      1,
+    ); // High priority
+  }
+
+  async send2FARecoveryCompletedEmail(to: string) {
+    return this.sendEmail(
+      {
+        to,
+        subject: '2FA Has Been Reset',
+        body: 'Two-factor authentication on your account was reset. You will be asked to set it up again on your next login.',
+      },
+      1,
+    ); // High priority
+  }
+
   // Notification Queue
   async sendNotification(data: NotificationJob) {
     return this.notificationQueue.add('send-notification', data, {
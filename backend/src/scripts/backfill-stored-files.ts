@@ -0,0 +1,128 @@
+import { PrismaClient } from '@prisma/client';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * One-off migration for uploads written before StoredFile existed. Such files
+ * have no record, so no policy can grant access to them. This records each
+ * one for the company that owns it:
+ *
+ *   npm run storage:backfill -- --company <companyId> [--owner <userId>]
+ *
+ * The owner defaults to the company's owner. Without --company the unrecorded
+ * files are only listed.
+ */
+
+// Extensions of StorageService.allowedMimeTypes
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx':
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export async function findUnrecordedUploads(
+  prisma: PrismaClient,
+  uploadDir: string,
+): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const file of await fs.readdir(uploadDir)) {
+    if ((await fs.stat(path.join(uploadDir, file))).isFile()) {
+      files.push(file);
+    }
+  }
+
+  const recorded = await prisma.storedFile.findMany({
+    where: { id: { in: files.map((file) => path.parse(file).name) } },
+    select: { id: true },
+  });
+  const known = new Set(recorded.map((file) => file.id));
+
+  return files.filter((file) => !known.has(path.parse(file).name));
+}
+
+export async function backfillStoredFiles(
+  prisma: PrismaClient,
+  uploadDir: string,
+  owner: { companyId: string; userId?: string },
+): Promise<number> {
+  const company = await prisma.company.findUnique({
+    where: { id: owner.companyId },
+    select: { id: true, ownerId: true },
+  });
+
+  if (!company) {
+    throw new Error(`Company ${owner.companyId} not found`);
+  }
+
+  const files = await findUnrecordedUploads(prisma, uploadDir);
+  const data = [];
+
+  for (const file of files) {
+    const stats = await fs.stat(path.join(uploadDir, file));
+
+    data.push({
+      id: path.parse(file).name,
+      originalName: file,
+      mimetype:
+        MIME_TYPES_BY_EXTENSION[path.extname(file).toLowerCase()] ||
+        'application/octet-stream',
+      size: stats.size,
+      uploadedBy: owner.userId || company.ownerId,
+      companyId: company.id,
+      createdAt: stats.birthtime,
+    });
+  }
+
+  // Files recorded meanwhile by a running instance keep their record
+  const { count } = await prisma.storedFile.createMany({
+    data,
+    skipDuplicates: true,
+  });
+
+  return count;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index === -1 ? undefined : args[index + 1];
+  };
+
+  const uploadDir = path.join(process.cwd(), 'uploads');
+  const companyId = option('company');
+  const prisma = new PrismaClient();
+
+  try {
+    if (!companyId) {
+      const files = await findUnrecordedUploads(prisma, uploadDir);
+      console.log(`${files.length} unrecorded upload(s)`);
+      files.forEach((file) => console.log(`  ${file}`));
+      return;
+    }
+
+    const count = await backfillStoredFiles(prisma, uploadDir, {
+      companyId,
+      userId: option('owner'),
+    });
+    console.log(`Recorded ${count} upload(s) for company ${companyId}`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
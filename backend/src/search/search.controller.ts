@@ -9,11 +9,12 @@ import {
   ParseBoolPipe,
 } from '@nestjs/common';
 import { SearchService } from './search.service';
-import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { JwtAuthGuard, Scopes } from '../auth/guards/auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 
 @Controller('search')
 @UseGuards(JwtAuthGuard, RolesGuard)
+@Scopes('users:read')
 export class SearchController {
   constructor(private readonly searchService: SearchService) {}
 
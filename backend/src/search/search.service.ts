@@ -19,7 +19,9 @@ export class SearchService {
   ): Promise<SearchResult<any>> {
     const skip = (page - 1) * pageSize;
 
+    // Service accounts are not people and never show up in search
     const whereClause = {
+      isServiceAccount: false,
       OR: [
         { email: { contains: query, mode: 'insensitive' as const } },
         { firstName: { contains: query, mode: 'insensitive' as const } },
@@ -56,6 +58,7 @@ export class SearchService {
   async searchByEmail(email: string): Promise<any[]> {
     return this.prisma.user.findMany({
       where: {
+        isServiceAccount: false,
         email: {
           contains: email,
           mode: 'insensitive',
@@ -78,10 +81,11 @@ export class SearchService {
     pageSize = 10,
   ): Promise<SearchResult<any>> {
     const skip = (page - 1) * pageSize;
+    const whereClause = { role: role as any, isServiceAccount: false };
 
     const [results, total] = await Promise.all([
       this.prisma.user.findMany({
-        where: { role: role as any },
+        where: whereClause,
         skip,
         take: pageSize,
         select: {
@@ -93,7 +97,7 @@ export class SearchService {
           createdAt: true,
         },
       }),
-      this.prisma.user.count({ where: { role: role as any } }),
+      this.prisma.user.count({ where: whereClause }),
     ]);
 
     return {
@@ -124,7 +128,7 @@ export class SearchService {
     } = filters;
     const skip = (page - 1) * pageSize;
 
-    const whereClause: any = {};
+    const whereClause: any = { isServiceAccount: false };
 
     if (query) {
       whereClause.OR = [
@@ -176,11 +180,14 @@ export class SearchService {
   }
 
   async getUserStats() {
+    const humans = { isServiceAccount: false };
+
     const [total, withTwoFactor, byRole] = await Promise.all([
-      this.prisma.user.count(),
-      this.prisma.user.count({ where: { isTwoFAEnabled: true } }),
+      this.prisma.user.count({ where: humans }),
+      this.prisma.user.count({ where: { ...humans, isTwoFAEnabled: true } }),
       this.prisma.user.groupBy({
         by: ['role'],
+        where: humans,
         _count: true,
       }),
     ]);
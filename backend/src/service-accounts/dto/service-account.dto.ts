@@ -0,0 +1,23 @@
+import {
+  IsString,
+  IsArray,
+  IsIn,
+  MinLength,
+  MaxLength,
+  ArrayNotEmpty,
+  ArrayUnique,
+} from 'class-validator';
+import { TOKEN_SCOPES, TokenScope } from '../../auth/scopes';
+
+export class CreateServiceAccountDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(TOKEN_SCOPES, { each: true })
+  scopes: TokenScope[];
+}
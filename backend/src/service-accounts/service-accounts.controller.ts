@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ServiceAccountsService } from './service-accounts.service';
+import { CreateServiceAccountDto } from './dto/service-account.dto';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import {
+  PermissionsGuard,
+  RequirePermissions,
+} from '../auth/guards/permissions.guard';
+import { Client, ClientContext } from '../common/decorators/client.decorator';
+
+@Controller('service-accounts')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+export class ServiceAccountsController {
+  constructor(private serviceAccountsService: ServiceAccountsService) {}
+
+  @Post()
+  @RequirePermissions('service-accounts:manage')
+  @HttpCode(HttpStatus.CREATED)
+  async createServiceAccount(
+    @Request() req,
+    @Body() dto: CreateServiceAccountDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.serviceAccountsService.createServiceAccount(
+      req.user.userId,
+      req.user.companyId,
+      dto,
+      client,
+    );
+  }
+
+  @Get()
+  @RequirePermissions('service-accounts:manage')
+  async listServiceAccounts(@Request() req) {
+    return this.serviceAccountsService.listServiceAccounts(req.user.companyId);
+  }
+
+  @Post(':id/rotate-secret')
+  @RequirePermissions('service-accounts:manage')
+  @HttpCode(HttpStatus.OK)
+  async rotateSecret(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.serviceAccountsService.rotateSecret(
+      id,
+      req.user.companyId,
+      req.user.userId,
+      client,
+    );
+  }
+
+  @Delete(':id')
+  @RequirePermissions('service-accounts:manage')
+  async revokeServiceAccount(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.serviceAccountsService.revokeServiceAccount(
+      id,
+      req.user.companyId,
+      req.user.userId,
+      client,
+    );
+  }
+}
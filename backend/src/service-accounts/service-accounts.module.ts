@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ServiceAccountsService } from './service-accounts.service';
+import { ServiceAccountsController } from './service-accounts.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [PrismaModule, AuthModule],
+  controllers: [ServiceAccountsController],
+  providers: [ServiceAccountsService],
+  exports: [ServiceAccountsService],
+})
+export class ServiceAccountsModule {}
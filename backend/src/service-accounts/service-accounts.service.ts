@@ -0,0 +1,275 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthService } from '../auth/auth.service';
+import { ServiceTokenResponse } from '../auth/interfaces/auth.interface';
+import { CreateServiceAccountDto } from './dto/service-account.dto';
+import { ClientContext } from '../common/decorators/client.decorator';
+import { AuditService } from '../audit/audit.service';
+
+const SERVICE_ACCOUNT_SELECT = {
+  id: true,
+  name: true,
+  clientId: true,
+  scopes: true,
+  companyId: true,
+  createdBy: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+@Injectable()
+export class ServiceAccountsService {
+  constructor(
+    private prisma: PrismaService,
+    private authService: AuthService,
+    private auditService: AuditService,
+  ) {}
+
+  async createServiceAccount(
+    userId: string,
+    companyId: string | null,
+    dto: CreateServiceAccountDto,
+    client?: ClientContext,
+  ) {
+    const company = await this.getCompany(companyId);
+
+    if (!company.isActive) {
+      throw new BadRequestException('Company is inactive');
+    }
+
+    const clientId = `sa_${crypto.randomBytes(8).toString('hex')}`;
+    const clientSecret = this.generateSecret();
+
+    // The backing user acts for the company but can never log in: its
+    // password is random and login rejects service accounts outright. Its
+    // role grants nothing; permissions come from the scopes alone.
+    const unusablePassword = await bcrypt.hash(
+      crypto.randomBytes(32).toString('hex'),
+      10,
+    );
+
+    const serviceAccount = await this.prisma.$transaction(async (tx) => {
+      const user = await tx.user.create({
+        data: {
+          email: `${clientId}@service-accounts.invalid`,
+          username: clientId,
+          password: unusablePassword,
+          firstName: dto.name,
+          role: 'EMPLOYEE',
+          isEmailVerified: true,
+          isServiceAccount: true,
+          companyId: company.id,
+          createdBy: userId,
+        },
+      });
+
+      return tx.serviceAccount.create({
+        data: {
+          userId: user.id,
+          companyId: company.id,
+          name: dto.name,
+          clientId,
+          clientSecretHash: this.hashSecret(clientSecret),
+          scopes: dto.scopes,
+          createdBy: userId,
+        },
+        select: SERVICE_ACCOUNT_SELECT,
+      });
+    });
+
+    await this.auditService.logCompanyAudit(
+      company.id,
+      'SERVICE_ACCOUNT_CREATED',
+      `service-account:${serviceAccount.id}`,
+      userId,
+      { name: dto.name, clientId, scopes: dto.scopes },
+      client,
+    );
+
+    // The secret is only ever returned here and on rotation
+    return { ...serviceAccount, clientSecret };
+  }
+
+  async listServiceAccounts(companyId: string | null) {
+    const company = await this.getCompany(companyId);
+
+    return this.prisma.serviceAccount.findMany({
+      where: { companyId: company.id },
+      select: SERVICE_ACCOUNT_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async rotateSecret(
+    serviceAccountId: string,
+    companyId: string | null,
+    userId: string,
+    client?: ClientContext,
+  ) {
+    const company = await this.getCompany(companyId);
+    const serviceAccount = await this.findActive(serviceAccountId, company.id);
+    const clientSecret = this.generateSecret();
+
+    const updated = await this.prisma.serviceAccount.update({
+      where: { id: serviceAccount.id },
+      data: { clientSecretHash: this.hashSecret(clientSecret) },
+      select: SERVICE_ACCOUNT_SELECT,
+    });
+
+    await this.auditService.logCompanyAudit(
+      company.id,
+      'SERVICE_ACCOUNT_SECRET_ROTATED',
+      `service-account:${serviceAccount.id}`,
+      userId,
+      { clientId: serviceAccount.clientId },
+      client,
+    );
+
+    return { ...updated, clientSecret };
+  }
+
+  async revokeServiceAccount(
+    serviceAccountId: string,
+    companyId: string | null,
+    userId: string,
+    client?: ClientContext,
+  ) {
+    const company = await this.getCompany(companyId);
+    const serviceAccount = await this.findActive(serviceAccountId, company.id);
+
+    // Outstanding tokens stop working because JwtStrategy checks revokedAt
+    const [revoked] = await this.prisma.$transaction([
+      this.prisma.serviceAccount.update({
+        where: { id: serviceAccount.id },
+        data: { revokedAt: new Date() },
+        select: SERVICE_ACCOUNT_SELECT,
+      }),
+      this.prisma.user.update({
+        where: { id: serviceAccount.userId },
+        data: { isActive: false },
+      }),
+    ]);
+
+    await this.auditService.logCompanyAudit(
+      company.id,
+      'SERVICE_ACCOUNT_REVOKED',
+      `service-account:${serviceAccount.id}`,
+      userId,
+      { clientId: serviceAccount.clientId },
+      client,
+    );
+
+    return revoked;
+  }
+
+  // client_credentials grant: requested scopes must be a subset of the grant
+  async issueToken(
+    clientId: string | undefined,
+    clientSecret: string | undefined,
+    scope: string | undefined,
+    client?: ClientContext,
+  ): Promise<ServiceTokenResponse> {
+    const serviceAccount = clientId
+      ? await this.prisma.serviceAccount.findUnique({
+          where: { clientId },
+          include: { user: true, company: true },
+        })
+      : null;
+
+    const secretValid =
+      !!serviceAccount &&
+      crypto.timingSafeEqual(
+        Buffer.from(this.hashSecret(clientSecret || ''), 'hex'),
+        Buffer.from(serviceAccount.clientSecretHash, 'hex'),
+      );
+
+    if (
+      !secretValid ||
+      serviceAccount.revokedAt ||
+      !serviceAccount.user.isActive ||
+      !serviceAccount.company.isActive
+    ) {
+      throw new UnauthorizedException({
+        error: 'invalid_client',
+        error_description: 'Client authentication failed',
+      });
+    }
+
+    const requested = scope ? scope.split(' ').filter(Boolean) : [];
+    const ungranted = requested.filter(
+      (item) => !serviceAccount.scopes.includes(item),
+    );
+
+    if (ungranted.length) {
+      throw new BadRequestException({
+        error: 'invalid_scope',
+        error_description: `Scope not granted: ${ungranted.join(', ')}`,
+      });
+    }
+
+    await this.prisma.serviceAccount.update({
+      where: { id: serviceAccount.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return this.authService.issueServiceToken(
+      serviceAccount.user,
+      serviceAccount.id,
+      requested.length ? requested : serviceAccount.scopes,
+      client,
+    );
+  }
+
+  // PermissionsGuard has already checked service-accounts:manage for the
+  // caller's own company
+  private async getCompany(companyId: string | null) {
+    if (!companyId) {
+      throw new BadRequestException(
+        'You must belong to a company to manage service accounts',
+      );
+    }
+
+    const company = await this.prisma.company.findUnique({
+      where: { id: companyId },
+    });
+
+    if (!company) {
+      throw new NotFoundException('Company not found');
+    }
+
+    return company;
+  }
+
+  private async findActive(serviceAccountId: string, companyId: string) {
+    const serviceAccount = await this.prisma.serviceAccount.findFirst({
+      where: { id: serviceAccountId, companyId },
+    });
+
+    if (!serviceAccount) {
+      throw new NotFoundException('Service account not found');
+    }
+
+    if (serviceAccount.revokedAt) {
+      throw new BadRequestException('Service account already revoked');
+    }
+
+    return serviceAccount;
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
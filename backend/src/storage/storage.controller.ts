@@ -15,7 +15,12 @@ import {
 import { FileInterceptor } from '@nestjs/platform-express';
 import { Response } from 'express';
 import { StorageService } from './storage.service';
-import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { JwtAuthGuard, Scopes } from '../auth/guards/auth.guard';
+import {
+  PermissionsGuard,
+  RequirePermissions,
+} from '../auth/guards/permissions.guard';
+import { AuthzGuard, Authorize } from '../auth/guards/authz.guard';
 
 @Controller('storage')
 @UseGuards(JwtAuthGuard)
@@ -23,14 +28,18 @@ export class StorageController {
   constructor(private readonly storageService: StorageService) {}
 
   @Post('upload')
+  @Scopes('storage:write')
   @UseInterceptors(FileInterceptor('file'))
   async uploadFile(@UploadedFile() file: Express.Multer.File, @Req() req: any) {
     if (!file) {
       throw new BadRequestException('No file uploaded');
     }
 
-    const userId = req.user.sub;
-    const uploadedFile = await this.storageService.saveFile(file, userId);
+    const uploadedFile = await this.storageService.saveFile(
+      file,
+      req.user.userId,
+      req.user.companyId ?? null,
+    );
 
     return {
       statusCode: HttpStatus.CREATED,
@@ -46,6 +55,9 @@ export class StorageController {
   }
 
   @Get(':id')
+  @UseGuards(AuthzGuard)
+  @Authorize('file:read')
+  @Scopes('storage:read')
   async getFile(@Param('id') id: string, @Res() res: Response) {
     const fileBuffer = await this.storageService.getFile(id);
     const metadata = await this.storageService.getFileMetadata(id);
@@ -59,6 +71,9 @@ export class StorageController {
   }
 
   @Get(':id/metadata')
+  @UseGuards(AuthzGuard)
+  @Authorize('file:read')
+  @Scopes('storage:read')
   async getFileMetadata(@Param('id') id: string) {
     const metadata = await this.storageService.getFileMetadata(id);
 
@@ -69,7 +84,11 @@ export class StorageController {
   }
 
   @Delete(':id')
-  async deleteFile(@Param('id') id: string, @Req() req: any) {
+  @UseGuards(PermissionsGuard, AuthzGuard)
+  @RequirePermissions('storage:delete')
+  @Authorize('file:delete')
+  @Scopes('storage:write')
+  async deleteFile(@Param('id') id: string) {
     await this.storageService.deleteFile(id);
 
     return {
@@ -79,8 +98,14 @@ export class StorageController {
   }
 
   @Get()
-  async listFiles() {
-    const files = await this.storageService.listFiles();
+  @UseGuards(PermissionsGuard)
+  @RequirePermissions('storage:read')
+  @Scopes('storage:read')
+  async listFiles(@Req() req: any) {
+    const files = await this.storageService.listFiles(
+      req.user.userId,
+      req.user.companyId ?? null,
+    );
 
     return {
       statusCode: HttpStatus.OK,
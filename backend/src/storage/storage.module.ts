@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
 import { StorageService } from './storage.service';
 import { StorageController } from './storage.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthzModule } from '../authz/authz.module';
 
 @Module({
+  imports: [PrismaModule, AuthzModule],
   providers: [StorageService],
   controllers: [StorageController],
   exports: [StorageService],
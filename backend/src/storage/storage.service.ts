@@ -1,11 +1,13 @@
 import {
   Injectable,
+  OnModuleInit,
   BadRequestException,
   NotFoundException,
 } from '@nestjs/common';
 import { promises as fs } from 'fs';
 import * as path from 'path';
-import { v4 as uuidv4 } from 'uuid';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
 
 export interface UploadedFile {
   id: string;
@@ -18,7 +20,7 @@ export interface UploadedFile {
 }
 
 @Injectable()
-export class StorageService {
+export class StorageService implements OnModuleInit {
   private readonly uploadDir = path.join(process.cwd(), 'uploads');
   private readonly maxFileSize = 10 * 1024 * 1024; // 10MB
   private readonly allowedMimeTypes = [
@@ -33,8 +35,10 @@ export class StorageService {
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
   ];
 
-  constructor() {
-    this.ensureUploadDirectory();
+  constructor(private prisma: PrismaService) {}
+
+  async onModuleInit() {
+    await this.ensureUploadDirectory();
   }
 
   private async ensureUploadDirectory() {
@@ -48,6 +52,7 @@ export class StorageService {
   async saveFile(
     file: Express.Multer.File,
     userId: string,
+    companyId: string | null,
   ): Promise<UploadedFile> {
     // Validate file
     if (!file) {
@@ -65,7 +70,7 @@ export class StorageService {
     }
 
     // Generate unique filename
-    const fileId = uuidv4();
+    const fileId = crypto.randomUUID();
     const ext = path.extname(file.originalname);
     const filename = `${fileId}${ext}`;
     const filePath = path.join(this.uploadDir, filename);
@@ -73,6 +78,24 @@ export class StorageService {
     // Save file
     await fs.writeFile(filePath, file.buffer);
 
+    // Ownership drives who may download it, see src/authz/policies.ts
+    try {
+      await this.prisma.storedFile.create({
+        data: {
+          id: fileId,
+          originalName: file.originalname,
+          mimetype: file.mimetype,
+          size: file.size,
+          uploadedBy: userId,
+          companyId,
+        },
+      });
+    } catch (error) {
+      // Without a record nobody could ever reach the file
+      await fs.unlink(filePath).catch(() => undefined);
+      throw error;
+    }
+
     // Return file metadata
     return {
       id: fileId,
@@ -86,52 +109,83 @@ export class StorageService {
   }
 
   async getFile(fileId: string): Promise<Buffer> {
-    const files = await fs.readdir(this.uploadDir);
-    const file = files.find((f) => f.startsWith(fileId));
+    const storedFile = await this.findStoredFile(fileId);
 
-    if (!file) {
+    try {
+      return await fs.readFile(
+        path.join(this.uploadDir, this.diskName(storedFile)),
+      );
+    } catch {
       throw new NotFoundException('File not found');
     }
-
-    const filePath = path.join(this.uploadDir, file);
-    return fs.readFile(filePath);
   }
 
   async deleteFile(fileId: string): Promise<void> {
-    const files = await fs.readdir(this.uploadDir);
-    const file = files.find((f) => f.startsWith(fileId));
+    const storedFile = await this.findStoredFile(fileId);
 
-    if (!file) {
-      throw new NotFoundException('File not found');
+    try {
+      await fs.unlink(path.join(this.uploadDir, this.diskName(storedFile)));
+    } catch (error) {
+      // Already gone from disk, still drop the record
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
     }
 
-    const filePath = path.join(this.uploadDir, file);
-    await fs.unlink(filePath);
+    await this.prisma.storedFile.delete({ where: { id: storedFile.id } });
   }
 
   async getFileMetadata(fileId: string): Promise<any> {
-    const files = await fs.readdir(this.uploadDir);
-    const file = files.find((f) => f.startsWith(fileId));
+    const storedFile = await this.findStoredFile(fileId);
+    const filename = this.diskName(storedFile);
 
-    if (!file) {
+    let stats;
+    try {
+      stats = await fs.stat(path.join(this.uploadDir, filename));
+    } catch {
       throw new NotFoundException('File not found');
     }
 
-    const filePath = path.join(this.uploadDir, file);
-    const stats = await fs.stat(filePath);
-
     return {
-      id: fileId,
-      filename: file,
+      id: storedFile.id,
+      filename,
       size: stats.size,
       createdAt: stats.birthtime,
       modifiedAt: stats.mtime,
     };
   }
 
-  async listFiles(): Promise<string[]> {
-    const files = await fs.readdir(this.uploadDir);
-    return files;
+  // Files of the caller's company, or their own without one
+  async listFiles(userId: string, companyId: string | null) {
+    return this.prisma.storedFile.findMany({
+      where: companyId ? { companyId } : { uploadedBy: userId },
+      select: {
+        id: true,
+        originalName: true,
+        mimetype: true,
+        size: true,
+        uploadedBy: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private async findStoredFile(fileId: string) {
+    const storedFile = await this.prisma.storedFile.findUnique({
+      where: { id: fileId },
+    });
+
+    if (!storedFile) {
+      throw new NotFoundException('File not found');
+    }
+
+    return storedFile;
+  }
+
+  // Files are stored as <id><extension of the original name>
+  private diskName(storedFile: { id: string; originalName: string }) {
+    return `${storedFile.id}${path.extname(storedFile.originalName)}`;
   }
 
   // For production: Integrate with cloud storage (AWS S3, Google Cloud Storage, Azure Blob)
@@ -140,7 +194,7 @@ export class StorageService {
     // Example with AWS S3:
     // const params = {
     //   Bucket: process.env.S3_BUCKET,
-    //   Key: `uploads/${uuidv4()}${path.extname(file.originalname)}`,
+    //   Key: `uploads/${crypto.randomUUID()}${path.extname(file.originalname)}`,
     //   Body: file.buffer,
     //   ContentType: file.mimetype,
     // };
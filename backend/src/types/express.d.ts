@@ -6,6 +6,16 @@ declare namespace Express {
       email: string;
       username: string;
       role: string;
+      companyId?: string | null;
+      isEmailVerified?: boolean;
+      sessionId?: string;
+      apiKeyId?: string; // Set for personal access tokens
+      principalType?: 'user' | 'service';
+      serviceAccountId?: string;
+      scopes?: string[];
+    };
+    oauthClient?: {
+      clientId: string;
     };
   }
 }
@@ -12,8 +12,17 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { UsersService } from './users.service';
-import { JwtAuthGuard } from '../auth/guards/auth.guard';
-import { Roles, RolesGuard } from '../auth/guards/roles.guard';
+import {
+  JwtAuthGuard,
+  AllowUnverified,
+  Scopes,
+} from '../auth/guards/auth.guard';
+import {
+  PermissionsGuard,
+  RequirePermissions,
+} from '../auth/guards/permissions.guard';
+import { AuthzGuard, Authorize } from '../auth/guards/authz.guard';
+import { Client, ClientContext } from '../common/decorators/client.decorator';
 
 @Controller('users')
 @UseGuards(JwtAuthGuard)
@@ -21,11 +30,14 @@ export class UsersController {
   constructor(private usersService: UsersService) {}
 
   @Get('me')
+  @AllowUnverified()
+  @Scopes('users:read')
   async getCurrentUser(@Request() req) {
     return this.usersService.findById(req.user.userId);
   }
 
   @Get('me/audit-logs')
+  @Scopes('users:read')
   async getMyAuditLogs(
     @Request() req,
     @Query('skip') skip = 0,
@@ -39,18 +51,32 @@ export class UsersController {
     return this.usersService.getUserSessions(req.user.userId);
   }
 
+  @Delete('me/sessions/others')
+  async revokeOtherSessions(@Request() req, @Client() client: ClientContext) {
+    return this.usersService.revokeOtherSessions(
+      req.user.userId,
+      req.user.sessionId,
+      client,
+    );
+  }
+
   @Delete('me/sessions/:sessionId')
-  async revokeSession(@Param('sessionId') sessionId: string) {
-    return this.usersService.revokeSession(sessionId);
+  async revokeSession(
+    @Request() req,
+    @Param('sessionId') sessionId: string,
+    @Client() client: ClientContext,
+  ) {
+    return this.usersService.revokeSession(req.user.userId, sessionId, client);
   }
 
   @Delete('me/sessions')
-  async revokeAllSessions(@Request() req) {
-    return this.usersService.revokeAllSessions(req.user.userId);
+  async revokeAllSessions(@Request() req, @Client() client: ClientContext) {
+    return this.usersService.revokeAllSessions(req.user.userId, client);
   }
 
-  @UseGuards(RolesGuard)
-  @Roles('BOSS')
+  @UseGuards(PermissionsGuard)
+  @RequirePermissions('users:read')
+  @Scopes('users:read')
   @Get()
   async getAllUsers(
     @Query('skip') skip = 0,
@@ -59,8 +85,9 @@ export class UsersController {
     return this.usersService.getAllUsers(skip, take);
   }
 
-  @UseGuards(RolesGuard)
-  @Roles('BOSS')
+  @UseGuards(AuthzGuard)
+  @Authorize('user:read')
+  @Scopes('users:read')
   @Get(':id')
   async getUser(@Param('id') id: string) {
     const user = await this.usersService.findById(id);
@@ -70,32 +97,50 @@ export class UsersController {
     return user;
   }
 
-  @UseGuards(RolesGuard)
-  @Roles('BOSS')
+  @UseGuards(PermissionsGuard)
+  @RequirePermissions('users:roles')
+  @Scopes('users:write')
   @Patch(':id/role')
   async updateUserRole(
     @Param('id') id: string,
     @Body('role') role: string,
+    @Request() req,
+    @Client() client: ClientContext,
   ) {
-    return this.usersService.updateUserRole(id, role);
+    return this.usersService.updateUserRole(id, role, req.user, client);
   }
 
-  @UseGuards(RolesGuard)
-  @Roles('BOSS')
+  @UseGuards(PermissionsGuard, AuthzGuard)
+  @RequirePermissions('users:deactivate')
+  @Authorize('user:deactivate')
+  @Scopes('users:write')
   @Patch(':id/deactivate')
-  async deactivateUser(@Param('id') id: string) {
-    return this.usersService.deactivateUser(id);
+  async deactivateUser(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.usersService.deactivateUser(id, req.user, client);
   }
 
-  @UseGuards(RolesGuard)
-  @Roles('BOSS')
+  @UseGuards(PermissionsGuard, AuthzGuard)
+  @RequirePermissions('users:deactivate')
+  @Authorize('user:deactivate')
+  @Scopes('users:write')
   @Patch(':id/activate')
-  async activateUser(@Param('id') id: string) {
-    return this.usersService.activateUser(id);
+  async activateUser(
+    @Param('id') id: string,
+    @Request() req,
+    @Client() client: ClientContext,
+  ) {
+    return this.usersService.activateUser(id, req.user, client);
   }
 
-  @UseGuards(RolesGuard)
-  @Roles('BOSS')
+  // Another user's trail and sessions are for auditors of their company
+  @UseGuards(PermissionsGuard, AuthzGuard)
+  @RequirePermissions('companies:audit')
+  @Authorize('user:read')
+  @Scopes('users:read')
   @Get(':id/audit-logs')
   async getUserAuditLogs(
     @Param('id') id: string,
@@ -105,8 +150,10 @@ export class UsersController {
     return this.usersService.getUserAuditLogs(id, skip, take);
   }
 
-  @UseGuards(RolesGuard)
-  @Roles('BOSS')
+  @UseGuards(PermissionsGuard, AuthzGuard)
+  @RequirePermissions('companies:audit')
+  @Authorize('user:read')
+  @Scopes('users:read')
   @Get(':id/sessions')
   async getUserSessions(@Param('id') id: string) {
     return this.usersService.getUserSessions(id);
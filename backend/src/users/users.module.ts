@@ -2,9 +2,12 @@ import { Module } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { QueueModule } from '../queue/queue.module';
+import { AuthzModule } from '../authz/authz.module';
+import { ApprovalsModule } from '../approvals/approvals.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, QueueModule, AuthzModule, ApprovalsModule],
   controllers: [UsersController],
   providers: [UsersService],
   exports: [UsersService],
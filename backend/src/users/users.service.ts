@@ -1,9 +1,51 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  OnModuleInit,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { QueueService } from '../queue/queue.service';
+import { PermissionsService } from '../permissions/permissions.service';
+import { ROLE_PERMISSIONS } from '../permissions/permissions';
+import { ApprovalsService } from '../approvals/approvals.service';
+import { ClientContext } from '../common/decorators/client.decorator';
+import { AuditService } from '../audit/audit.service';
+
+type Actor = { userId: string; companyId: string | null };
+
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000; // Limit lastActivity writes
 
 @Injectable()
-export class UsersService {
-  constructor(private prisma: PrismaService) {}
+export class UsersService implements OnModuleInit {
+  constructor(
+    private prisma: PrismaService,
+    private queueService: QueueService,
+    private permissionsService: PermissionsService,
+    private approvalsService: ApprovalsService,
+    private auditService: AuditService,
+  ) {}
+
+  // Run once a second user approves a held role change, deactivation or
+  // reactivation
+  onModuleInit() {
+    this.approvalsService.registerExecutor(
+      'user:role',
+      async ({ userId, role }, actor) => {
+        await this.assertRoleGrantable(role, actor.userId);
+        return this.applyRoleChange(userId, role);
+      },
+    );
+
+    this.approvalsService.registerExecutor('user:deactivate', ({ userId }) =>
+      this.updateUser(userId, { isActive: false }),
+    );
+
+    this.approvalsService.registerExecutor('user:activate', ({ userId }) =>
+      this.updateUser(userId, { isActive: true }),
+    );
+  }
 
   async findById(id: string) {
     return this.prisma.user.findUnique({
@@ -18,6 +60,7 @@ export class UsersService {
         isEmailVerified: true,
         isActive: true,
         isTwoFAEnabled: true,
+        companyId: true,
         lastLogin: true,
         createdAt: true,
         updatedAt: true,
@@ -53,8 +96,12 @@ export class UsersService {
   }
 
   async getAllUsers(skip = 0, take = 10) {
+    // Service accounts are managed under /service-accounts
+    const humans = { isServiceAccount: false };
+
     const [users, total] = await Promise.all([
       this.prisma.user.findMany({
+        where: humans,
         skip,
         take,
         select: {
@@ -69,7 +116,7 @@ export class UsersService {
           createdAt: true,
         },
       }),
-      this.prisma.user.count(),
+      this.prisma.user.count({ where: humans }),
     ]);
 
     return { users, total, skip, take };
@@ -100,22 +147,61 @@ export class UsersService {
     });
   }
 
-  async deactivateUser(id: string) {
+  async deactivateUser(id: string, actor: Actor, client?: ClientContext) {
+    if (this.approvalsService.isRequired('user:deactivate')) {
+      await this.assertExists(id);
+      return this.approvalsService.submit(
+        'user:deactivate',
+        { userId: id },
+        actor,
+        client,
+      );
+    }
+
     return this.updateUser(id, { isActive: false });
   }
 
-  async activateUser(id: string) {
+  async activateUser(id: string, actor: Actor, client?: ClientContext) {
+    if (this.approvalsService.isRequired('user:activate')) {
+      await this.assertExists(id);
+      return this.approvalsService.submit(
+        'user:activate',
+        { userId: id },
+        actor,
+        client,
+      );
+    }
+
     return this.updateUser(id, { isActive: true });
   }
 
-  async updateUserRole(userId: string, newRole: string) {
-    const validRoles = ['BOSS', 'EMPLOYEE'];
+  async updateUserRole(
+    userId: string,
+    newRole: string,
+    actor: Actor,
+    client?: ClientContext,
+  ) {
+    const validRoles = ['BOSS', 'MANAGER', 'EMPLOYEE'];
 
     if (!validRoles.includes(newRole)) {
-      throw new BadRequestException('Invalid role. Must be BOSS or EMPLOYEE');
+      throw new BadRequestException(
+        'Invalid role. Must be BOSS, MANAGER or EMPLOYEE',
+      );
+    }
+
+    await this.assertRoleGrantable(newRole, actor.userId);
+    await this.assertRoleChangeable(userId);
+
+    if (this.approvalsService.isRequired('user:role')) {
+      return this.approvalsService.submit(
+        'user:role',
+        { userId, role: newRole },
+        actor,
+        client,
+      );
     }
 
-    return this.updateUser(userId, { role: newRole });
+    return this.applyRoleChange(userId, newRole);
   }
 
   async getUserAuditLogs(userId: string, skip = 0, take = 20) {
@@ -147,17 +233,177 @@ export class UsersService {
     });
   }
 
-  async revokeSession(sessionId: string) {
-    return this.prisma.session.delete({
-      where: { id: sessionId },
+  async findActiveSession(sessionId: string, userId: string) {
+    return this.prisma.session.findFirst({
+      where: {
+        id: sessionId,
+        userId,
+        expiresAt: { gt: new Date() },
+      },
     });
   }
 
-  async revokeAllSessions(userId: string) {
-    await this.prisma.session.deleteMany({
+  async findActiveServiceAccount(serviceAccountId: string, userId: string) {
+    return this.prisma.serviceAccount.findFirst({
+      where: {
+        id: serviceAccountId,
+        userId,
+        revokedAt: null,
+        company: { isActive: true },
+      },
+    });
+  }
+
+  async touchSession(session: { id: string; lastActivity: Date }) {
+    const idleMs = Date.now() - session.lastActivity.getTime();
+
+    if (idleMs < SESSION_TOUCH_INTERVAL_MS) {
+      return;
+    }
+
+    await this.prisma.session.update({
+      where: { id: session.id },
+      data: { lastActivity: new Date() },
+    });
+  }
+
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    client?: ClientContext,
+  ) {
+    // Scope the lookup to the caller so foreign session ids look missing
+    const session = await this.prisma.session.findFirst({
+      where: { id: sessionId, userId },
+      select: { id: true },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.revokeSessions(userId, [session.id], 'single', client);
+
+    return { message: 'Session revoked' };
+  }
+
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId: string,
+    client?: ClientContext,
+  ) {
+    const sessions = await this.prisma.session.findMany({
+      where: { userId, id: { not: currentSessionId } },
+      select: { id: true },
+    });
+
+    await this.revokeSessions(
+      userId,
+      sessions.map((session) => session.id),
+      'others',
+      client,
+    );
+
+    return { message: 'Other sessions revoked', count: sessions.length };
+  }
+
+  async revokeAllSessions(userId: string, client?: ClientContext) {
+    const sessions = await this.prisma.session.findMany({
       where: { userId },
+      select: { id: true },
     });
 
+    await this.revokeSessions(
+      userId,
+      sessions.map((session) => session.id),
+      'all',
+      client,
+    );
+
     return { message: 'All sessions revoked' };
   }
+
+  // Nobody can hand out more than they permanently hold themselves
+  private async assertRoleGrantable(role: string, actorId: string) {
+    const held = await this.permissionsService.getGrantablePermissions(actorId);
+
+    if (!ROLE_PERMISSIONS[role].every((permission) => held.has(permission))) {
+      throw new ForbiddenException(
+        'You cannot grant a role with permissions you do not hold',
+      );
+    }
+  }
+
+  private async applyRoleChange(userId: string, role: string) {
+    const user = await this.updateUser(userId, { role });
+    this.permissionsService.invalidateUser(userId);
+
+    return user;
+  }
+
+  private async assertExists(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+  }
+
+  private async assertRoleChangeable(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { isServiceAccount: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    // Their permissions come from their scopes, never from a role
+    if (user.isServiceAccount) {
+      throw new BadRequestException('Service accounts have no role to change');
+    }
+  }
+
+  private async revokeSessions(
+    userId: string,
+    sessionIds: string[],
+    scope: 'single' | 'others' | 'all',
+    client?: ClientContext,
+  ) {
+    if (sessionIds.length === 0) {
+      return;
+    }
+
+    // Revoke linked refresh tokens first - deleting a session nulls the link
+    await this.prisma.refreshToken.updateMany({
+      where: { userId, sessionId: { in: sessionIds }, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    await this.prisma.session.deleteMany({
+      where: { userId, id: { in: sessionIds } },
+    });
+
+    for (const sessionId of sessionIds) {
+      await this.auditService.logUserAudit(
+        userId,
+        'SESSION_REVOKED',
+        'session',
+        { sessionId, scope },
+        client,
+      );
+    }
+
+    await this.queueService.notifySecurityEvent(
+      userId,
+      sessionIds.length === 1
+        ? 'A session was signed out of your account'
+        : `${sessionIds.length} sessions were signed out of your account`,
+      { sessionIds, scope, ip: client?.ip, userAgent: client?.userAgent },
+    );
+  }
 }
@@ -0,0 +1,36 @@
+import {
+  IsString,
+  IsOptional,
+  IsObject,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import type {
+  RegistrationResponseJSON,
+  AuthenticationResponseJSON,
+} from '@simplewebauthn/server';
+
+export class RegisterPasskeyDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  // Output of navigator.credentials.create(), serialized as JSON
+  @IsObject()
+  response: RegistrationResponseJSON;
+}
+
+export class PasskeyLoginOptionsDto {
+  // Temporary token from /auth/login when used as a second factor;
+  // omitted for passwordless login
+  @IsOptional()
+  @IsString()
+  token?: string;
+}
+
+export class PasskeyLoginDto extends PasskeyLoginOptionsDto {
+  // Output of navigator.credentials.get(), serialized as JSON
+  @IsObject()
+  response: AuthenticationResponseJSON;
+}
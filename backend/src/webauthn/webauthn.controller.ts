@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Param,
+  UseGuards,
+  Request,
+  Body,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { WebAuthnService } from './webauthn.service';
+import {
+  RegisterPasskeyDto,
+  PasskeyLoginOptionsDto,
+  PasskeyLoginDto,
+} from './dto/webauthn.dto';
+import { JwtAuthGuard } from '../auth/guards/auth.guard';
+import { Client, ClientContext } from '../common/decorators/client.decorator';
+
+@Controller('webauthn')
+export class WebAuthnController {
+  constructor(private webAuthnService: WebAuthnService) {}
+
+  @Post('register/options')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async registrationOptions(@Request() req) {
+    return this.webAuthnService.generateRegistrationOptions(req.user.userId);
+  }
+
+  @Post('register/verify')
+  @UseGuards(JwtAuthGuard)
+  async register(
+    @Request() req,
+    @Body() dto: RegisterPasskeyDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.webAuthnService.registerPasskey(
+      req.user.userId,
+      dto.name,
+      dto.response,
+      client,
+    );
+  }
+
+  @Get('credentials')
+  @UseGuards(JwtAuthGuard)
+  async listPasskeys(@Request() req) {
+    return this.webAuthnService.listPasskeys(req.user.userId);
+  }
+
+  @Delete('credentials/:id')
+  @UseGuards(JwtAuthGuard)
+  async removePasskey(
+    @Request() req,
+    @Param('id') id: string,
+    @Client() client: ClientContext,
+  ) {
+    return this.webAuthnService.removePasskey(req.user.userId, id, client);
+  }
+
+  @Post('login/options')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 10, ttl: 60 } })
+  @HttpCode(HttpStatus.OK)
+  async loginOptions(
+    @Body() dto: PasskeyLoginOptionsDto,
+    @Client() client: ClientContext,
+  ) {
+    return this.webAuthnService.generateLoginOptions(dto.token, client);
+  }
+
+  @Post('login/verify')
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60 } })
+  @HttpCode(HttpStatus.OK)
+  async login(@Body() dto: PasskeyLoginDto, @Client() client: ClientContext) {
+    return this.webAuthnService.login(dto.response, dto.token, client);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { WebAuthnController } from './webauthn.controller';
+import { WebAuthnService } from './webauthn.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [PrismaModule, AuthModule],
+  controllers: [WebAuthnController],
+  providers: [WebAuthnService],
+})
+export class WebAuthnModule {}
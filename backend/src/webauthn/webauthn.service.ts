@@ -0,0 +1,414 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  AuthenticatorTransportFuture,
+  RegistrationResponseJSON,
+  AuthenticationResponseJSON,
+} from '@simplewebauthn/server';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthService } from '../auth/auth.service';
+import { getEmailVerificationPolicy } from '../auth/guards/auth.guard';
+import { ClientContext } from '../common/decorators/client.decorator';
+import { AuditService } from '../audit/audit.service';
+
+type CeremonyType = 'registration' | 'authentication';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // Matches the 2FA temp token
+const MAX_PASSKEYS = 10;
+
+const PASSKEY_SELECT = {
+  id: true,
+  name: true,
+  transports: true,
+  deviceType: true,
+  backedUp: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+@Injectable()
+export class WebAuthnService {
+  private readonly rpID = process.env.WEBAUTHN_RP_ID || 'localhost';
+  private readonly rpName = process.env.WEBAUTHN_RP_NAME || 'Auth App';
+  private readonly origins = (
+    process.env.WEBAUTHN_ORIGINS ||
+    process.env.FRONTEND_URL ||
+    'http://localhost:3000'
+  )
+    .split(',')
+    .map((origin) => origin.trim());
+
+  constructor(
+    private prisma: PrismaService,
+    private authService: AuthService,
+    private auditService: AuditService,
+  ) {}
+
+  async generateRegistrationOptions(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { webAuthnCredentials: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.webAuthnCredentials.length >= MAX_PASSKEYS) {
+      throw new BadRequestException(
+        `A user can register at most ${MAX_PASSKEYS} passkeys`,
+      );
+    }
+
+    const options = await generateRegistrationOptions({
+      rpName: this.rpName,
+      rpID: this.rpID,
+      userName: user.email,
+      userID: new TextEncoder().encode(user.id),
+      userDisplayName: user.username,
+      attestationType: 'none',
+      // Stops the same authenticator from being registered twice
+      excludeCredentials: user.webAuthnCredentials.map((credential) => ({
+        id: credential.credentialId,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred',
+      },
+    });
+
+    await this.storeChallenge(options.challenge, 'registration', user.id);
+
+    return options;
+  }
+
+  async registerPasskey(
+    userId: string,
+    name: string,
+    response: RegistrationResponseJSON,
+    client?: ClientContext,
+  ) {
+    const challenge = await this.consumeChallenge(
+      response,
+      'registration',
+      userId,
+    );
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge: challenge,
+        expectedOrigin: this.origins,
+        expectedRPID: this.rpID,
+        requireUserVerification: false,
+      });
+    } catch (error) {
+      throw new BadRequestException(
+        `Passkey registration failed: ${error.message}`,
+      );
+    }
+
+    if (!verification.verified) {
+      throw new BadRequestException('Passkey registration failed');
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } =
+      verification.registrationInfo;
+
+    const existing = await this.prisma.webAuthnCredential.findUnique({
+      where: { credentialId: credential.id },
+    });
+
+    if (existing) {
+      throw new BadRequestException('Passkey already registered');
+    }
+
+    const passkey = await this.prisma.webAuthnCredential.create({
+      data: {
+        userId,
+        name,
+        credentialId: credential.id,
+        publicKey: Buffer.from(credential.publicKey),
+        counter: credential.counter,
+        transports: credential.transports || [],
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+      },
+      select: PASSKEY_SELECT,
+    });
+
+    await this.auditService.logUserAudit(
+      userId,
+      'PASSKEY_REGISTERED',
+      `passkey:${passkey.id}`,
+      { name },
+      client,
+    );
+
+    return passkey;
+  }
+
+  async listPasskeys(userId: string) {
+    return this.prisma.webAuthnCredential.findMany({
+      where: { userId },
+      select: PASSKEY_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async removePasskey(
+    userId: string,
+    passkeyId: string,
+    client?: ClientContext,
+  ) {
+    const passkey = await this.prisma.webAuthnCredential.findFirst({
+      where: { id: passkeyId, userId },
+    });
+
+    if (!passkey) {
+      throw new NotFoundException('Passkey not found');
+    }
+
+    await this.prisma.webAuthnCredential.delete({
+      where: { id: passkey.id },
+    });
+
+    await this.auditService.logUserAudit(
+      userId,
+      'PASSKEY_REMOVED',
+      `passkey:${passkey.id}`,
+      { name: passkey.name },
+      client,
+    );
+
+    return { message: 'Passkey removed successfully' };
+  }
+
+  // With a 2FA token the passkey is a second factor for that user; without
+  // one the browser offers any discoverable passkey (passwordless login)
+  async generateLoginOptions(token?: string, client?: ClientContext) {
+    let userId: string | null = null;
+    let allowCredentials: {
+      id: string;
+      transports?: AuthenticatorTransportFuture[];
+    }[] = [];
+
+    if (token) {
+      userId = this.verifyLoginChallenge(token, client).userId;
+
+      const passkeys = await this.prisma.webAuthnCredential.findMany({
+        where: { userId },
+      });
+
+      if (!passkeys.length) {
+        throw new BadRequestException('No passkeys registered');
+      }
+
+      allowCredentials = passkeys.map((passkey) => ({
+        id: passkey.credentialId,
+        transports: passkey.transports as AuthenticatorTransportFuture[],
+      }));
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID: this.rpID,
+      allowCredentials,
+      userVerification: token ? 'preferred' : 'required',
+    });
+
+    await this.storeChallenge(options.challenge, 'authentication', userId);
+
+    return options;
+  }
+
+  async login(
+    response: AuthenticationResponseJSON,
+    token?: string,
+    client?: ClientContext,
+  ) {
+    const loginChallenge = token
+      ? this.verifyLoginChallenge(token, client)
+      : null;
+    const userId = loginChallenge?.userId ?? null;
+    const challenge = await this.consumeChallenge(
+      response,
+      'authentication',
+      userId,
+    );
+
+    const passkey = await this.prisma.webAuthnCredential.findUnique({
+      where: { credentialId: response.id },
+      include: { user: true },
+    });
+
+    if (!passkey || (userId && passkey.userId !== userId)) {
+      throw new UnauthorizedException('Unknown passkey');
+    }
+
+    // Discoverable credentials also report the user handle we registered
+    const userHandle = response.response.userHandle;
+    if (
+      userHandle &&
+      Buffer.from(userHandle, 'base64url').toString() !== passkey.userId
+    ) {
+      throw new UnauthorizedException('Unknown passkey');
+    }
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: challenge,
+        expectedOrigin: this.origins,
+        expectedRPID: this.rpID,
+        credential: {
+          id: passkey.credentialId,
+          publicKey: new Uint8Array(passkey.publicKey),
+          counter: Number(passkey.counter),
+          transports: passkey.transports as AuthenticatorTransportFuture[],
+        },
+        // Passwordless login needs the PIN/biometric to count as two factors
+        requireUserVerification: !token,
+      });
+    } catch (error) {
+      await this.auditService.logUserAudit(
+        passkey.userId,
+        'PASSKEY_LOGIN_FAILED',
+        `passkey:${passkey.id}`,
+        { reason: error.message },
+        client,
+      );
+      throw new UnauthorizedException('Passkey verification failed');
+    }
+
+    if (!verification.verified) {
+      throw new UnauthorizedException('Passkey verification failed');
+    }
+
+    const { user } = passkey;
+    this.assertCanLogIn(user);
+
+    await this.prisma.webAuthnCredential.update({
+      where: { id: passkey.id },
+      data: {
+        counter: verification.authenticationInfo.newCounter,
+        backedUp: verification.authenticationInfo.credentialBackedUp,
+        lastUsedAt: new Date(),
+      },
+    });
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { lastLogin: new Date(), twoFAAttempts: 0, twoFALockUntil: null },
+    });
+
+    await this.auditService.logUserAudit(
+      user.id,
+      token ? '2FA_VERIFIED' : 'PASSKEY_LOGIN',
+      'user',
+      { passkeyId: passkey.id, method: 'webauthn' },
+      client,
+    );
+
+    return this.authService.generateAuthResponse(
+      user,
+      client,
+      loginChallenge?.riskEventId,
+    );
+  }
+
+  private verifyLoginChallenge(token: string, client?: ClientContext) {
+    try {
+      return this.authService.verifyLoginChallenge(token, client);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+  }
+
+  // Mirrors the checks password login applies before issuing tokens
+  private assertCanLogIn(user: {
+    isActive: boolean;
+    isServiceAccount: boolean;
+    isEmailVerified: boolean;
+    lockUntil: Date | null;
+  }) {
+    if (!user.isActive || user.isServiceAccount) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    if (user.lockUntil && new Date() < user.lockUntil) {
+      throw new UnauthorizedException(
+        'Account is locked due to too many failed attempts. Try again later.',
+      );
+    }
+
+    if (!user.isEmailVerified && getEmailVerificationPolicy() === 'block') {
+      throw new ForbiddenException('Email address has not been verified');
+    }
+  }
+
+  private async storeChallenge(
+    challenge: string,
+    type: CeremonyType,
+    userId: string | null,
+  ) {
+    // Opportunistic cleanup keeps the table small without a scheduled job
+    await this.prisma.webAuthnChallenge.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    await this.prisma.webAuthnChallenge.create({
+      data: {
+        challenge,
+        type,
+        userId,
+        expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+      },
+    });
+  }
+
+  // Single use: the challenge row is deleted whether or not verification
+  // succeeds afterwards
+  private async consumeChallenge(
+    response: { response: { clientDataJSON: string } },
+    type: CeremonyType,
+    userId: string | null,
+  ): Promise<string> {
+    let challenge: string;
+
+    try {
+      const clientData = JSON.parse(
+        Buffer.from(response.response.clientDataJSON, 'base64url').toString(),
+      );
+      challenge = clientData.challenge;
+    } catch {
+      throw new BadRequestException('Malformed WebAuthn response');
+    }
+
+    const consumed = await this.prisma.webAuthnChallenge.deleteMany({
+      where: {
+        challenge,
+        type,
+        userId,
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    if (consumed.count === 0) {
+      throw new BadRequestException('Invalid or expired challenge');
+    }
+
+    return challenge;
+  }
+}
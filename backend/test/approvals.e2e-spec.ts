@@ -0,0 +1,335 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from './../src/app.module';
+import { PrismaService } from './../src/prisma/prisma.service';
+import { ApprovalsService } from './../src/approvals/approvals.service';
+import { COMPANY_PERMISSIONS } from './../src/permissions/permissions';
+
+describe('Four-Eyes Approvals (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+  let companyId: string;
+
+  let accounts: Record<
+    'boss' | 'cosigner' | 'manager' | 'employee',
+    { id: string; token: string }
+  >;
+
+  const signUp = async (name: string, data: Record<string, unknown> = {}) => {
+    const stamp = `${Date.now()}${Math.floor(Math.random() * 1000)}`;
+    const user = {
+      email: `appr${name}-${stamp}@example.com`,
+      password: 'ApproveP@ss123',
+      username: `ap${name}${stamp}`.slice(0, 20),
+    };
+
+    await request(app.getHttpServer()).post('/auth/register').send(user);
+    const updated = await prisma.user.update({
+      where: { email: user.email },
+      data,
+    });
+
+    const login = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: user.email, password: user.password });
+
+    return { id: updated.id, token: login.body.accessToken as string };
+  };
+
+  const as = (account: keyof typeof accounts) => ({
+    get: (url: string) =>
+      request(app.getHttpServer())
+        .get(url)
+        .set('Authorization', `Bearer ${accounts[account].token}`),
+    patch: (url: string) =>
+      request(app.getHttpServer())
+        .patch(url)
+        .set('Authorization', `Bearer ${accounts[account].token}`),
+    post: (url: string) =>
+      request(app.getHttpServer())
+        .post(url)
+        .set('Authorization', `Bearer ${accounts[account].token}`),
+    put: (url: string) =>
+      request(app.getHttpServer())
+        .put(url)
+        .set('Authorization', `Bearer ${accounts[account].token}`),
+  });
+
+  const auditActions = async (approvalId: string) => {
+    const logs = await prisma.companyAuditLog.findMany({
+      where: { resource: `approval:${approvalId}` },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return logs.map((log) => log.action);
+  };
+
+  beforeAll(async () => {
+    process.env.APPROVAL_REQUIRED_ACTIONS = 'user:role,user:deactivate';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    prisma = app.get(PrismaService);
+
+    const boss = await signUp('boss', { role: 'BOSS' });
+
+    const company = await request(app.getHttpServer())
+      .post('/companies')
+      .set('Authorization', `Bearer ${boss.token}`)
+      .send({ name: `Approvals Co ${Date.now()}` });
+    companyId = company.body.id;
+
+    accounts = {
+      boss,
+      cosigner: await signUp('cosign', { role: 'BOSS', companyId }),
+      manager: await signUp('mgr', { role: 'MANAGER', companyId }),
+      employee: await signUp('emp', { companyId }),
+    };
+  });
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS;
+    await app.close();
+  });
+
+  describe('Role changes', () => {
+    let approval: { id: string; payloadHash: string };
+
+    it('should hold the change until a second approval', async () => {
+      const response = await as('boss')
+        .patch(`/users/${accounts.employee.id}/role`)
+        .send({ role: 'MANAGER' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.approval.status).toBe('PENDING');
+      expect(response.body.approval.payload).toEqual({
+        userId: accounts.employee.id,
+        role: 'MANAGER',
+      });
+      approval = response.body.approval;
+
+      const user = await prisma.user.findUnique({
+        where: { id: accounts.employee.id },
+      });
+      expect(user.role).toBe('EMPLOYEE');
+
+      const duplicate = await as('boss')
+        .patch(`/users/${accounts.employee.id}/role`)
+        .send({ role: 'MANAGER' });
+      expect(duplicate.status).toBe(409);
+    });
+
+    it('should not let the requester or unauthorized users approve', async () => {
+      const own = await as('boss')
+        .post(`/approvals/${approval.id}/approve`)
+        .send({ payloadHash: approval.payloadHash });
+      expect(own.status).toBe(403);
+
+      // Managers cannot change roles, so they cannot approve it either
+      const manager = await as('manager')
+        .post(`/approvals/${approval.id}/approve`)
+        .send({ payloadHash: approval.payloadHash });
+      expect(manager.status).toBe(403);
+
+      const pending = await as('manager').get('/approvals/pending');
+      expect(pending.body).toEqual([]);
+    });
+
+    it('should bind the approval to the payload', async () => {
+      const response = await as('cosigner')
+        .post(`/approvals/${approval.id}/approve`)
+        .send({ payloadHash: 'f'.repeat(64) });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should run the change once approved', async () => {
+      const pending = await as('cosigner').get('/approvals/pending');
+      expect(pending.body.map((item) => item.id)).toContain(approval.id);
+
+      const response = await as('cosigner')
+        .post(`/approvals/${approval.id}/approve`)
+        .send({ payloadHash: approval.payloadHash });
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('EXECUTED');
+
+      const user = await prisma.user.findUnique({
+        where: { id: accounts.employee.id },
+      });
+      expect(user.role).toBe('MANAGER');
+
+      const again = await as('cosigner')
+        .post(`/approvals/${approval.id}/approve`)
+        .send({ payloadHash: approval.payloadHash });
+      expect(again.status).toBe(404);
+
+      expect(await auditActions(approval.id)).toEqual([
+        'APPROVAL_REQUESTED',
+        'APPROVAL_EXECUTED',
+      ]);
+    });
+  });
+
+  describe('Deactivations', () => {
+    it('should leave the user active when rejected', async () => {
+      const { body } = await as('boss').patch(
+        `/users/${accounts.employee.id}/deactivate`,
+      );
+      expect(body.approval.action).toBe('user:deactivate');
+
+      const response = await as('cosigner')
+        .post(`/approvals/${body.approval.id}/reject`)
+        .send({ reason: 'Still on the project' });
+      expect(response.status).toBe(200);
+
+      const user = await prisma.user.findUnique({
+        where: { id: accounts.employee.id },
+      });
+      expect(user.isActive).toBe(true);
+
+      const mine = await as('boss').get('/approvals?status=REJECTED');
+      expect(mine.body.map((item) => item.id)).toEqual([body.approval.id]);
+      expect(mine.body[0].reason).toBe('Still on the project');
+
+      const reviewed = await as('cosigner').get('/approvals/reviewed');
+      expect(reviewed.body.map((item) => item.id)).toContain(body.approval.id);
+    });
+
+    it('should let the requester cancel', async () => {
+      const { body } = await as('boss').patch(
+        `/users/${accounts.employee.id}/deactivate`,
+      );
+
+      const other = await as('cosigner').post(
+        `/approvals/${body.approval.id}/cancel`,
+      );
+      expect(other.status).toBe(404);
+
+      const cancel = await as('boss').post(
+        `/approvals/${body.approval.id}/cancel`,
+      );
+      expect(cancel.status).toBe(200);
+      expect(cancel.body.status).toBe('CANCELLED');
+    });
+
+    it('should expire requests nobody acted on', async () => {
+      const { body } = await as('boss').patch(
+        `/users/${accounts.employee.id}/deactivate`,
+      );
+      const approvalsService = app.get(ApprovalsService);
+
+      // Not due yet
+      expect(await approvalsService.expireRequest(body.approval.id)).toBe(
+        false,
+      );
+
+      await prisma.approvalRequest.update({
+        where: { id: body.approval.id },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      const late = await as('cosigner')
+        .post(`/approvals/${body.approval.id}/approve`)
+        .send({ payloadHash: body.approval.payloadHash });
+      expect(late.status).toBe(409);
+
+      expect(await approvalsService.expireRequest(body.approval.id)).toBe(true);
+
+      const approval = await prisma.approvalRequest.findUnique({
+        where: { id: body.approval.id },
+      });
+      expect(approval.status).toBe('EXPIRED');
+
+      expect(await auditActions(body.approval.id)).toEqual([
+        'APPROVAL_REQUESTED',
+        'APPROVAL_EXPIRED',
+      ]);
+    });
+
+    it('should hold reactivations along with deactivations', async () => {
+      await prisma.user.update({
+        where: { id: accounts.employee.id },
+        data: { isActive: false },
+      });
+
+      const { body } = await as('boss').patch(
+        `/users/${accounts.employee.id}/activate`,
+      );
+      expect(body.approval.action).toBe('user:activate');
+
+      const held = await prisma.user.findUnique({
+        where: { id: accounts.employee.id },
+      });
+      expect(held.isActive).toBe(false);
+
+      const response = await as('cosigner')
+        .post(`/approvals/${body.approval.id}/approve`)
+        .send({ payloadHash: body.approval.payloadHash });
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('EXECUTED');
+
+      const user = await prisma.user.findUnique({
+        where: { id: accounts.employee.id },
+      });
+      expect(user.isActive).toBe(true);
+    });
+  });
+
+  describe('Custom roles', () => {
+    it('should hold defining and assigning roles along with role changes', async () => {
+      const created = await as('boss')
+        .post(`/companies/${companyId}/roles`)
+        .send({ name: 'Shadow BOSS', permissions: [...COMPANY_PERMISSIONS] });
+      expect(created.body.approval.action).toBe('role:create');
+
+      expect(
+        await prisma.customRole.findFirst({
+          where: { companyId, name: 'Shadow BOSS' },
+        }),
+      ).toBeNull();
+    });
+
+    it('should not let a self-made approver approve', async () => {
+      // As if the BOSS had managed to define the role without approval
+      const role = await prisma.customRole.create({
+        data: {
+          companyId,
+          name: `Approver ${Date.now()}`,
+          permissions: [...COMPANY_PERMISSIONS],
+        },
+      });
+      const recruit = await signUp('recruit', { companyId });
+
+      const assigned = await as('boss').put(
+        `/companies/${companyId}/roles/${role.id}/members/${recruit.id}`,
+      );
+      expect(assigned.body.approval.action).toBe('role:assign');
+
+      const member = await prisma.user.findUnique({
+        where: { id: recruit.id },
+      });
+      expect(member.customRoleId).toBeNull();
+
+      // Neither the assignment nor anything else the BOSS holds can be
+      // approved by the account the BOSS wanted to empower
+      const { body } = await as('boss')
+        .patch(`/users/${accounts.manager.id}/role`)
+        .send({ role: 'EMPLOYEE' });
+
+      for (const approval of [assigned.body.approval, body.approval]) {
+        const response = await request(app.getHttpServer())
+          .post(`/approvals/${approval.id}/approve`)
+          .set('Authorization', `Bearer ${recruit.token}`)
+          .send({ payloadHash: approval.payloadHash });
+        expect(response.status).toBe(403);
+      }
+    });
+  });
+});
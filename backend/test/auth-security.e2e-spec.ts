@@ -1,7 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication } from '@nestjs/common';
 import * as request from 'supertest';
+import * as speakeasy from 'speakeasy';
 import { AppModule } from './../src/app.module';
+import { PrismaService } from './../src/prisma/prisma.service';
+import { EmailService } from './../src/email/email.service';
+import { SecretEncryptionService } from './../src/2fa/secret-encryption.service';
 
 describe('Authentication Security (e2e)', () => {
   let app: INestApplication;
@@ -67,6 +71,56 @@ describe('Authentication Security (e2e)', () => {
       expect([200, 201, 409]).toContain(response.status);
     });
 
+    it('should name every password rule that failed', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({
+          email: `rules-${Date.now()}@example.com`,
+          password: 'lowercaseonly',
+          username: `rules${Date.now()}`,
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toEqual(
+        expect.arrayContaining([
+          'password must contain an uppercase letter',
+          'password must contain a number',
+          'password must contain a symbol',
+        ]),
+      );
+    });
+
+    it('should refuse to reuse recent passwords', async () => {
+      const user = {
+        email: `history-${Date.now()}@example.com`,
+        password: 'FirstP@ss123',
+        username: `history${Date.now()}`,
+      };
+
+      await request(app.getHttpServer()).post('/auth/register').send(user);
+
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: user.email, password: user.password });
+
+      const changePassword = (oldPassword: string, newPassword: string) =>
+        request(app.getHttpServer())
+          .post('/auth/change-password')
+          .set('Authorization', `Bearer ${login.body.accessToken}`)
+          .send({ oldPassword, newPassword });
+
+      const same = await changePassword(user.password, user.password);
+      expect(same.status).toBe(400);
+      expect(same.body.message[0]).toContain('must differ');
+
+      expect(
+        (await changePassword(user.password, 'SecondP@ss123')).status,
+      ).toBe(200);
+
+      const back = await changePassword('SecondP@ss123', user.password);
+      expect(back.status).toBe(400);
+    });
+
     it('should hash passwords before storing', async () => {
       const testUser = {
         email: `hash-test-${Date.now()}@example.com`,
@@ -197,6 +251,31 @@ describe('Authentication Security (e2e)', () => {
       // For production, implement token expiration testing
       expect(true).toBe(true);
     });
+
+    it('should sign tokens with a key published in the JWKS', async () => {
+      const header = JSON.parse(
+        Buffer.from(validToken.split('.')[0], 'base64').toString(),
+      );
+
+      expect(['RS256', 'ES256']).toContain(header.alg);
+      expect(header.kid).toBeDefined();
+
+      const response = await request(app.getHttpServer()).get(
+        '/.well-known/jwks.json',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.keys.map((key) => key.kid)).toContain(header.kid);
+      expect(response.body.keys[0].d).toBeUndefined(); // No private parts
+    });
+
+    it('should only let platform admins rotate signing keys', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/keys/rotate')
+        .set('Authorization', `Bearer ${validToken}`);
+
+      expect(response.status).toBe(403);
+    });
   });
 
   describe('Session Management', () => {
@@ -245,6 +324,114 @@ describe('Authentication Security (e2e)', () => {
       }
     });
 
+    it('should record the session and reject tokens once it is revoked', async () => {
+      const loginResponse = await request(app.getHttpServer())
+        .post('/auth/login')
+        .set('User-Agent', 'session-e2e-agent')
+        .send({
+          email: testUser.email,
+          password: testUser.password,
+        });
+
+      const token = loginResponse.body.accessToken;
+      const { sid } = JSON.parse(
+        Buffer.from(token.split('.')[1], 'base64').toString(),
+      );
+
+      expect(sid).toBeDefined();
+
+      const sessionsResponse = await request(app.getHttpServer())
+        .get('/users/me/sessions')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(sessionsResponse.status).toBe(200);
+      const session = sessionsResponse.body.find((s) => s.id === sid);
+      expect(session.userAgent).toBe('session-e2e-agent');
+
+      await request(app.getHttpServer())
+        .delete(`/users/me/sessions/${sid}`)
+        .set('Authorization', `Bearer ${token}`);
+
+      const afterRevoke = await request(app.getHttpServer())
+        .get('/users/me')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(afterRevoke.status).toBe(401);
+    });
+
+    it('should not let users revoke sessions they do not own', async () => {
+      const ownLogin = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: testUser.email, password: testUser.password });
+
+      const otherUser = {
+        email: `session-other-${Date.now()}@example.com`,
+        password: 'SessionP@ss123',
+        username: `sessother${Date.now()}`,
+      };
+      const otherRegister = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send(otherUser);
+      const otherToken = otherRegister.body.accessToken;
+      const { sid: otherSid } = JSON.parse(
+        Buffer.from(otherToken.split('.')[1], 'base64').toString(),
+      );
+
+      const response = await request(app.getHttpServer())
+        .delete(`/users/me/sessions/${otherSid}`)
+        .set('Authorization', `Bearer ${ownLogin.body.accessToken}`);
+
+      expect(response.status).toBe(404);
+
+      const stillValid = await request(app.getHttpServer())
+        .get('/users/me')
+        .set('Authorization', `Bearer ${otherToken}`);
+
+      expect(stillValid.status).toBe(200);
+    });
+
+    it('should revoke every other session but keep the current one', async () => {
+      const first = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: testUser.email, password: testUser.password });
+      const second = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: testUser.email, password: testUser.password });
+
+      const response = await request(app.getHttpServer())
+        .delete('/users/me/sessions/others')
+        .set('Authorization', `Bearer ${second.body.accessToken}`);
+
+      expect(response.status).toBe(200);
+
+      const current = await request(app.getHttpServer())
+        .get('/users/me')
+        .set('Authorization', `Bearer ${second.body.accessToken}`);
+      expect(current.status).toBe(200);
+
+      const revoked = await request(app.getHttpServer())
+        .get('/users/me')
+        .set('Authorization', `Bearer ${first.body.accessToken}`);
+      expect(revoked.status).toBe(401);
+
+      const refresh = await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refreshToken: first.body.refreshToken });
+      expect(refresh.status).toBe(401);
+    });
+
+    it('should not accept a refresh token as a bearer token', async () => {
+      const loginResponse = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: testUser.email, password: testUser.password });
+
+      const response = await request(app.getHttpServer())
+        .get('/users/me')
+        .set('Authorization', `Bearer ${loginResponse.body.refreshToken}`);
+
+      expect(response.status).toBe(401);
+    });
+
     it('should reject refresh with invalid token', async () => {
       const response = await request(app.getHttpServer())
         .post('/auth/refresh')
@@ -288,6 +475,221 @@ describe('Authentication Security (e2e)', () => {
     });
   });
 
+  describe('Password Reset', () => {
+    const resetUser = {
+      email: `reset-${Date.now()}@example.com`,
+      password: 'ResetP@ss123',
+      username: `reset${Date.now()}`,
+      firstName: 'Reset',
+      lastName: 'Test',
+    };
+
+    beforeAll(async () => {
+      await request(app.getHttpServer()).post('/auth/register').send(resetUser);
+    });
+
+    it('should not reveal whether an email is registered', async () => {
+      const known = await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: resetUser.email });
+
+      const unknown = await request(app.getHttpServer())
+        .post('/auth/forgot-password')
+        .send({ email: `unknown-${Date.now()}@example.com` });
+
+      expect(known.status).toBe(200);
+      expect(unknown.status).toBe(200);
+      expect(known.body).toEqual(unknown.body);
+    });
+
+    it('should reject invalid reset tokens', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token: 'not-a-real-token', newPassword: 'NewResetP@ss123' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should apply registration password rules to the new password', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/reset-password')
+        .send({ token: 'not-a-real-token', newPassword: 'weak' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Email Verification', () => {
+    it('should reject invalid verification tokens', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/verify-email')
+        .send({ token: 'not-a-real-token' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should not reveal whether an email is registered on resend', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/resend-verification')
+        .send({ email: `unknown-verify-${Date.now()}@example.com` });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should report verification status in the auth response', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/register')
+        .send({
+          email: `verify-${Date.now()}@example.com`,
+          password: 'VerifyP@ss123',
+          username: `verify${Date.now()}`,
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.user.isEmailVerified).toBe(false);
+    });
+  });
+
+  describe('API Keys', () => {
+    let accessToken: string;
+    let apiKey: string;
+    let apiKeyId: string;
+
+    beforeAll(async () => {
+      const user = {
+        email: `apikey-${Date.now()}@example.com`,
+        password: 'ApiKeyP@ss123',
+        username: `apikey${Date.now()}`,
+      };
+
+      await request(app.getHttpServer()).post('/auth/register').send(user);
+
+      const loginResponse = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: user.email, password: user.password });
+
+      accessToken = loginResponse.body.accessToken;
+    });
+
+    it('should create a key and show it only once', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/users/me/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'CI script', scopes: ['users:read'], expiresInDays: 30 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.key).toMatch(/^pat_/);
+      expect(response.body.keyHash).toBeUndefined();
+      apiKey = response.body.key;
+      apiKeyId = response.body.id;
+
+      const list = await request(app.getHttpServer())
+        .get('/users/me/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(list.status).toBe(200);
+      expect(list.body[0].prefix).toBe(apiKey.slice(0, 12));
+      expect(list.body[0].key).toBeUndefined();
+    });
+
+    it('should reject unknown scopes', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/users/me/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Bad', scopes: ['everything'], expiresInDays: 30 });
+
+      expect([400, 500]).toContain(response.status);
+    });
+
+    it('should authenticate with the key on routes within its scopes', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/users/me')
+        .set('Authorization', `Bearer ${apiKey}`);
+
+      expect(response.status).toBe(200);
+
+      const list = await request(app.getHttpServer())
+        .get('/users/me/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(list.body[0].lastUsedAt).not.toBeNull();
+    });
+
+    it('should refuse routes outside its scopes', async () => {
+      const storage = await request(app.getHttpServer())
+        .get('/storage')
+        .set('Authorization', `Bearer ${apiKey}`);
+
+      expect(storage.status).toBe(403);
+
+      // Unscoped routes such as key management are closed to keys
+      const keys = await request(app.getHttpServer())
+        .get('/users/me/api-keys')
+        .set('Authorization', `Bearer ${apiKey}`);
+
+      expect(keys.status).toBe(403);
+    });
+
+    it('should reject the key once revoked', async () => {
+      const revoke = await request(app.getHttpServer())
+        .delete(`/users/me/api-keys/${apiKeyId}`)
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(revoke.status).toBe(200);
+
+      const response = await request(app.getHttpServer())
+        .get('/users/me')
+        .set('Authorization', `Bearer ${apiKey}`);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Risk-Based Login', () => {
+    const riskUser = {
+      email: `risk-${Date.now()}@example.com`,
+      password: 'RiskyP@ss123',
+      username: `risk${Date.now()}`,
+    };
+
+    const login = (userAgent: string) =>
+      request(app.getHttpServer())
+        .post('/auth/login')
+        .set('User-Agent', userAgent)
+        .send({ email: riskUser.email, password: riskUser.password });
+
+    beforeAll(async () => {
+      await request(app.getHttpServer()).post('/auth/register').send(riskUser);
+    });
+
+    it('should record each login and flag an unknown device', async () => {
+      const first = await login('Known Browser/1.0');
+      expect(first.body.accessToken).toBeDefined();
+
+      const second = await login('Other Browser/2.0');
+      expect(second.body.accessToken).toBeDefined();
+
+      const events = await request(app.getHttpServer())
+        .get('/auth/login-events')
+        .set('Authorization', `Bearer ${second.body.accessToken}`);
+
+      expect(events.status).toBe(200);
+      expect(events.body[0].decision).toBe('NOTIFY');
+      expect(events.body[0].factors).toContain('new_device');
+      expect(events.body[1].decision).toBe('ALLOW');
+    });
+
+    it('should only let admins review other users', async () => {
+      const { body } = await login('Known Browser/1.0');
+
+      const response = await request(app.getHttpServer())
+        .get(`/auth/login-events/${body.user.id}`)
+        .set('Authorization', `Bearer ${body.accessToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
   describe('Account Lockout', () => {
     const lockoutUser = {
       email: `lockout-${Date.now()}@example.com`,
@@ -297,12 +699,22 @@ describe('Authentication Security (e2e)', () => {
       lastName: 'Test',
     };
 
+    let sendLockout: jest.SpyInstance;
+
     beforeAll(async () => {
+      sendLockout = jest
+        .spyOn(app.get(EmailService), 'sendAccountLockoutNotification')
+        .mockResolvedValue(true);
+
       await request(app.getHttpServer())
         .post('/auth/register')
         .send(lockoutUser);
     });
 
+    afterAll(() => {
+      sendLockout.mockRestore();
+    });
+
     it('should lockout account after multiple failed attempts', async () => {
       // Attempt 6 failed logins
       const attempts = [];
@@ -328,6 +740,46 @@ describe('Authentication Security (e2e)', () => {
       // Should be locked out
       expect([401, 403, 429]).toContain(finalAttempt.status);
     });
+
+    it('should unlock once with the emailed link', async () => {
+      const prisma = app.get(PrismaService);
+      const user = await prisma.user.findUnique({
+        where: { email: lockoutUser.email },
+      });
+
+      expect(user.unlockTokenJti).toBeTruthy();
+
+      const invalid = await request(app.getHttpServer())
+        .post('/auth/unlock-account')
+        .send({ token: 'not-a-token' });
+
+      expect(invalid.status).toBe(400);
+
+      // Only the jti is stored, so the token is taken from the lockout email
+      const [email, , token] = sendLockout.mock.calls[
+        sendLockout.mock.calls.length - 1
+      ] as [string, Date, string];
+      expect(email).toBe(lockoutUser.email);
+
+      const payload = JSON.parse(
+        Buffer.from(token.split('.')[1], 'base64').toString(),
+      );
+      expect(payload.jti).toBe(user.unlockTokenJti);
+
+      const unlock = () =>
+        request(app.getHttpServer())
+          .post('/auth/unlock-account')
+          .send({ token });
+
+      expect((await unlock()).status).toBe(200);
+      expect((await unlock()).status).toBe(400);
+
+      const unlocked = await prisma.user.findUnique({
+        where: { id: user.id },
+      });
+      expect(unlocked.lockUntil).toBeNull();
+      expect(unlocked.lockoutCount).toBe(1);
+    });
   });
 
   describe('Registration Security', () => {
@@ -414,30 +866,70 @@ describe('Authentication Security (e2e)', () => {
   });
 
   describe('2FA Security', () => {
-    const test2FAUser = {
-      email: `2fa-security-${Date.now()}@example.com`,
-      password: 'TwoFAP@ss123',
-      username: `2fasecurity${Date.now()}`,
-      firstName: 'TwoFA',
-      lastName: 'Security',
-    };
-    let accessToken: string;
-    let twoFASecret: string;
+    // Every test enrolls its own account, so none relies on another's state
+    const signUp = async () => {
+      const stamp = `${Date.now()}${Math.floor(Math.random() * 1000)}`;
+      const user = {
+        email: `2fa-security-${stamp}@example.com`,
+        password: 'TwoFAP@ss123',
+        username: `tf${stamp}`,
+        firstName: 'TwoFA',
+        lastName: 'Security',
+      };
 
-    beforeAll(async () => {
-      await request(app.getHttpServer())
-        .post('/auth/register')
-        .send(test2FAUser);
+      await request(app.getHttpServer()).post('/auth/register').send(user);
 
       const loginResponse = await request(app.getHttpServer())
         .post('/auth/login')
+        .send({ email: user.email, password: user.password });
+
+      return { ...user, accessToken: loginResponse.body.accessToken as string };
+    };
+
+    const generateSecret = async (accessToken: string) => {
+      const response = await request(app.getHttpServer())
+        .get('/2fa/generate')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(200);
+      return response.body.secret as string;
+    };
+
+    const totp = (secret: string, offsetSeconds = 0) =>
+      speakeasy.totp({
+        secret,
+        encoding: 'base32',
+        time: Math.floor(Date.now() / 1000) + offsetSeconds,
+      });
+
+    // Consumes the current TOTP step; later codes need a later step
+    const enroll = async () => {
+      const user = await signUp();
+      const twoFASecret = await generateSecret(user.accessToken);
+      expect(twoFASecret).toBeDefined();
+
+      const enableResponse = await request(app.getHttpServer())
+        .post('/2fa/enable')
+        .set('Authorization', `Bearer ${user.accessToken}`)
         .send({
-          email: test2FAUser.email,
-          password: test2FAUser.password,
+          secret: twoFASecret,
+          code: totp(twoFASecret),
+          password: user.password,
         });
 
-      accessToken = loginResponse.body.accessToken;
-    });
+      expect(enableResponse.status).toBe(200);
+      return { ...user, twoFASecret };
+    };
+
+    const login = (
+      user: { email: string; password: string },
+      deviceToken?: string,
+    ) =>
+      request(app.getHttpServer()).post('/auth/login').send({
+        email: user.email,
+        password: user.password,
+        deviceToken,
+      });
 
     it('should require authentication for 2FA generation', async () => {
       const response = await request(app.getHttpServer()).get('/2fa/generate');
@@ -446,17 +938,15 @@ describe('Authentication Security (e2e)', () => {
     });
 
     it('should generate 2FA secret with authentication', async () => {
+      const { accessToken } = await signUp();
+
       const response = await request(app.getHttpServer())
         .get('/2fa/generate')
         .set('Authorization', `Bearer ${accessToken}`);
 
-      expect([200, 403]).toContain(response.status);
-
-      if (response.status === 200) {
-        expect(response.body.secret).toBeDefined();
-        expect(response.body.qrCodeUrl).toBeDefined();
-        twoFASecret = response.body.secret;
-      }
+      expect(response.status).toBe(200);
+      expect(response.body.secret).toBeDefined();
+      expect(response.body.qrCodeUrl).toBeDefined();
     });
 
     it('should require authentication for 2FA enable', async () => {
@@ -468,20 +958,163 @@ describe('Authentication Security (e2e)', () => {
     });
 
     it('should reject invalid 2FA tokens', async () => {
-      if (!twoFASecret) return;
+      const user = await signUp();
+      const twoFASecret = await generateSecret(user.accessToken);
+      expect(twoFASecret).toBeDefined();
 
       const response = await request(app.getHttpServer())
         .post('/2fa/enable')
-        .set('Authorization', `Bearer ${accessToken}`)
-        .send({ token: '000000' }); // Invalid token
+        .set('Authorization', `Bearer ${user.accessToken}`)
+        .send({ secret: twoFASecret, code: '000000', password: user.password });
 
       expect([400, 401]).toContain(response.status);
     });
 
     it('should require 2FA for login when enabled', async () => {
-      // This would require actually enabling 2FA and then logging in
-      // Implementation depends on your 2FA flow
-      expect(true).toBe(true);
+      const user = await enroll();
+
+      const response = await login(user);
+
+      expect(response.body.requiresTwoFA).toBe(true);
+      expect(response.body.accessToken).toBeUndefined();
+      expect(response.body.token).toBeDefined();
+    });
+
+    it('should only let platform admins re-encrypt 2FA secrets', async () => {
+      const { accessToken } = await signUp();
+
+      const response = await request(app.getHttpServer())
+        .post('/2fa/keys/reencrypt')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should reject a replayed TOTP code', async () => {
+      const user = await enroll();
+      const { twoFASecret } = user;
+
+      // Stored versioned, under the active key
+      const { twoFASecret: stored } = await app
+        .get(PrismaService)
+        .user.findUnique({ where: { email: user.email } });
+      const secretEncryption = app.get(SecretEncryptionService);
+      expect(secretEncryption.getKeyId(stored)).toBe(
+        secretEncryption.activeKeyId,
+      );
+      expect(secretEncryption.decrypt(stored)).toBe(twoFASecret);
+
+      // The enrollment code has been consumed; the next step is still valid
+      const code = totp(twoFASecret, 30);
+
+      const first = await request(app.getHttpServer())
+        .post('/2fa/verify-login')
+        .send({ token: (await login(user)).body.token, code });
+
+      expect(first.status).toBe(200);
+      expect(first.body.accessToken).toBeDefined();
+
+      const replay = await request(app.getHttpServer())
+        .post('/2fa/verify-login')
+        .send({ token: (await login(user)).body.token, code });
+
+      expect(replay.status).toBe(401);
+
+      const disable = await request(app.getHttpServer())
+        .post('/2fa/disable')
+        .set('Authorization', `Bearer ${first.body.accessToken}`)
+        .send({ code, password: user.password });
+
+      expect(disable.status).toBe(400);
+      expect(disable.body.message).toContain('already been used');
+    });
+
+    it('should let a remembered browser skip 2FA until revoked', async () => {
+      const user = await enroll();
+
+      const verify = await request(app.getHttpServer())
+        .post('/2fa/verify-login')
+        .send({
+          token: (await login(user)).body.token,
+          // Later than the step consumed by enrollment
+          code: totp(user.twoFASecret, 30),
+          rememberDevice: true,
+        });
+
+      expect(verify.status).toBe(200);
+      expect(verify.body.deviceToken).toBeDefined();
+
+      const trusted = await login(user, verify.body.deviceToken);
+
+      expect(trusted.body.requiresTwoFA).toBeUndefined();
+      expect(trusted.body.accessToken).toBeDefined();
+
+      const devices = await request(app.getHttpServer())
+        .get('/2fa/trusted-devices')
+        .set('Authorization', `Bearer ${trusted.body.accessToken}`);
+
+      expect(devices.status).toBe(200);
+      expect(devices.body).toHaveLength(1);
+
+      await request(app.getHttpServer())
+        .delete('/2fa/trusted-devices')
+        .set('Authorization', `Bearer ${trusted.body.accessToken}`);
+
+      const revoked = await login(user, verify.body.deviceToken);
+
+      expect(revoked.body.requiresTwoFA).toBe(true);
+    });
+
+    it('should email fallback codes to verified addresses only', async () => {
+      const user = await enroll();
+
+      const requestCode = async () =>
+        request(app.getHttpServer())
+          .post('/2fa/email-code')
+          .send({ token: (await login(user)).body.token });
+
+      expect((await requestCode()).status).toBe(400);
+
+      await app.get(PrismaService).user.update({
+        where: { email: user.email },
+        data: { isEmailVerified: true },
+      });
+
+      const sent = await requestCode();
+      expect(sent.status).toBe(200);
+      expect(sent.body.expiresAt).toBeDefined();
+
+      // Cooldown between codes
+      expect((await requestCode()).status).toBe(400);
+    });
+
+    it('should start 2FA recovery only with a valid login token', async () => {
+      const user = await enroll();
+
+      const invalid = await request(app.getHttpServer())
+        .post('/2fa/recovery/request')
+        .send({ token: 'not-a-token' });
+
+      expect(invalid.status).toBe(401);
+
+      const started = await request(app.getHttpServer())
+        .post('/2fa/recovery/request')
+        .send({ token: (await login(user)).body.token });
+
+      expect(started.status).toBe(200);
+
+      const bogusConfirm = await request(app.getHttpServer())
+        .post('/2fa/recovery/confirm')
+        .send({ token: 'f'.repeat(64) });
+
+      expect(bogusConfirm.status).toBe(400);
+
+      // Reviewing is reserved to BOSSes and platform admins
+      const pending = await request(app.getHttpServer())
+        .get('/2fa/recovery/pending')
+        .set('Authorization', `Bearer ${user.accessToken}`);
+
+      expect([401, 403]).toContain(pending.status);
     });
   });
 });
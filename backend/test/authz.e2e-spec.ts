@@ -0,0 +1,341 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from './../src/app.module';
+import { PrismaService } from './../src/prisma/prisma.service';
+import { StorageService } from './../src/storage/storage.service';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { COMPANY_PERMISSIONS } from './../src/permissions/permissions';
+import { backfillStoredFiles } from './../src/scripts/backfill-stored-files';
+
+describe('Attribute-based Authorization (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+  let companyId: string;
+
+  let accounts: Record<
+    'boss' | 'manager' | 'alice' | 'bob',
+    { id: string; token: string }
+  >;
+
+  const signUp = async (name: string, data: Record<string, unknown> = {}) => {
+    const stamp = `${Date.now()}${Math.floor(Math.random() * 1000)}`;
+    const user = {
+      email: `authz${name}-${stamp}@example.com`,
+      password: 'AuthzP@ss123',
+      username: `az${name}${stamp}`.slice(0, 20),
+    };
+
+    await request(app.getHttpServer()).post('/auth/register').send(user);
+    const updated = await prisma.user.update({
+      where: { email: user.email },
+      data,
+    });
+
+    const login = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: user.email, password: user.password });
+
+    return { id: updated.id, token: login.body.accessToken as string };
+  };
+
+  const as = (account: keyof typeof accounts) => ({
+    get: (url: string) =>
+      request(app.getHttpServer())
+        .get(url)
+        .set('Authorization', `Bearer ${accounts[account].token}`),
+    patch: (url: string) =>
+      request(app.getHttpServer())
+        .patch(url)
+        .set('Authorization', `Bearer ${accounts[account].token}`),
+    post: (url: string) =>
+      request(app.getHttpServer())
+        .post(url)
+        .set('Authorization', `Bearer ${accounts[account].token}`),
+    delete: (url: string) =>
+      request(app.getHttpServer())
+        .delete(url)
+        .set('Authorization', `Bearer ${accounts[account].token}`),
+  });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    prisma = app.get(PrismaService);
+
+    const boss = await signUp('boss', { role: 'BOSS' });
+
+    const company = await request(app.getHttpServer())
+      .post('/companies')
+      .set('Authorization', `Bearer ${boss.token}`)
+      .send({ name: `Authz Co ${Date.now()}` });
+    companyId = company.body.id;
+
+    const manager = await signUp('mgr', { role: 'MANAGER', companyId });
+
+    accounts = {
+      boss,
+      manager,
+      alice: await signUp('alice', { companyId, createdBy: manager.id }),
+      bob: await signUp('bob', { companyId }),
+    };
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('Users', () => {
+    it('should let employees read users of their company', async () => {
+      const response = await as('alice').get(`/users/${accounts.bob.id}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.id).toBe(accounts.bob.id);
+    });
+
+    it("should keep other users' audit logs and sessions to auditors", async () => {
+      for (const trail of ['audit-logs', 'sessions']) {
+        const byManager = await as('manager').get(
+          `/users/${accounts.boss.id}/${trail}`,
+        );
+        expect(byManager.status).toBe(403);
+
+        const byBoss = await as('boss').get(
+          `/users/${accounts.manager.id}/${trail}`,
+        );
+        expect(byBoss.status).toBe(200);
+      }
+    });
+
+    it('should only let managers deactivate users they created', async () => {
+      const notCreated = await as('manager').patch(
+        `/users/${accounts.bob.id}/deactivate`,
+      );
+      expect(notCreated.status).toBe(403);
+
+      const created = await as('manager').patch(
+        `/users/${accounts.alice.id}/deactivate`,
+      );
+      expect(created.status).toBe(200);
+
+      await as('manager').patch(`/users/${accounts.alice.id}/activate`);
+    });
+
+    it('should protect the owner and users of equal or higher rank', async () => {
+      const otherBoss = await signUp('boss2', { role: 'BOSS', companyId });
+      const byPeer = await request(app.getHttpServer())
+        .patch(`/users/${accounts.boss.id}/deactivate`)
+        .set('Authorization', `Bearer ${otherBoss.token}`);
+      expect(byPeer.status).toBe(403);
+      expect(byPeer.body.message).toContain('equal or higher rank');
+
+      const byManager = await as('manager').patch(
+        `/users/${otherBoss.id}/deactivate`,
+      );
+      expect(byManager.status).toBe(403);
+
+      // The owner outranks every other BOSS
+      const byOwner = await as('boss').patch(
+        `/users/${otherBoss.id}/deactivate`,
+      );
+      expect(byOwner.status).toBe(200);
+    });
+
+    it('should judge a BOSS by permissions, not the role name', async () => {
+      const role = await prisma.customRole.create({
+        data: {
+          companyId,
+          name: `Deputy ${Date.now()}`,
+          permissions: [...COMPANY_PERMISSIONS],
+        },
+      });
+      const deputy = await signUp('deputy', {
+        companyId,
+        customRoleId: role.id,
+      });
+      const member = await signUp('member', { companyId });
+
+      const response = await request(app.getHttpServer())
+        .patch(`/users/${member.id}/deactivate`)
+        .set('Authorization', `Bearer ${deputy.token}`);
+      expect(response.status).toBe(200);
+
+      // Holding the same permissions as a BOSS is not outranking one
+      const boss = await signUp('boss3', { role: 'BOSS', companyId });
+      const equal = await request(app.getHttpServer())
+        .patch(`/users/${boss.id}/deactivate`)
+        .set('Authorization', `Bearer ${deputy.token}`);
+      expect(equal.status).toBe(403);
+    });
+
+    it('should never let anyone deactivate themselves', async () => {
+      const response = await as('boss').patch(
+        `/users/${accounts.boss.id}/deactivate`,
+      );
+
+      expect(response.status).toBe(403);
+      expect(response.body.message).toContain('Nobody may');
+    });
+  });
+
+  describe('Files', () => {
+    let fileId: string;
+
+    beforeAll(async () => {
+      const upload = await as('alice')
+        .post('/storage/upload')
+        .attach('file', Buffer.from('%PDF-1.4 authz'), {
+          filename: 'report.pdf',
+          contentType: 'application/pdf',
+        });
+
+      expect(upload.status).toBe(201);
+      fileId = upload.body.data.id;
+    });
+
+    it('should let the uploader and their BOSS download a file', async () => {
+      const uploader = await as('alice').get(`/storage/${fileId}`);
+      expect(uploader.status).toBe(200);
+
+      const boss = await as('boss').get(`/storage/${fileId}/metadata`);
+      expect(boss.status).toBe(200);
+    });
+
+    it('should keep other employees out', async () => {
+      const response = await as('bob').get(`/storage/${fileId}`);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should not resolve files by id prefix', async () => {
+      const prefix = fileId.slice(0, 8);
+
+      const download = await as('alice').get(`/storage/${prefix}`);
+      expect(download.status).toBe(404);
+
+      const metadata = await as('alice').get(`/storage/${prefix}/metadata`);
+      expect(metadata.status).toBe(404);
+    });
+
+    it('should only let the uploader or a manager delete a file', async () => {
+      const upload = () =>
+        as('alice')
+          .post('/storage/upload')
+          .attach('file', Buffer.from('%PDF-1.4 delete'), {
+            filename: 'draft.pdf',
+            contentType: 'application/pdf',
+          });
+
+      const own = await upload();
+
+      // storage:delete alone does not reach other members' files
+      const colleague = await as('bob').delete(`/storage/${own.body.data.id}`);
+      expect(colleague.status).toBe(403);
+
+      const uploader = await as('alice').delete(`/storage/${own.body.data.id}`);
+      expect(uploader.status).toBe(200);
+
+      const managed = await upload();
+
+      const manager = await as('manager').delete(
+        `/storage/${managed.body.data.id}`,
+      );
+      expect(manager.status).toBe(200);
+    });
+
+    it('should remove the upload when it cannot be recorded', async () => {
+      const writeFile = jest.spyOn(fs, 'writeFile');
+
+      // An unknown company fails the foreign key on the record
+      await expect(
+        app.get(StorageService).saveFile(
+          {
+            originalname: 'orphan.pdf',
+            mimetype: 'application/pdf',
+            size: 15,
+            buffer: Buffer.from('%PDF-1.4 orphan'),
+          } as Express.Multer.File,
+          accounts.alice.id,
+          'no-such-company',
+        ),
+      ).rejects.toThrow();
+
+      const [written] = writeFile.mock.calls[0];
+      writeFile.mockRestore();
+
+      await expect(fs.access(written as string)).rejects.toThrow();
+    });
+
+    it('should record legacy uploads for the company they belong to', async () => {
+      const uploadDir = path.join(process.cwd(), 'uploads');
+      const legacyId = crypto.randomUUID();
+      await fs.writeFile(
+        path.join(uploadDir, `${legacyId}.pdf`),
+        '%PDF-1.4 legacy',
+      );
+
+      await backfillStoredFiles(prisma, uploadDir, { companyId });
+
+      const record = await prisma.storedFile.findUnique({
+        where: { id: legacyId },
+      });
+      expect(record.companyId).toBe(companyId);
+      expect(record.uploadedBy).toBe(accounts.boss.id);
+      expect(record.mimetype).toBe('application/pdf');
+
+      const boss = await as('boss').get(`/storage/${legacyId}`);
+      expect(boss.status).toBe(200);
+
+      const employee = await as('bob').get(`/storage/${legacyId}`);
+      expect(employee.status).toBe(403);
+    });
+  });
+
+  describe('Explain', () => {
+    it('should name the policy that allowed an action', async () => {
+      const response = await as('alice').get(
+        `/authz/explain?action=user:read&resourceId=${accounts.bob.id}`,
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.allowed).toBe(true);
+      expect(response.body.decidedBy).toBe('user.read.same-company');
+    });
+
+    it('should explain a default deny', async () => {
+      const response = await as('alice').get(
+        `/authz/explain?action=user:update&resourceId=${accounts.bob.id}`,
+      );
+
+      expect(response.body.allowed).toBe(false);
+      expect(response.body.decidedBy).toBeNull();
+      expect(response.body.evaluated).toEqual([
+        { policy: 'user.update.self', effect: 'allow', matched: false },
+      ]);
+    });
+
+    it('should let a deny policy override allows', async () => {
+      const response = await as('boss').get(
+        `/authz/explain?action=user:deactivate&resourceId=${accounts.boss.id}`,
+      );
+
+      expect(response.body.allowed).toBe(false);
+      expect(response.body.decidedBy).toBe('user.deactivate.not-self');
+    });
+
+    it('should keep other subjects to platform admins', async () => {
+      const response = await as('alice').get(
+        `/authz/explain?action=user:read&resourceId=${accounts.bob.id}&subjectId=${accounts.bob.id}`,
+      );
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,434 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from './../src/app.module';
+import { PrismaService } from './../src/prisma/prisma.service';
+
+describe('Company Management (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+
+  const registerBoss = async (prefix: string) => {
+    const user = {
+      email: `${prefix}-${Date.now()}@example.com`,
+      password: 'CompanyP@ss123',
+      username: `${prefix}${Date.now()}`.slice(0, 20),
+      firstName: 'Company',
+      lastName: 'Boss',
+    };
+
+    await request(app.getHttpServer()).post('/auth/register').send(user);
+    await prisma.user.update({
+      where: { email: user.email },
+      data: { role: 'BOSS' },
+    });
+
+    const loginResponse = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: user.email, password: user.password });
+
+    return loginResponse.body.accessToken as string;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    prisma = app.get(PrismaService);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('Company lifecycle', () => {
+    let bossToken: string;
+    let companyId: string;
+    const companyName = `Acme ${Date.now()}`;
+
+    beforeAll(async () => {
+      bossToken = await registerBoss('coboss');
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/companies')
+        .send({ name: companyName });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should let a BOSS create a company', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/companies')
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({ name: companyName });
+
+      expect(response.status).toBe(201);
+      expect(response.body.name).toBe(companyName);
+      expect(response.body.isActive).toBe(true);
+      companyId = response.body.id;
+    });
+
+    it('should reject a second company for the same BOSS', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/companies')
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({ name: `${companyName} Two` });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should return company details', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/companies/${companyId}`)
+        .set('Authorization', `Bearer ${bossToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body._count.employees).toBe(1);
+    });
+
+    it('should rename the company', async () => {
+      const response = await request(app.getHttpServer())
+        .patch(`/companies/${companyId}`)
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({ name: `${companyName} Renamed` });
+
+      expect(response.status).toBe(200);
+      expect(response.body.name).toBe(`${companyName} Renamed`);
+    });
+
+    it('should deactivate and reactivate the company', async () => {
+      const deactivate = await request(app.getHttpServer())
+        .patch(`/companies/${companyId}/deactivate`)
+        .set('Authorization', `Bearer ${bossToken}`);
+
+      expect(deactivate.status).toBe(200);
+      expect(deactivate.body.isActive).toBe(false);
+
+      const activate = await request(app.getHttpServer())
+        .patch(`/companies/${companyId}/activate`)
+        .set('Authorization', `Bearer ${bossToken}`);
+
+      expect(activate.status).toBe(200);
+      expect(activate.body.isActive).toBe(true);
+    });
+
+    it('should list employees', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/companies/${companyId}/employees`)
+        .set('Authorization', `Bearer ${bossToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(1);
+      expect(response.body.employees).toHaveLength(1);
+    });
+
+    it('should write every mutation to the company audit log', async () => {
+      const logs = await prisma.companyAuditLog.findMany({
+        where: { companyId },
+      });
+      const actions = logs.map((log) => log.action);
+
+      expect(actions).toEqual(
+        expect.arrayContaining([
+          'COMPANY_CREATED',
+          'COMPANY_RENAMED',
+          'COMPANY_DEACTIVATED',
+          'COMPANY_REACTIVATED',
+        ]),
+      );
+    });
+
+    it('should forbid a BOSS of another company', async () => {
+      const otherToken = await registerBoss('cother');
+
+      const response = await request(app.getHttpServer())
+        .get(`/companies/${companyId}`)
+        .set('Authorization', `Bearer ${otherToken}`);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('2FA policy', () => {
+    let bossToken: string;
+    let companyId: string;
+    const employee = {
+      email: `copolicy-${Date.now()}@example.com`,
+      password: 'EmployeeP@ss123',
+      username: `copol${Date.now()}`,
+    };
+
+    const loginEmployee = () =>
+      request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: employee.email, password: employee.password });
+
+    const setPolicy = (policy: string, gracePeriodDays: number) =>
+      request(app.getHttpServer())
+        .put(`/companies/${companyId}/2fa-policy`)
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({ policy, gracePeriodDays });
+
+    beforeAll(async () => {
+      bossToken = await registerBoss('cpolicy');
+
+      const company = await request(app.getHttpServer())
+        .post('/companies')
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({ name: `Policy Co ${Date.now()}` });
+      companyId = company.body.id;
+
+      await request(app.getHttpServer()).post('/auth/register').send(employee);
+      await prisma.user.update({
+        where: { email: employee.email },
+        data: { companyId },
+      });
+    });
+
+    it('should let employees set up 2FA', async () => {
+      const login = await loginEmployee();
+
+      const response = await request(app.getHttpServer())
+        .get('/2fa/generate')
+        .set('Authorization', `Bearer ${login.body.accessToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.secret).toBeDefined();
+    });
+
+    it('should reject unknown policies', async () => {
+      const response = await setPolicy('SOMETIMES', 7);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should give employees a grace period', async () => {
+      const response = await setPolicy('REQUIRED_FOR_ALL', 7);
+
+      expect(response.status).toBe(200);
+      expect(response.body.twoFAPolicy).toBe('REQUIRED_FOR_ALL');
+
+      const login = await loginEmployee();
+
+      expect(login.body.twoFAEnrollment.restricted).toBe(false);
+      expect(login.body.twoFAEnrollment.enrollBy).toBeDefined();
+
+      const me = await request(app.getHttpServer())
+        .get('/users/me')
+        .set('Authorization', `Bearer ${login.body.accessToken}`);
+
+      expect(me.status).toBe(200);
+    });
+
+    it('should restrict overdue employees to enrollment', async () => {
+      await setPolicy('REQUIRED_FOR_ALL', 0);
+
+      const login = await loginEmployee();
+      const token = login.body.accessToken;
+
+      expect(login.body.twoFAEnrollment.restricted).toBe(true);
+
+      const me = await request(app.getHttpServer())
+        .get('/users/me')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(me.status).toBe(403);
+
+      // The unrestricted refresh token is no way around it
+      const bypass = await request(app.getHttpServer())
+        .get('/users/me')
+        .set('Authorization', `Bearer ${login.body.refreshToken}`);
+
+      expect(bypass.status).toBe(401);
+
+      const status = await request(app.getHttpServer())
+        .get('/2fa/status')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(status.status).toBe(200);
+      expect(status.body.isRequired).toBe(true);
+      expect(status.body.status).toBe('overdue');
+
+      const generate = await request(app.getHttpServer())
+        .get('/2fa/generate')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(generate.status).toBe(200);
+    });
+
+    it('should report employees who have not enrolled', async () => {
+      const response = await request(app.getHttpServer())
+        .get(`/companies/${companyId}/2fa-compliance`)
+        .set('Authorization', `Bearer ${bossToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.policy).toBe('REQUIRED_FOR_ALL');
+      expect(response.body.nonCompliant).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            email: employee.email,
+            status: 'overdue',
+          }),
+        ]),
+      );
+    });
+
+    it('should only cover BOSS accounts under REQUIRED_FOR_BOSS', async () => {
+      await setPolicy('REQUIRED_FOR_BOSS', 0);
+
+      const login = await loginEmployee();
+
+      expect(login.body.twoFAEnrollment).toBeUndefined();
+
+      const report = await request(app.getHttpServer())
+        .get(`/companies/${companyId}/2fa-compliance`)
+        .set('Authorization', `Bearer ${bossToken}`);
+
+      expect(
+        report.body.nonCompliant.some(
+          (member) => member.email === employee.email,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('Custom roles', () => {
+    let bossToken: string;
+    let companyId: string;
+    let roleId: string;
+    let employeeId: string;
+    const employee = {
+      email: `corole-${Date.now()}@example.com`,
+      password: 'EmployeeP@ss123',
+      username: `corole${Date.now()}`,
+    };
+
+    const loginEmployee = async () => {
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: employee.email, password: employee.password });
+
+      return login.body.accessToken as string;
+    };
+
+    beforeAll(async () => {
+      bossToken = await registerBoss('croles');
+
+      const company = await request(app.getHttpServer())
+        .post('/companies')
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({ name: `Roles Co ${Date.now()}` });
+      companyId = company.body.id;
+
+      await request(app.getHttpServer()).post('/auth/register').send(employee);
+      const user = await prisma.user.update({
+        where: { email: employee.email },
+        data: { companyId },
+      });
+      employeeId = user.id;
+    });
+
+    it('should keep employees out of user management', async () => {
+      const token = await loginEmployee();
+
+      const users = await request(app.getHttpServer())
+        .get('/users')
+        .set('Authorization', `Bearer ${token}`);
+      expect(users.status).toBe(403);
+
+      const roles = await request(app.getHttpServer())
+        .get(`/companies/${companyId}/roles`)
+        .set('Authorization', `Bearer ${token}`);
+      expect(roles.status).toBe(403);
+    });
+
+    it('should reject permissions outside the company catalog', async () => {
+      const response = await request(app.getHttpServer())
+        .post(`/companies/${companyId}/roles`)
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({ name: 'Platform', permissions: ['platform:admin'] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should let a BOSS create and assign a custom role', async () => {
+      const created = await request(app.getHttpServer())
+        .post(`/companies/${companyId}/roles`)
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({ name: 'Auditor', permissions: ['users:read'] });
+
+      expect(created.status).toBe(201);
+      roleId = created.body.id;
+
+      const duplicate = await request(app.getHttpServer())
+        .post(`/companies/${companyId}/roles`)
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({ name: 'Auditor', permissions: [] });
+      expect(duplicate.status).toBe(409);
+
+      const assigned = await request(app.getHttpServer())
+        .put(`/companies/${companyId}/roles/${roleId}/members/${employeeId}`)
+        .set('Authorization', `Bearer ${bossToken}`);
+      expect(assigned.status).toBe(200);
+
+      const token = await loginEmployee();
+
+      const me = await request(app.getHttpServer())
+        .get('/permissions/me')
+        .set('Authorization', `Bearer ${token}`);
+      expect(me.body.permissions).toContain('users:read');
+
+      const users = await request(app.getHttpServer())
+        .get('/users')
+        .set('Authorization', `Bearer ${token}`);
+      expect(users.status).toBe(200);
+
+      // users:read alone does not allow deactivating anyone
+      const deactivate = await request(app.getHttpServer())
+        .patch(`/users/${employeeId}/deactivate`)
+        .set('Authorization', `Bearer ${token}`);
+      expect(deactivate.status).toBe(403);
+    });
+
+    it('should drop the permissions when the role is deleted', async () => {
+      const deleted = await request(app.getHttpServer())
+        .delete(`/companies/${companyId}/roles/${roleId}`)
+        .set('Authorization', `Bearer ${bossToken}`);
+      expect(deleted.status).toBe(200);
+
+      const users = await request(app.getHttpServer())
+        .get('/users')
+        .set('Authorization', `Bearer ${await loginEmployee()}`);
+      expect(users.status).toBe(403);
+    });
+  });
+
+  describe('Role enforcement', () => {
+    it('should forbid employees from creating companies', async () => {
+      const employee = {
+        email: `coemployee-${Date.now()}@example.com`,
+        password: 'EmployeeP@ss123',
+        username: `coemp${Date.now()}`,
+      };
+
+      await request(app.getHttpServer()).post('/auth/register').send(employee);
+
+      const loginResponse = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: employee.email, password: employee.password });
+
+      const response = await request(app.getHttpServer())
+        .post('/companies')
+        .set('Authorization', `Bearer ${loginResponse.body.accessToken}`)
+        .send({ name: `Employee Co ${Date.now()}` });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from './../src/app.module';
+import { PrismaService } from './../src/prisma/prisma.service';
+import { ElevationService } from './../src/elevation/elevation.service';
+
+describe('Just-in-Time Elevation (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+  let companyId: string;
+
+  let accounts: Record<
+    'boss' | 'alice' | 'bob',
+    { id: string; email: string; token: string }
+  >;
+
+  const password = 'ElevateP@ss123';
+
+  const login = async (email: string) => {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email, password });
+
+    return response.body.accessToken as string;
+  };
+
+  const signUp = async (name: string, data: Record<string, unknown> = {}) => {
+    const stamp = `${Date.now()}${Math.floor(Math.random() * 1000)}`;
+    const user = {
+      email: `elev${name}-${stamp}@example.com`,
+      password,
+      username: `ev${name}${stamp}`.slice(0, 20),
+    };
+
+    await request(app.getHttpServer()).post('/auth/register').send(user);
+    const updated = await prisma.user.update({
+      where: { email: user.email },
+      data,
+    });
+
+    return {
+      id: updated.id,
+      email: user.email,
+      token: await login(user.email),
+    };
+  };
+
+  const as = (token: string) => ({
+    get: (url: string) =>
+      request(app.getHttpServer())
+        .get(url)
+        .set('Authorization', `Bearer ${token}`),
+    post: (url: string) =>
+      request(app.getHttpServer())
+        .post(url)
+        .set('Authorization', `Bearer ${token}`),
+  });
+
+  const claims = (token: string) =>
+    JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+
+  const auditActions = async (grantId: string) => {
+    const logs = await prisma.companyAuditLog.findMany({
+      where: { resource: `elevation:${grantId}` },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return logs.map((log) => log.action);
+  };
+
+  const requestElevation = (token: string) =>
+    as(token)
+      .post('/elevations')
+      .send({ reason: 'Month-end payroll review', durationMinutes: 30 });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    prisma = app.get(PrismaService);
+
+    const boss = await signUp('boss', { role: 'BOSS' });
+
+    const company = await request(app.getHttpServer())
+      .post('/companies')
+      .set('Authorization', `Bearer ${boss.token}`)
+      .send({ name: `Elevation Co ${Date.now()}` });
+    companyId = company.body.id;
+
+    accounts = {
+      boss,
+      alice: await signUp('alice', { companyId }),
+      bob: await signUp('bob', { companyId }),
+    };
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('Approval', () => {
+    let grantId: string;
+    let elevatedToken: string;
+
+    it('should record a request without granting anything yet', async () => {
+      const response = await requestElevation(accounts.alice.token);
+
+      expect(response.status).toBe(201);
+      expect(response.body.status).toBe('PENDING');
+      expect(response.body.role).toBe('BOSS');
+      grantId = response.body.id;
+
+      const users = await as(accounts.alice.token).get('/users');
+      expect(users.status).toBe(403);
+
+      const again = await requestElevation(accounts.alice.token);
+      expect(again.status).toBe(409);
+    });
+
+    it('should only let another BOSS review it', async () => {
+      const own = await as(accounts.alice.token).post(
+        `/elevations/${grantId}/approve`,
+      );
+      expect(own.status).toBe(403);
+
+      const pending = await as(accounts.boss.token).get('/elevations/pending');
+      expect(pending.body.map((grant) => grant.id)).toContain(grantId);
+
+      const approve = await as(accounts.boss.token).post(
+        `/elevations/${grantId}/approve`,
+      );
+      expect(approve.status).toBe(200);
+      expect(approve.body.status).toBe('ACTIVE');
+    });
+
+    it('should grant BOSS permissions to tokens carrying the grant', async () => {
+      elevatedToken = await login(accounts.alice.email);
+      expect(claims(elevatedToken).eg).toBe(grantId);
+
+      const users = await as(elevatedToken).get('/users');
+      expect(users.status).toBe(200);
+
+      const permissions = await as(elevatedToken).get('/permissions/me');
+      expect(permissions.body.elevation.grantId).toBe(grantId);
+    });
+
+    it('should end the grant on revoke', async () => {
+      const revoke = await as(accounts.boss.token).post(
+        `/elevations/${grantId}/revoke`,
+      );
+      expect(revoke.status).toBe(200);
+
+      const stale = await as(elevatedToken).get('/users/me');
+      expect(stale.status).toBe(401);
+
+      const fresh = await login(accounts.alice.email);
+      expect(claims(fresh).eg).toBeUndefined();
+      expect((await as(fresh).get('/users')).status).toBe(403);
+
+      expect(await auditActions(grantId)).toEqual([
+        'ELEVATION_REQUESTED',
+        'ELEVATION_APPROVED',
+        'ELEVATION_REVOKED',
+      ]);
+    });
+  });
+
+  it('should record a denied request', async () => {
+    const { body } = await requestElevation(accounts.bob.token);
+
+    const deny = await as(accounts.boss.token).post(
+      `/elevations/${body.id}/deny`,
+    );
+    expect(deny.status).toBe(200);
+
+    const approve = await as(accounts.boss.token).post(
+      `/elevations/${body.id}/approve`,
+    );
+    expect(approve.status).toBe(404);
+
+    expect(await auditActions(body.id)).toEqual([
+      'ELEVATION_REQUESTED',
+      'ELEVATION_DENIED',
+    ]);
+  });
+
+  it('should expire a grant once its duration has run out', async () => {
+    const { body } = await requestElevation(accounts.bob.token);
+    await as(accounts.boss.token).post(`/elevations/${body.id}/approve`);
+
+    const elevationService = app.get(ElevationService);
+
+    // Not due yet
+    expect(await elevationService.expireGrant(body.id)).toBe(false);
+
+    await prisma.elevationGrant.update({
+      where: { id: body.id },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+    expect(await elevationService.expireGrant(body.id)).toBe(true);
+
+    const grant = await prisma.elevationGrant.findUnique({
+      where: { id: body.id },
+    });
+    expect(grant.status).toBe('EXPIRED');
+
+    expect(await auditActions(body.id)).toEqual([
+      'ELEVATION_REQUESTED',
+      'ELEVATION_APPROVED',
+      'ELEVATION_EXPIRED',
+    ]);
+  });
+});
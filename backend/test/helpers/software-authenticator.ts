@@ -0,0 +1,158 @@
+import * as crypto from 'crypto';
+
+// Minimal CBOR encoder, enough for attestation objects and COSE keys
+function encodeHead(major: number, length: number): Buffer {
+  if (length < 24) {
+    return Buffer.from([(major << 5) | length]);
+  }
+  if (length < 0x100) {
+    return Buffer.from([(major << 5) | 24, length]);
+  }
+  const head = Buffer.alloc(3);
+  head[0] = (major << 5) | 25;
+  head.writeUInt16BE(length, 1);
+  return head;
+}
+
+function cbor(value: unknown): Buffer {
+  if (typeof value === 'number') {
+    return value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([encodeHead(2, value.length), value]);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([encodeHead(3, bytes.length), bytes]);
+  }
+  if (value instanceof Map) {
+    const entries = [...value.entries()].map(([k, v]) =>
+      Buffer.concat([cbor(k), cbor(v)]),
+    );
+    return Buffer.concat([encodeHead(5, value.size), ...entries]);
+  }
+  throw new Error(`Unsupported CBOR value: ${value}`);
+}
+
+const sha256 = (data: Buffer) =>
+  crypto.createHash('sha256').update(data).digest();
+
+/**
+ * In-memory FIDO2 authenticator (ES256, attestation "none") that produces the
+ * JSON a browser hands back from navigator.credentials.create() / get().
+ */
+export class SoftwareAuthenticator {
+  readonly credentialId = crypto.randomBytes(16);
+  private readonly keys = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'prime256v1',
+  });
+  private counter = 0;
+  private userHandle?: string;
+
+  constructor(
+    private readonly origin = 'http://localhost:3000',
+    private readonly rpId = 'localhost',
+  ) {}
+
+  get id(): string {
+    return this.credentialId.toString('base64url');
+  }
+
+  createCredential(options: { challenge: string; user: { id: string } }) {
+    this.userHandle = options.user.id;
+
+    const jwk = this.keys.publicKey.export({ format: 'jwk' });
+    const coseKey = new Map<number, unknown>([
+      [1, 2], // kty: EC2
+      [3, -7], // alg: ES256
+      [-1, 1], // crv: P-256
+      [-2, Buffer.from(jwk.x, 'base64url')],
+      [-3, Buffer.from(jwk.y, 'base64url')],
+    ]);
+
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(this.credentialId.length);
+
+    const authData = Buffer.concat([
+      this.authenticatorDataHeader(0x45), // UP | UV | AT
+      Buffer.alloc(16), // AAGUID
+      credentialIdLength,
+      this.credentialId,
+      cbor(coseKey),
+    ]);
+
+    const attestationObject = cbor(
+      new Map<string, unknown>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', authData],
+      ]),
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', options.challenge),
+        attestationObject: attestationObject.toString('base64url'),
+        transports: ['internal' as const],
+      },
+      clientExtensionResults: {},
+      authenticatorAttachment: 'platform' as const,
+    };
+  }
+
+  getAssertion(options: { challenge: string }, userVerified = true) {
+    this.counter += 1;
+
+    const authenticatorData = this.authenticatorDataHeader(
+      userVerified ? 0x05 : 0x01, // UP (| UV)
+    );
+    const clientDataJSON = this.clientData('webauthn.get', options.challenge);
+    const signature = crypto.sign(
+      'sha256',
+      Buffer.concat([
+        authenticatorData,
+        sha256(Buffer.from(clientDataJSON, 'base64url')),
+      ]),
+      this.keys.privateKey,
+    );
+
+    return {
+      id: this.id,
+      rawId: this.id,
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON,
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: this.userHandle,
+      },
+      clientExtensionResults: {},
+      authenticatorAttachment: 'platform' as const,
+    };
+  }
+
+  private authenticatorDataHeader(flags: number): Buffer {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.counter);
+
+    return Buffer.concat([
+      sha256(Buffer.from(this.rpId)),
+      Buffer.from([flags]),
+      counter,
+    ]);
+  }
+
+  private clientData(type: string, challenge: string): string {
+    return Buffer.from(
+      JSON.stringify({
+        type,
+        challenge,
+        origin: this.origin,
+        crossOrigin: false,
+      }),
+    ).toString('base64url');
+  }
+}
@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from './../src/app.module';
+import { PrismaService } from './../src/prisma/prisma.service';
+import { EmailService } from './../src/email/email.service';
+
+describe('Invitations (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+  let sendInvite: jest.SpyInstance;
+
+  let accounts: Record<'boss' | 'manager' | 'employee', { token: string }>;
+
+  const stamp = () => `${Date.now()}${Math.floor(Math.random() * 1000)}`;
+
+  const signUp = async (name: string, data: Record<string, unknown> = {}) => {
+    const unique = stamp();
+    const user = {
+      email: `invite${name}-${unique}@example.com`,
+      password: 'InviteP@ss123',
+      username: `iv${name}${unique}`.slice(0, 20),
+    };
+
+    await request(app.getHttpServer()).post('/auth/register').send(user);
+    await prisma.user.update({ where: { email: user.email }, data });
+
+    const login = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: user.email, password: user.password });
+
+    return { token: login.body.accessToken as string };
+  };
+
+  const as = (account: keyof typeof accounts) => ({
+    post: (url: string) =>
+      request(app.getHttpServer())
+        .post(url)
+        .set('Authorization', `Bearer ${accounts[account].token}`),
+    delete: (url: string) =>
+      request(app.getHttpServer())
+        .delete(url)
+        .set('Authorization', `Bearer ${accounts[account].token}`),
+  });
+
+  // Only the hash is stored, so the token is taken from the outgoing email
+  const lastSentToken = () =>
+    sendInvite.mock.calls[sendInvite.mock.calls.length - 1][1] as string;
+
+  const invite = async () => {
+    const response = await as('boss')
+      .post('/invitations')
+      .send({ email: `invitee-${stamp()}@example.com` });
+
+    expect(response.status).toBe(201);
+    return { id: response.body.id as string, token: lastSentToken() };
+  };
+
+  const accept = (token: string) =>
+    request(app.getHttpServer())
+      .post('/invitations/accept')
+      .send({
+        token,
+        username: `inv${stamp()}`.slice(0, 20),
+        password: 'InviteeP@ss123',
+      });
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    prisma = app.get(PrismaService);
+    sendInvite = jest
+      .spyOn(app.get(EmailService), 'sendEmployeeInvite')
+      .mockResolvedValue(true);
+
+    const boss = await signUp('boss', { role: 'BOSS' });
+
+    const company = await request(app.getHttpServer())
+      .post('/companies')
+      .set('Authorization', `Bearer ${boss.token}`)
+      .send({ name: `Invite Co ${Date.now()}` });
+    const companyId = company.body.id;
+
+    accounts = {
+      boss,
+      manager: await signUp('mgr', { role: 'MANAGER', companyId }),
+      employee: await signUp('emp', { companyId }),
+    };
+  });
+
+  afterAll(async () => {
+    sendInvite.mockRestore();
+    await app.close();
+  });
+
+  it('should only accept an invitation once', async () => {
+    const { token } = await invite();
+
+    const first = await accept(token);
+    expect(first.status).toBe(201);
+    expect(first.body.accessToken).toBeDefined();
+    expect(first.body.user.role).toBe('EMPLOYEE');
+
+    const second = await accept(token);
+    expect(second.status).toBe(400);
+  });
+
+  it('should reject an expired invitation', async () => {
+    const { id, token } = await invite();
+
+    await prisma.invitation.update({
+      where: { id },
+      data: { expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    const response = await accept(token);
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject a revoked invitation', async () => {
+    const { id, token } = await invite();
+
+    const revoke = await as('boss').delete(`/invitations/${id}`);
+    expect(revoke.status).toBe(200);
+    expect(revoke.body.revokedAt).not.toBeNull();
+
+    const response = await accept(token);
+    expect(response.status).toBe(400);
+  });
+
+  it('should rotate the token on resend', async () => {
+    const { id, token } = await invite();
+
+    const resend = await as('boss').post(`/invitations/${id}/resend`);
+    expect(resend.status).toBe(200);
+
+    const rotated = lastSentToken();
+    expect(rotated).not.toBe(token);
+
+    const stale = await accept(token);
+    expect(stale.status).toBe(400);
+
+    const fresh = await accept(rotated);
+    expect(fresh.status).toBe(201);
+  });
+
+  it('should only let a BOSS invite', async () => {
+    for (const account of ['manager', 'employee'] as const) {
+      const response = await as(account)
+        .post('/invitations')
+        .send({ email: `uninvited-${stamp()}@example.com` });
+
+      expect(response.status).toBe(403);
+    }
+  });
+});
@@ -0,0 +1,375 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from './../src/app.module';
+import { PrismaService } from './../src/prisma/prisma.service';
+
+const CLIENT_ID = 'resource-server';
+const CLIENT_SECRET = 'resource-server-secret-0123456789abcdef';
+
+describe('OAuth Endpoints (e2e)', () => {
+  let app: INestApplication;
+  let accessToken: string;
+  let refreshToken: string;
+
+  const basicAuth = `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')}`;
+
+  const introspect = (token: string) =>
+    request(app.getHttpServer())
+      .post('/oauth/introspect')
+      .set('Authorization', basicAuth)
+      .type('form')
+      .send({ token });
+
+  beforeAll(async () => {
+    process.env.OAUTH_CLIENTS = `${CLIENT_ID}:${CLIENT_SECRET}`;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    const user = {
+      email: `oauth-${Date.now()}@example.com`,
+      password: 'OAuthP@ss123',
+      username: `oauth${Date.now()}`,
+    };
+
+    await request(app.getHttpServer()).post('/auth/register').send(user);
+
+    const loginResponse = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: user.email, password: user.password });
+
+    accessToken = loginResponse.body.accessToken;
+    refreshToken = loginResponse.body.refreshToken;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should reject unauthenticated clients', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/oauth/introspect')
+      .type('form')
+      .send({ token: accessToken });
+
+    expect(response.status).toBe(401);
+    expect(response.body.error).toBe('invalid_client');
+  });
+
+  it('should reject a wrong client secret', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/oauth/introspect')
+      .type('form')
+      .send({
+        token: accessToken,
+        client_id: CLIENT_ID,
+        client_secret: 'wrong',
+      });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should report an active access token', async () => {
+    const response = await introspect(accessToken);
+
+    expect(response.status).toBe(200);
+    expect(response.body.active).toBe(true);
+    expect(response.body.token_type).toBe('access_token');
+    expect(response.body.sub).toBeDefined();
+  });
+
+  it('should report an active refresh token using client_secret_post', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/oauth/introspect')
+      .type('form')
+      .send({
+        token: refreshToken,
+        client_id: CLIENT_ID,
+        client_secret: CLIENT_SECRET,
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.body.active).toBe(true);
+    expect(response.body.token_type).toBe('refresh_token');
+  });
+
+  it('should report garbage as inactive', async () => {
+    const response = await introspect('not.a.token');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ active: false });
+  });
+
+  it('should revoke a refresh token together with its session', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/oauth/revoke')
+      .set('Authorization', basicAuth)
+      .type('form')
+      .send({ token: refreshToken, token_type_hint: 'refresh_token' });
+
+    expect(response.status).toBe(200);
+
+    expect((await introspect(refreshToken)).body.active).toBe(false);
+    expect((await introspect(accessToken)).body.active).toBe(false);
+
+    const meResponse = await request(app.getHttpServer())
+      .get('/users/me')
+      .set('Authorization', `Bearer ${accessToken}`);
+
+    expect(meResponse.status).toBe(401);
+  });
+
+  it('should accept revocation of unknown tokens', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/oauth/revoke')
+      .set('Authorization', basicAuth)
+      .type('form')
+      .send({ token: 'unknown-token' });
+
+    expect(response.status).toBe(200);
+  });
+
+  describe('Service accounts (client_credentials)', () => {
+    let clientId: string;
+    let clientSecret: string;
+    let bossId: string;
+    let bossToken: string;
+    let companyId: string;
+
+    beforeAll(async () => {
+      const prisma = app.get(PrismaService);
+      const boss = {
+        email: `saboss-${Date.now()}@example.com`,
+        password: 'ServiceP@ss123',
+        username: `saboss${Date.now()}`,
+      };
+
+      await request(app.getHttpServer()).post('/auth/register').send(boss);
+      await prisma.user.update({
+        where: { email: boss.email },
+        data: { role: 'BOSS' },
+      });
+
+      const login = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: boss.email, password: boss.password });
+
+      await request(app.getHttpServer())
+        .post('/companies')
+        .set('Authorization', `Bearer ${login.body.accessToken}`)
+        .send({ name: `Service Co ${Date.now()}` });
+
+      // Pick up the new companyId
+      const relogin = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: boss.email, password: boss.password });
+      bossToken = relogin.body.accessToken;
+
+      const bossUser = await prisma.user.findUnique({
+        where: { email: boss.email },
+      });
+      bossId = bossUser.id;
+      companyId = bossUser.companyId;
+
+      const response = await request(app.getHttpServer())
+        .post('/service-accounts')
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({ name: 'Reporting job', scopes: ['users:read'] });
+
+      expect(response.status).toBe(201);
+      clientId = response.body.clientId;
+      clientSecret = response.body.clientSecret;
+    });
+
+    const requestToken = (body: Record<string, string>) =>
+      request(app.getHttpServer())
+        .post('/oauth/token')
+        .type('form')
+        .send({
+          grant_type: 'client_credentials',
+          client_id: clientId,
+          client_secret: clientSecret,
+          ...body,
+        });
+
+    it('should issue a short-lived service token', async () => {
+      const response = await requestToken({});
+
+      expect(response.status).toBe(200);
+      expect(response.body.token_type).toBe('Bearer');
+      expect(response.body.scope).toBe('users:read');
+      expect(response.body.refresh_token).toBeUndefined();
+
+      const payload = JSON.parse(
+        Buffer.from(
+          response.body.access_token.split('.')[1],
+          'base64',
+        ).toString(),
+      );
+      expect(payload.principal).toBe('service');
+    });
+
+    it('should reject a wrong secret and ungranted scopes', async () => {
+      const wrongSecret = await requestToken({ client_secret: 'nope' });
+      expect(wrongSecret.status).toBe(401);
+
+      const wrongScope = await requestToken({ scope: 'users:write' });
+      expect(wrongScope.status).toBe(400);
+      expect(wrongScope.body.error).toBe('invalid_scope');
+    });
+
+    it('should limit the token to its scopes', async () => {
+      const { body } = await requestToken({});
+
+      const search = await request(app.getHttpServer())
+        .get('/search/users?q=sa_')
+        .set('Authorization', `Bearer ${body.access_token}`);
+
+      expect(search.status).toBe(200);
+      // Service accounts never appear in user search
+      expect(
+        search.body.data.results.some((user) =>
+          user.email.startsWith(clientId),
+        ),
+      ).toBe(false);
+
+      const storage = await request(app.getHttpServer())
+        .get('/storage')
+        .set('Authorization', `Bearer ${body.access_token}`);
+
+      expect(storage.status).toBe(403);
+    });
+
+    it('should back the service account with a least-privilege user', async () => {
+      const user = await app
+        .get(PrismaService)
+        .user.findUnique({ where: { username: clientId } });
+
+      expect(user.role).toBe('EMPLOYEE');
+
+      const employees = await request(app.getHttpServer())
+        .get(`/companies/${companyId}/employees`)
+        .set('Authorization', `Bearer ${bossToken}`);
+
+      expect(employees.status).toBe(200);
+      expect(employees.body.employees.map((e) => e.id)).not.toContain(user.id);
+
+      const users = await request(app.getHttpServer())
+        .get('/users')
+        .set('Authorization', `Bearer ${bossToken}`);
+
+      expect(users.status).toBe(200);
+      expect(users.body.users.map((u) => u.id)).not.toContain(user.id);
+    });
+
+    it('should take its rights from its scopes only', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/service-accounts')
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({
+          name: 'Sync job',
+          scopes: ['users:read', 'users:write', 'companies:read'],
+        });
+
+      const token = await request(app.getHttpServer())
+        .post('/oauth/token')
+        .type('form')
+        .send({
+          grant_type: 'client_credentials',
+          client_id: created.body.clientId,
+          client_secret: created.body.clientSecret,
+        });
+      const auth = `Bearer ${token.body.access_token}`;
+
+      // users:write never covers role changes
+      const promote = await request(app.getHttpServer())
+        .patch(`/users/${bossId}/role`)
+        .set('Authorization', auth)
+        .send({ role: 'EMPLOYEE' });
+      expect(promote.status).toBe(403);
+
+      // Nor does it make the account a BOSS of the company
+      const company = await request(app.getHttpServer())
+        .get(`/companies/${companyId}`)
+        .set('Authorization', auth);
+      expect(company.status).toBe(403);
+
+      const serviceUser = await app
+        .get(PrismaService)
+        .user.findUnique({ where: { username: created.body.clientId } });
+
+      // And a BOSS cannot promote the account either
+      const elevate = await request(app.getHttpServer())
+        .patch(`/users/${serviceUser.id}/role`)
+        .set('Authorization', `Bearer ${bossToken}`)
+        .send({ role: 'BOSS' });
+      expect(elevate.status).toBe(400);
+    });
+
+    it('should require service-accounts:manage rather than a BOSS role', async () => {
+      const prisma = app.get(PrismaService);
+
+      const signUp = async (name: string) => {
+        const user = {
+          email: `sa${name}-${Date.now()}@example.com`,
+          password: 'ServiceP@ss123',
+          username: `sa${name}${Date.now()}`.slice(0, 20),
+        };
+
+        await request(app.getHttpServer()).post('/auth/register').send(user);
+        const { id } = await prisma.user.update({
+          where: { email: user.email },
+          data: { companyId, role: name === 'mgr' ? 'MANAGER' : 'EMPLOYEE' },
+        });
+
+        const login = await request(app.getHttpServer())
+          .post('/auth/login')
+          .send({ email: user.email, password: user.password });
+
+        return { id, token: login.body.accessToken as string };
+      };
+
+      const manager = await signUp('mgr');
+      const integrator = await signUp('int');
+
+      const asManager = await request(app.getHttpServer())
+        .get('/service-accounts')
+        .set('Authorization', `Bearer ${manager.token}`);
+      expect(asManager.status).toBe(403);
+
+      const role = await prisma.customRole.create({
+        data: {
+          companyId,
+          name: `Integrations ${Date.now()}`,
+          permissions: ['service-accounts:manage'],
+        },
+      });
+      await prisma.user.update({
+        where: { id: integrator.id },
+        data: { customRoleId: role.id },
+      });
+
+      const asIntegrator = await request(app.getHttpServer())
+        .get('/service-accounts')
+        .set('Authorization', `Bearer ${integrator.token}`);
+      expect(asIntegrator.status).toBe(200);
+      expect(asIntegrator.body.map((sa) => sa.clientId)).toContain(clientId);
+    });
+
+    it('should never let a service account log in', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({
+          email: `${clientId}@service-accounts.invalid`,
+          password: clientSecret,
+        });
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,315 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from './../src/app.module';
+import { PrismaService } from './../src/prisma/prisma.service';
+
+describe('Tenant Isolation (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+
+  type Tenant = {
+    companyId: string;
+    bossToken: string;
+    employeeId: string;
+    employeeEmail: string;
+  };
+
+  let own: Tenant;
+  let other: Tenant;
+
+  // A company with a BOSS and one logged-in employee
+  const createTenant = async (prefix: string): Promise<Tenant> => {
+    const stamp = `${Date.now()}${Math.floor(Math.random() * 1000)}`;
+    const boss = {
+      email: `${prefix}boss-${stamp}@example.com`,
+      password: 'TenantP@ss123',
+      username: `${prefix}b${stamp}`.slice(0, 20),
+    };
+    const employee = {
+      email: `${prefix}emp-${stamp}@example.com`,
+      password: 'TenantP@ss123',
+      username: `${prefix}e${stamp}`.slice(0, 20),
+    };
+
+    await request(app.getHttpServer()).post('/auth/register').send(boss);
+    await prisma.user.update({
+      where: { email: boss.email },
+      data: { role: 'BOSS' },
+    });
+
+    const bossLogin = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: boss.email, password: boss.password });
+    const bossToken = bossLogin.body.accessToken;
+
+    const company = await request(app.getHttpServer())
+      .post('/companies')
+      .set('Authorization', `Bearer ${bossToken}`)
+      .send({ name: `Tenant ${prefix} ${stamp}` });
+
+    await request(app.getHttpServer()).post('/auth/register').send(employee);
+    const user = await prisma.user.update({
+      where: { email: employee.email },
+      data: { companyId: company.body.id },
+    });
+
+    // Gives the employee a session and audit trail
+    await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: employee.email, password: employee.password });
+
+    return {
+      companyId: company.body.id,
+      bossToken,
+      employeeId: user.id,
+      employeeEmail: employee.email,
+    };
+  };
+
+  const asBoss = (method: 'get' | 'patch' | 'put' | 'delete', url: string) => {
+    const server = request(app.getHttpServer());
+    return server[method](url).set('Authorization', `Bearer ${own.bossToken}`);
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    prisma = app.get(PrismaService);
+
+    own = await createTenant('ti');
+    other = await createTenant('tx');
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('Users', () => {
+    it('should only list members of the own company', async () => {
+      const response = await asBoss('get', '/users?take=100');
+
+      expect(response.status).toBe(200);
+
+      const ids = response.body.users.map((user) => user.id);
+      expect(ids).toContain(own.employeeId);
+      expect(ids).not.toContain(other.employeeId);
+      expect(response.body.total).toBe(2);
+    });
+
+    it('should hide users of other companies', async () => {
+      const mine = await asBoss('get', `/users/${own.employeeId}`);
+      expect(mine.status).toBe(200);
+
+      const theirs = await asBoss('get', `/users/${other.employeeId}`);
+      expect(theirs.status).toBe(404);
+    });
+
+    it('should not change roles across companies', async () => {
+      const response = await asBoss(
+        'patch',
+        `/users/${other.employeeId}/role`,
+      ).send({ role: 'MANAGER' });
+
+      expect(response.status).toBe(404);
+
+      const user = await prisma.user.findUnique({
+        where: { id: other.employeeId },
+      });
+      expect(user.role).toBe('EMPLOYEE');
+    });
+
+    it('should not deactivate or activate across companies', async () => {
+      const deactivate = await asBoss(
+        'patch',
+        `/users/${other.employeeId}/deactivate`,
+      );
+      expect(deactivate.status).toBe(404);
+
+      const activate = await asBoss(
+        'patch',
+        `/users/${other.employeeId}/activate`,
+      );
+      expect(activate.status).toBe(404);
+
+      const user = await prisma.user.findUnique({
+        where: { id: other.employeeId },
+      });
+      expect(user.isActive).toBe(true);
+    });
+
+    it('should not expose audit logs or sessions across companies', async () => {
+      const ownLogs = await asBoss(
+        'get',
+        `/users/${own.employeeId}/audit-logs`,
+      );
+      expect(ownLogs.body.total).toBeGreaterThan(0);
+
+      const logs = await asBoss('get', `/users/${other.employeeId}/audit-logs`);
+      expect(logs.status).toBe(200);
+      expect(logs.body.total).toBe(0);
+
+      const ownSessions = await asBoss(
+        'get',
+        `/users/${own.employeeId}/sessions`,
+      );
+      expect(ownSessions.body.length).toBeGreaterThan(0);
+
+      const sessions = await asBoss(
+        'get',
+        `/users/${other.employeeId}/sessions`,
+      );
+      expect(sessions.status).toBe(200);
+      expect(sessions.body).toEqual([]);
+    });
+  });
+
+  describe('Search', () => {
+    const resultIds = (response: request.Response) =>
+      response.body.data.results.map((user) => user.id);
+
+    it('should only search the own company', async () => {
+      const response = await asBoss('get', '/search/users?q=emp-&pageSize=100');
+
+      expect(response.status).toBe(200);
+      expect(resultIds(response)).toContain(own.employeeId);
+      expect(resultIds(response)).not.toContain(other.employeeId);
+    });
+
+    it('should not find other companies by email', async () => {
+      const theirs = await asBoss(
+        'get',
+        `/search/users/email?email=${other.employeeEmail}`,
+      );
+      expect(theirs.body.data.results).toEqual([]);
+
+      const mine = await asBoss(
+        'get',
+        `/search/users/email?email=${own.employeeEmail}`,
+      );
+      expect(resultIds(mine)).toEqual([own.employeeId]);
+    });
+
+    it('should scope role and advanced search', async () => {
+      const byRole = await asBoss(
+        'get',
+        '/search/users/role?role=EMPLOYEE&pageSize=100',
+      );
+      expect(resultIds(byRole)).toEqual([own.employeeId]);
+
+      const advanced = await asBoss(
+        'get',
+        '/search/users/advanced?q=example.com&twoFactorEnabled=false&pageSize=100',
+      );
+      expect(resultIds(advanced)).not.toContain(other.employeeId);
+      expect(advanced.body.data.total).toBe(2);
+    });
+
+    it('should compute statistics for the own company only', async () => {
+      const response = await asBoss('get', '/search/stats');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.total).toBe(2);
+    });
+  });
+
+  describe('Storage', () => {
+    let ownFileId: string;
+    let otherFileId: string;
+
+    const upload = async (token: string) => {
+      const response = await request(app.getHttpServer())
+        .post('/storage/upload')
+        .set('Authorization', `Bearer ${token}`)
+        .attach('file', Buffer.from('%PDF-1.4 tenant'), {
+          filename: 'tenant.pdf',
+          contentType: 'application/pdf',
+        });
+
+      expect(response.status).toBe(201);
+      return response.body.data.id as string;
+    };
+
+    beforeAll(async () => {
+      ownFileId = await upload(own.bossToken);
+      otherFileId = await upload(other.bossToken);
+    });
+
+    it('should only list files of the own company', async () => {
+      const response = await asBoss('get', '/storage');
+
+      expect(response.status).toBe(200);
+
+      const ids = response.body.data.files.map((file) => file.id);
+      expect(ids).toContain(ownFileId);
+      expect(ids).not.toContain(otherFileId);
+    });
+
+    it('should not serve files of another company', async () => {
+      const file = await asBoss('get', `/storage/${otherFileId}`);
+      expect(file.status).toBe(404);
+
+      const metadata = await asBoss('get', `/storage/${otherFileId}/metadata`);
+      expect(metadata.status).toBe(404);
+    });
+
+    it('should not delete files of another company', async () => {
+      const theirs = await asBoss('delete', `/storage/${otherFileId}`);
+      expect(theirs.status).toBe(404);
+
+      const file = await prisma.storedFile.findUnique({
+        where: { id: otherFileId },
+      });
+      expect(file).not.toBeNull();
+
+      const mine = await asBoss('delete', `/storage/${ownFileId}`);
+      expect(mine.status).toBe(200);
+    });
+  });
+
+  describe('Company resources', () => {
+    it('should not expose another company', async () => {
+      const company = await asBoss('get', `/companies/${other.companyId}`);
+      expect(company.status).toBe(403);
+
+      const employees = await asBoss(
+        'get',
+        `/companies/${other.companyId}/employees`,
+      );
+      expect(employees.status).toBe(403);
+    });
+
+    it('should not manage custom roles of another company', async () => {
+      const roles = await asBoss('get', `/companies/${other.companyId}/roles`);
+      expect(roles.status).toBe(403);
+
+      const ownRoles = await asBoss('get', `/companies/${own.companyId}/roles`);
+      expect(ownRoles.status).toBe(200);
+
+      const role = await request(app.getHttpServer())
+        .post(`/companies/${own.companyId}/roles`)
+        .set('Authorization', `Bearer ${own.bossToken}`)
+        .send({ name: 'Reader', permissions: ['users:read'] });
+
+      const assign = await asBoss(
+        'put',
+        `/companies/${own.companyId}/roles/${role.body.id}/members/${other.employeeId}`,
+      );
+      expect(assign.status).toBe(404);
+    });
+
+    it('should not invite users that belong to another company', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/invitations')
+        .set('Authorization', `Bearer ${own.bossToken}`)
+        .send({ email: other.employeeEmail });
+
+      expect(response.status).toBe(409);
+    });
+  });
+});
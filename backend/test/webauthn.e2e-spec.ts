@@ -0,0 +1,221 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from './../src/app.module';
+import { PrismaService } from './../src/prisma/prisma.service';
+import { SoftwareAuthenticator } from './helpers/software-authenticator';
+
+const ORIGIN = 'http://localhost:3000';
+
+describe('WebAuthn Passkeys (e2e)', () => {
+  let app: INestApplication;
+  let prisma: PrismaService;
+  let accessToken: string;
+  let passkeyId: string;
+
+  const authenticator = new SoftwareAuthenticator(ORIGIN, 'localhost');
+  const user = {
+    email: `passkey-${Date.now()}@example.com`,
+    password: 'PasskeyP@ss123',
+    username: `passkey${Date.now()}`,
+  };
+
+  const loginOptions = (token?: string) =>
+    request(app.getHttpServer())
+      .post('/webauthn/login/options')
+      .send(token ? { token } : {});
+
+  const loginVerify = (response: unknown, token?: string) =>
+    request(app.getHttpServer())
+      .post('/webauthn/login/verify')
+      .send(token ? { token, response } : { response });
+
+  beforeAll(async () => {
+    process.env.WEBAUTHN_RP_ID = 'localhost';
+    process.env.WEBAUTHN_ORIGINS = ORIGIN;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    prisma = app.get(PrismaService);
+
+    await request(app.getHttpServer()).post('/auth/register').send(user);
+
+    const loginResponse = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: user.email, password: user.password });
+
+    accessToken = loginResponse.body.accessToken;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('Registration', () => {
+    it('should require authentication', async () => {
+      const response = await request(app.getHttpServer()).post(
+        '/webauthn/register/options',
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should register a passkey', async () => {
+      const options = await request(app.getHttpServer())
+        .post('/webauthn/register/options')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(options.status).toBe(200);
+      expect(options.body.challenge).toBeDefined();
+      expect(options.body.rp.id).toBe('localhost');
+
+      const credential = authenticator.createCredential(options.body);
+
+      const response = await request(app.getHttpServer())
+        .post('/webauthn/register/verify')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Laptop', response: credential });
+
+      expect(response.status).toBe(201);
+      expect(response.body.name).toBe('Laptop');
+      expect(response.body.publicKey).toBeUndefined();
+      passkeyId = response.body.id;
+
+      // The challenge is single use
+      const replay = await request(app.getHttpServer())
+        .post('/webauthn/register/verify')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Laptop again', response: credential });
+
+      expect(replay.status).toBe(400);
+    });
+
+    it('should list registered passkeys', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/webauthn/credentials')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].id).toBe(passkeyId);
+    });
+  });
+
+  describe('Passwordless login', () => {
+    it('should log in with a passkey', async () => {
+      const options = await loginOptions();
+      expect(options.status).toBe(200);
+
+      const response = await loginVerify(
+        authenticator.getAssertion(options.body),
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.accessToken).toBeDefined();
+      expect(response.body.user.email).toBe(user.email);
+
+      const passkey = await prisma.webAuthnCredential.findUnique({
+        where: { id: passkeyId },
+      });
+      expect(Number(passkey.counter)).toBeGreaterThan(0);
+      expect(passkey.lastUsedAt).not.toBeNull();
+    });
+
+    it('should reject a replayed assertion', async () => {
+      const options = await loginOptions();
+      const assertion = authenticator.getAssertion(options.body);
+
+      expect((await loginVerify(assertion)).status).toBe(200);
+      expect((await loginVerify(assertion)).status).toBe(400);
+    });
+
+    it('should require user verification', async () => {
+      const options = await loginOptions();
+
+      const response = await loginVerify(
+        authenticator.getAssertion(options.body, false),
+      );
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Second factor', () => {
+    let twoFAToken: string;
+
+    beforeAll(async () => {
+      await prisma.user.update({
+        where: { email: user.email },
+        data: { isTwoFAEnabled: true },
+      });
+    });
+
+    afterAll(async () => {
+      await prisma.user.update({
+        where: { email: user.email },
+        data: { isTwoFAEnabled: false },
+      });
+    });
+
+    it('should advertise passkeys as an available factor', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: user.email, password: user.password });
+
+      expect(response.body.requiresTwoFA).toBe(true);
+      expect(response.body.factors).toEqual(
+        expect.arrayContaining(['totp', 'webauthn']),
+      );
+      twoFAToken = response.body.token;
+    });
+
+    it('should complete login with a passkey', async () => {
+      const options = await loginOptions(twoFAToken);
+
+      expect(options.status).toBe(200);
+      expect(options.body.allowCredentials).toHaveLength(1);
+      expect(options.body.allowCredentials[0].id).toBe(authenticator.id);
+
+      const response = await loginVerify(
+        authenticator.getAssertion(options.body, false),
+        twoFAToken,
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.accessToken).toBeDefined();
+    });
+
+    it('should reject an invalid 2FA token', async () => {
+      const response = await loginOptions('invalid.token.here');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Removal', () => {
+    it('should not remove passkeys of other users', async () => {
+      const response = await request(app.getHttpServer())
+        .delete('/webauthn/credentials/unknown-id')
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should remove a passkey and stop accepting it', async () => {
+      const response = await request(app.getHttpServer())
+        .delete(`/webauthn/credentials/${passkeyId}`)
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      expect(response.status).toBe(200);
+
+      const options = await loginOptions();
+      const login = await loginVerify(authenticator.getAssertion(options.body));
+
+      expect(login.status).toBe(401);
+    });
+  });
+});